@@ -0,0 +1,9 @@
+// Learn more https://docs.expo.dev/guides/customizing-metro
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Bundled pose model weights (assets/models/**/*.bin)
+config.resolver.assetExts.push('bin');
+
+module.exports = config;
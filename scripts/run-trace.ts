@@ -0,0 +1,55 @@
+/**
+ * run-trace - Print the coaching transcript for a recorded pose trace
+ * Usage: npm run trace -- <trace.jsonl> <stretchType> [--out transcript.txt]
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { StretchType } from '../src/types';
+import { STRETCH_TYPES } from '../src/config/constants';
+import { parseTrace } from '../src/trace/PoseTrace';
+import { formatTranscript, runTrace } from '../src/trace/TraceRunner';
+
+const USAGE =
+  'Usage: npm run trace -- <trace.jsonl> <stretchType> [--out transcript.txt]';
+
+async function main(args: string[]): Promise<number> {
+  const outIndex = args.indexOf('--out');
+  const outFile = outIndex >= 0 ? args[outIndex + 1] : undefined;
+  const [traceFile, stretchType] = args.filter(
+    (_, index) => outIndex < 0 || (index !== outIndex && index !== outIndex + 1)
+  );
+
+  const stretchTypes = Object.values(STRETCH_TYPES) as string[];
+  if (!traceFile || !stretchType || (outIndex >= 0 && !outFile)) {
+    process.stderr.write(`${USAGE}\n`);
+    return 2;
+  }
+  if (!stretchTypes.includes(stretchType)) {
+    process.stderr.write(
+      `Unknown stretch type '${stretchType}' (expected one of: ${stretchTypes.join(', ')})\n`
+    );
+    return 2;
+  }
+
+  const trace = parseTrace(readFileSync(traceFile, 'utf8'));
+  const transcript = formatTranscript(
+    await runTrace(trace, stretchType as StretchType)
+  );
+
+  if (outFile) {
+    writeFileSync(outFile, transcript);
+  } else {
+    process.stdout.write(transcript);
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`
+    );
+    process.exit(1);
+  }
+);
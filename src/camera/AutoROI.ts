@@ -0,0 +1,187 @@
+/**
+ * AutoROI - Points the camera crop at the tracked person
+ * Follows the previous pose's bounding box and falls back to the full frame
+ */
+
+import { BoundingBox, Pose } from '../types';
+import { getPoseBoundingBox } from '../pose/PoseGeometry';
+import { PoseService } from '../pose/PoseService';
+import { CameraService } from './CameraService';
+
+export interface AutoROIConfig {
+  padding: number; // Margin on each side as a fraction of the box size
+  smoothing: number; // Weight of the previous ROI (0 = jump to the new box)
+  minSize: number; // Smallest crop as a fraction of the frame size
+  minKeypoints: number; // Fewer confident keypoints counts as a lost pose
+  minKeypointConfidence: number;
+}
+
+export class AutoROI {
+  private camera: CameraService;
+  private poseService: PoseService;
+  private config: AutoROIConfig;
+  private roi: BoundingBox | null = null;
+  private isActive = false;
+
+  private readonly handlePose = (pose: Pose) => {
+    this.update(pose);
+  };
+
+  constructor(
+    camera: CameraService,
+    poseService: PoseService,
+    config?: Partial<AutoROIConfig>
+  ) {
+    this.camera = camera;
+    this.poseService = poseService;
+    this.config = {
+      padding: 0.2,
+      smoothing: 0.6,
+      minSize: 0.3,
+      minKeypoints: 5,
+      minKeypointConfidence: 0.3,
+      ...config,
+    };
+  }
+
+  /**
+   * Start following poses from the pose service
+   */
+  start(): void {
+    if (this.isActive) {
+      return;
+    }
+
+    this.poseService.addPoseCallback(this.handlePose);
+    this.isActive = true;
+  }
+
+  /**
+   * Stop following and go back to the full frame
+   */
+  stop(): void {
+    if (!this.isActive) {
+      return;
+    }
+
+    this.poseService.removePoseCallback(this.handlePose);
+    this.isActive = false;
+    this.reset();
+  }
+
+  /**
+   * Move the crop towards the pose; returns null when using the full frame
+   */
+  update(pose: Pose): BoundingBox | null {
+    const { width: frameWidth, height: frameHeight } =
+      this.camera.getConfig().resolution;
+    const target = this.calculateTarget(pose, frameWidth, frameHeight);
+
+    if (!target) {
+      this.reset();
+      return null;
+    }
+
+    this.roi = this.roi ? this.smooth(this.roi, target) : target;
+
+    // A crop covering the whole frame is no crop at all
+    if (this.roi.width >= frameWidth && this.roi.height >= frameHeight) {
+      this.camera.clearROI();
+      return null;
+    }
+
+    this.camera.setROI(
+      Math.round(this.roi.x),
+      Math.round(this.roi.y),
+      Math.round(this.roi.width),
+      Math.round(this.roi.height)
+    );
+    return { ...this.roi };
+  }
+
+  /**
+   * Padded box around the pose, shaped like the model input and kept in frame
+   */
+  private calculateTarget(
+    pose: Pose,
+    frameWidth: number,
+    frameHeight: number
+  ): BoundingBox | null {
+    const { padding, minSize, minKeypoints, minKeypointConfidence } =
+      this.config;
+
+    const confidentCount = Object.values(pose.keypoints).filter(
+      keypoint => keypoint.confidence >= minKeypointConfidence
+    ).length;
+    const box = getPoseBoundingBox(pose.keypoints, minKeypointConfidence);
+    if (!box || confidentCount < minKeypoints) {
+      return null;
+    }
+
+    let width = Math.max(box.width * (1 + 2 * padding), frameWidth * minSize);
+    let height = Math.max(
+      box.height * (1 + 2 * padding),
+      frameHeight * minSize
+    );
+
+    // Grow the short side so the crop is not distorted when resized
+    const { inputResolution } = this.poseService.getBackendCapabilities();
+    const aspectRatio = inputResolution.width / inputResolution.height;
+    if (width / height < aspectRatio) {
+      width = height * aspectRatio;
+    } else {
+      height = width / aspectRatio;
+    }
+    width = Math.min(width, frameWidth);
+    height = Math.min(height, frameHeight);
+
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+
+    return {
+      x: Math.min(Math.max(centerX - width / 2, 0), frameWidth - width),
+      y: Math.min(Math.max(centerY - height / 2, 0), frameHeight - height),
+      width,
+      height,
+    };
+  }
+
+  /**
+   * Ease the crop towards the target so it doesn't jitter with the pose
+   */
+  private smooth(previous: BoundingBox, target: BoundingBox): BoundingBox {
+    const weight = this.config.smoothing;
+    const blend = (a: number, b: number) => a * weight + b * (1 - weight);
+
+    return {
+      x: blend(previous.x, target.x),
+      y: blend(previous.y, target.y),
+      width: blend(previous.width, target.width),
+      height: blend(previous.height, target.height),
+    };
+  }
+
+  /**
+   * Current crop, or null when using the full frame
+   */
+  getROI(): BoundingBox | null {
+    return this.roi && this.camera.getConfig().enableCropping
+      ? { ...this.roi }
+      : null;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<AutoROIConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Fall back to the full frame
+   */
+  reset(): void {
+    this.roi = null;
+    this.camera.clearROI();
+  }
+}
@@ -3,8 +3,10 @@
  * Provides 8-12 FPS frame capture with ROI cropping functionality
  */
 
-import { Camera } from 'expo-camera';
-import { AppError, ServiceResponse } from '../types';
+import { Camera, CameraView } from 'expo-camera';
+import { deleteAsync } from 'expo-file-system';
+import { AppError, RegionOfInterest, ServiceResponse } from '../types';
+import { DecodedFrame, FrameDecoder } from './FrameDecoder';
 
 // Type definitions for Node.js globals in React Native environment
 declare const setInterval: (callback: () => void, ms: number) => number;
@@ -14,12 +16,12 @@ declare const console: {
 };
 
 export interface CameraFrame {
-  uri: string;
   width: number;
   height: number;
+  pixels: Uint8Array; // Packed RGBA, width * height * 4; reused by the next frame
   timestamp: number;
   frameId: string;
-  base64?: string;
+  roi?: RegionOfInterest; // Set when the frame is a crop of the full frame
 }
 
 export interface CameraConfig {
@@ -41,25 +43,28 @@ export interface CameraConfig {
       }
     | undefined;
   enableCropping: boolean;
-  enableBase64: boolean;
-  quality: number; // 0-1
+  quality: number; // 0-1 JPEG quality of captured pictures
 }
 
 export interface CameraState {
   isActive: boolean;
   hasPermission: boolean;
   isInitialized: boolean;
-  currentFPS: number;
+  currentFPS: number; // Capture rate currently requested
+  measuredFPS: number; // Rate actually achieved between the last two frames
   frameCount: number;
   lastFrameTime: number;
   error?: AppError | undefined;
 }
 
 export class CameraService {
-  private camera: typeof Camera | null = null;
+  private camera: CameraView | null = null;
+  private decoder = new FrameDecoder();
+  private isCapturing = false;
   private config: CameraConfig;
   private state: CameraState;
   private frameInterval: number | null = null;
+  private captureFPS: number;
   private frameIdCounter = 0;
   private lastFrameTime = 0;
   private frameCallbacks: Set<(frame: CameraFrame) => void> = new Set();
@@ -70,16 +75,17 @@ export class CameraService {
       fps: { min: 8, max: 12, target: 10 },
       resolution: { width: 640, height: 480 },
       enableCropping: false,
-      enableBase64: false,
       quality: 0.8,
       ...config,
     };
+    this.captureFPS = this.config.fps.target;
 
     this.state = {
       isActive: false,
       hasPermission: false,
       isInitialized: false,
       currentFPS: 0,
+      measuredFPS: 0,
       frameCount: 0,
       lastFrameTime: 0,
     };
@@ -160,12 +166,7 @@ export class CameraService {
     }
 
     try {
-      // Calculate frame interval based on target FPS
-      const frameInterval = 1000 / this.config.fps.target;
-
-      this.frameInterval = setInterval(() => {
-        this.captureFrame();
-      }, frameInterval);
+      this.scheduleCapture();
 
       this.state.isActive = true;
       this.state.frameCount = 0;
@@ -196,6 +197,34 @@ export class CameraService {
     }
   }
 
+  /**
+   * (Re)start the capture timer at the current capture rate
+   */
+  private scheduleCapture(): void {
+    if (this.frameInterval) {
+      clearInterval(this.frameInterval);
+    }
+
+    this.frameInterval = setInterval(() => {
+      this.captureFrame();
+    }, 1000 / this.captureFPS);
+    this.state.currentFPS = this.captureFPS;
+  }
+
+  /**
+   * Change the capture rate without restarting the camera
+   */
+  setFrameRate(fps: number): void {
+    if (fps <= 0 || fps === this.captureFPS) {
+      return;
+    }
+
+    this.captureFPS = fps;
+    if (this.state.isActive) {
+      this.scheduleCapture();
+    }
+  }
+
   /**
    * Stop camera capture
    */
@@ -212,6 +241,7 @@ export class CameraService {
 
       this.state.isActive = false;
       this.state.currentFPS = 0;
+      this.state.measuredFPS = 0;
 
       return {
         success: true,
@@ -242,10 +272,12 @@ export class CameraService {
    * Capture a single frame
    */
   private async captureFrame(): Promise<void> {
-    if (!this.camera) {
+    // Skip this tick while the previous picture is still being taken
+    if (!this.camera || this.isCapturing) {
       return;
     }
 
+    this.isCapturing = true;
     try {
       const now = Date.now();
       const frameId = this.generateFrameId();
@@ -253,28 +285,45 @@ export class CameraService {
       // Calculate actual FPS
       if (this.state.frameCount > 0) {
         const timeDiff = now - this.state.lastFrameTime;
-        this.state.currentFPS = 1000 / timeDiff;
+        this.state.measuredFPS = 1000 / timeDiff;
+      }
+
+      // The JPEG is decoded on the JS thread, so it should be no larger than
+      // the capture resolution: see loadPictureSize
+      const picture = await this.camera.takePictureAsync({
+        base64: true,
+        quality: this.config.quality,
+        exif: false,
+        shutterSound: false,
+      });
+
+      // Decode to RGBA in frame space, cropped to the ROI if enabled
+      const { width: frameWidth, height: frameHeight } = this.config.resolution;
+      const roi = this.config.enableCropping ? this.config.roi : undefined;
+      let image: DecodedFrame;
+      try {
+        if (!picture.base64) {
+          throw new Error('Camera returned no image data');
+        }
+        image = this.decoder.decodeJpeg(
+          picture.base64,
+          frameWidth,
+          frameHeight,
+          roi
+        );
+      } finally {
+        this.deletePicture(picture.uri);
       }
 
-      // Create frame data
       const frame: CameraFrame = {
-        uri: '', // Will be set by camera implementation
-        width: this.config.resolution.width,
-        height: this.config.resolution.height,
+        width: image.width,
+        height: image.height,
+        pixels: image.data,
         timestamp: now,
         frameId,
       };
-
-      // Apply ROI cropping if enabled
-      if (this.config.enableCropping && this.config.roi) {
-        frame.width = this.config.roi.width;
-        frame.height = this.config.roi.height;
-      }
-
-      // Generate base64 if requested
-      if (this.config.enableBase64) {
-        // This would be implemented with actual camera capture
-        // frame.base64 = await this.captureBase64();
+      if (roi) {
+        frame.roi = { ...image.region, frameWidth, frameHeight };
       }
 
       this.state.frameCount++;
@@ -299,27 +348,84 @@ export class CameraService {
 
       this.state.error = appError;
       this.notifyError(appError);
+    } finally {
+      this.isCapturing = false;
     }
   }
 
+  /**
+   * Remove a captured picture's temporary file; every frame leaves one
+   */
+  private deletePicture(uri: string): void {
+    deleteAsync(uri, { idempotent: true }).catch(error => {
+      console.error('Failed to delete captured picture:', error);
+    });
+  }
+
   /**
    * Set camera reference (called from React component)
    */
-  setCameraRef(camera: typeof Camera | null): void {
+  setCameraRef(camera: CameraView | null): void {
     this.camera = camera;
   }
 
+  /**
+   * Picture size to pass to CameraView's pictureSize once the camera is ready
+   * Undefined without a camera or when it reports no sizes
+   */
+  async loadPictureSize(): Promise<string | undefined> {
+    if (!this.camera) {
+      return undefined;
+    }
+
+    try {
+      return this.selectPictureSize(
+        await this.camera.getAvailablePictureSizesAsync()
+      );
+    } catch (error) {
+      const appError: AppError = {
+        type: 'camera_unavailable',
+        message: `Failed to read picture sizes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        timestamp: Date.now(),
+        recoverable: true,
+        context: { originalError: error },
+      };
+      this.notifyError(appError);
+      return undefined;
+    }
+  }
+
+  /**
+   * Smallest available picture size ("WxH") covering the capture resolution
+   */
+  selectPictureSize(availableSizes: string[]): string | undefined {
+    const { width, height } = this.config.resolution;
+    const sizes = availableSizes
+      .map(size => {
+        const [w, h] = size.split('x').map(Number);
+        return { size, w: w ?? 0, h: h ?? 0 };
+      })
+      .filter(({ w, h }) => w > 0 && h > 0)
+      .sort((a, b) => a.w * a.h - b.w * b.h);
+
+    // Pictures may come back rotated, so either orientation will do
+    const fits = sizes.find(
+      ({ w, h }) => (w >= width && h >= height) || (w >= height && h >= width)
+    );
+    return (fits ?? sizes[sizes.length - 1])?.size;
+  }
+
   /**
    * Update camera configuration
    */
   updateConfig(newConfig: Partial<CameraConfig>): void {
     this.config = { ...this.config, ...newConfig };
 
-    // Restart capture if active and FPS changed
-    if (this.state.isActive && newConfig.fps) {
-      this.stopCapture().then(() => {
-        this.startCapture();
-      });
+    // Keep the capture rate inside a new fps range; FrameRateGovernor picks
+    // a rate from it on its next update
+    if (newConfig.fps) {
+      const { min, max } = newConfig.fps;
+      this.setFrameRate(Math.min(Math.max(this.captureFPS, min), max));
     }
   }
 
@@ -0,0 +1,178 @@
+/**
+ * CameraTiltCalibrator - Estimates how far the camera is rolled from level
+ * Uses the floor line under a reference pose, or a device orientation reading
+ *
+ * Only points that touch the floor make a floor line: ankles sit above it on
+ * the toes, and hands only rest on it in some stretches. Models without heel
+ * and toe keypoints rarely give one, so they rely on the device reading.
+ */
+
+import { CameraTiltCalibration, KeypointName, Pose } from '../types';
+import { POSE_CONFIG } from '../config/constants';
+
+export interface CameraTiltCalibratorConfig {
+  contactKeypoints: KeypointName[]; // Keypoints resting on the floor by default
+  minKeypointConfidence: number;
+  minBaselinePx: number; // The floor contacts must span at least this far
+  maxTiltDeg: number; // Steeper lines are not a floor
+  minSamples: number; // Reference poses needed for an estimate
+  maxSamples: number;
+}
+
+export class CameraTiltCalibrator {
+  private config: CameraTiltCalibratorConfig;
+  private samples: number[] = [];
+  private deviceTilt: number | null = null;
+  private lastUpdateTime = 0;
+
+  constructor(config?: Partial<CameraTiltCalibratorConfig>) {
+    this.config = {
+      contactKeypoints: ['left_heel', 'right_heel', 'left_toe', 'right_toe'],
+      minKeypointConfidence: POSE_CONFIG.CONFIDENCE_THRESHOLD,
+      minBaselinePx: 80,
+      maxTiltDeg: 30,
+      minSamples: 5,
+      maxSamples: 30,
+      ...config,
+    };
+  }
+
+  /**
+   * Measure the floor line under a reference pose (e.g. a plank, or standing
+   * square to the camera with the feet apart)
+   * contactKeypoints are the points this pose rests on the floor with
+   * Returns the tilt of this pose, or null if no floor line can be found
+   */
+  addReferencePose(
+    pose: Pose,
+    contactKeypoints: KeypointName[] = this.config.contactKeypoints
+  ): number | null {
+    const tiltDeg = this.measureFloorLine(pose, contactKeypoints);
+    if (tiltDeg === null) {
+      return null;
+    }
+
+    this.samples.push(tiltDeg);
+    if (this.samples.length > this.config.maxSamples) {
+      this.samples.shift();
+    }
+    this.lastUpdateTime = pose.timestamp;
+    return tiltDeg;
+  }
+
+  /**
+   * Use a device orientation reading instead of the floor line
+   * Same sign convention as CameraTiltCalibration.tiltDeg
+   */
+  setDeviceTilt(tiltDeg: number, timestamp = Date.now()): void {
+    this.deviceTilt = tiltDeg;
+    this.lastUpdateTime = timestamp;
+  }
+
+  /**
+   * Angle of the floor line: the longest, nearly level edge of the lower
+   * convex hull of the contact keypoints, so raised points (an ankle over the
+   * toes, a wrist at hip height) stay above it
+   */
+  private measureFloorLine(
+    pose: Pose,
+    contactKeypoints: KeypointName[]
+  ): number | null {
+    const points = contactKeypoints
+      .map(name => pose.keypoints[name])
+      .filter(
+        keypoint => keypoint.confidence >= this.config.minKeypointConfidence
+      )
+      .sort((a, b) => a.x - b.x || a.y - b.y);
+
+    // Monotone chain; image y grows downwards, so the lower hull has max y
+    const hull: { x: number; y: number }[] = [];
+    points.forEach(point => {
+      while (hull.length >= 2) {
+        const a = hull[hull.length - 2]!;
+        const b = hull[hull.length - 1]!;
+        const cross =
+          (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+        if (cross < 0) {
+          break;
+        }
+        hull.pop();
+      }
+      hull.push(point);
+    });
+
+    let best: { length: number; tiltDeg: number } | null = null;
+    for (let i = 1; i < hull.length; i++) {
+      const dx = hull[i]!.x - hull[i - 1]!.x;
+      const dy = hull[i]!.y - hull[i - 1]!.y;
+      const tiltDeg = Math.atan2(dy, dx) * (180 / Math.PI);
+      const length = Math.hypot(dx, dy);
+
+      if (
+        Math.abs(tiltDeg) <= this.config.maxTiltDeg &&
+        length >= this.config.minBaselinePx &&
+        (!best || length > best.length)
+      ) {
+        best = { length, tiltDeg };
+      }
+    }
+
+    return best ? best.tiltDeg : null;
+  }
+
+  /**
+   * Current estimate; a device reading wins over the floor line
+   * Returns null until there are enough reference poses
+   */
+  getCalibration(): CameraTiltCalibration | null {
+    if (this.deviceTilt !== null) {
+      return {
+        tiltDeg: this.deviceTilt,
+        source: 'device',
+        samples: 0,
+        timestamp: this.lastUpdateTime,
+      };
+    }
+
+    if (this.samples.length < this.config.minSamples) {
+      return null;
+    }
+
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median =
+      sorted.length % 2 === 0
+        ? (sorted[middle - 1]! + sorted[middle]!) / 2
+        : sorted[middle]!;
+
+    return {
+      tiltDeg: median,
+      source: 'floor_line',
+      samples: this.samples.length,
+      timestamp: this.lastUpdateTime,
+    };
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<CameraTiltCalibratorConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): CameraTiltCalibratorConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Forget samples and device readings (new session)
+   */
+  reset(): void {
+    this.samples = [];
+    this.deviceTilt = null;
+    this.lastUpdateTime = 0;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * FrameDecoder - Turns captured JPEG pictures into packed RGBA pixels
+ * Pure TypeScript (no native modules) so it also runs in Node
+ */
+
+import * as jpeg from 'jpeg-js';
+import { BoundingBox } from '../types';
+
+/**
+ * Packed RGBA pixels (opaque), width * height * 4 bytes
+ * The layout tf.browser.fromPixels takes without repacking
+ */
+export interface RGBAImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Frame pixels plus the frame-space region they cover
+ */
+export interface DecodedFrame extends RGBAImage {
+  region: BoundingBox;
+}
+
+/**
+ * Decoded pixels in any packed 8-bit RGB or RGBA layout
+ */
+export interface PixelSource {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+  channels: 3 | 4;
+}
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_LOOKUP = (() => {
+  const lookup = new Uint8Array(256).fill(255);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+  // URL-safe variants
+  lookup['-'.charCodeAt(0)] = 62;
+  lookup['_'.charCodeAt(0)] = 63;
+  return lookup;
+})();
+
+export class FrameDecoder {
+  // Grown on demand and reused so steady-state capture doesn't allocate
+  // past the decode itself
+  private bytes = new Uint8Array(0);
+  private pixels = new Uint8Array(0);
+
+  /**
+   * Decode a JPEG (raw bytes or base64) and sample it into frame space
+   * The picture is stretched onto frameWidth x frameHeight, then the ROI
+   * (in frame coordinates) is cut out; without an ROI the whole frame is kept.
+   * The returned data is only valid until the next call.
+   */
+  decodeJpeg(
+    jpegData: Uint8Array | string,
+    frameWidth: number,
+    frameHeight: number,
+    roi?: BoundingBox
+  ): DecodedFrame {
+    const bytes =
+      typeof jpegData === 'string' ? this.decodeBase64(jpegData) : jpegData;
+    // jpeg-js allocates the decoded picture; sampling it into frame space
+    // writes the reused pixel buffer
+    const decoded = jpeg.decode(bytes, {
+      useTArray: true,
+      formatAsRGBA: false,
+    });
+
+    return this.sample(
+      {
+        data: decoded.data,
+        width: decoded.width,
+        height: decoded.height,
+        channels: 3,
+      },
+      frameWidth,
+      frameHeight,
+      roi
+    );
+  }
+
+  /**
+   * Nearest-neighbour crop and resize of decoded pixels into frame space
+   * The returned data is only valid until the next call.
+   */
+  sample(
+    source: PixelSource,
+    frameWidth: number,
+    frameHeight: number,
+    roi?: BoundingBox
+  ): DecodedFrame {
+    const region = this.clampRegion(roi, frameWidth, frameHeight);
+    const width = Math.max(Math.round(region.width), 1);
+    const height = Math.max(Math.round(region.height), 1);
+
+    const length = width * height * 4;
+    if (this.pixels.length < length) {
+      // Size for the full frame so a growing ROI doesn't reallocate
+      this.pixels = new Uint8Array(
+        Math.max(frameWidth * frameHeight * 4, length)
+      );
+    }
+    const data = this.pixels.subarray(0, length);
+
+    // Output pixel -> frame coordinate -> source pixel
+    const scaleX = source.width / frameWidth;
+    const scaleY = source.height / frameHeight;
+    const maxX = source.width - 1;
+    const maxY = source.height - 1;
+
+    for (let y = 0; y < height; y++) {
+      const sourceY = Math.min(Math.floor((region.y + y + 0.5) * scaleY), maxY);
+      const rowOffset = sourceY * source.width;
+
+      for (let x = 0; x < width; x++) {
+        const sourceX = Math.min(
+          Math.floor((region.x + x + 0.5) * scaleX),
+          maxX
+        );
+        const from = (rowOffset + sourceX) * source.channels;
+        const to = (y * width + x) * 4;
+
+        data[to] = source.data[from]!;
+        data[to + 1] = source.data[from + 1]!;
+        data[to + 2] = source.data[from + 2]!;
+        data[to + 3] = 255;
+      }
+    }
+
+    return { data, width, height, region: { ...region, width, height } };
+  }
+
+  /**
+   * Keep the ROI inside the frame; no ROI means the whole frame
+   */
+  private clampRegion(
+    roi: BoundingBox | undefined,
+    frameWidth: number,
+    frameHeight: number
+  ): BoundingBox {
+    if (!roi) {
+      return { x: 0, y: 0, width: frameWidth, height: frameHeight };
+    }
+
+    const x = Math.min(Math.max(roi.x, 0), frameWidth - 1);
+    const y = Math.min(Math.max(roi.y, 0), frameHeight - 1);
+
+    return {
+      x,
+      y,
+      width: Math.min(roi.width, frameWidth - x),
+      height: Math.min(roi.height, frameHeight - y),
+    };
+  }
+
+  /**
+   * Decode base64 into the reused byte buffer
+   */
+  private decodeBase64(base64: string): Uint8Array {
+    // Skip a data URI prefix such as "data:image/jpeg;base64,"
+    const start = base64.startsWith('data:') ? base64.indexOf(',') + 1 : 0;
+    const maxLength = Math.floor(((base64.length - start) * 3) / 4);
+    if (this.bytes.length < maxLength) {
+      this.bytes = new Uint8Array(maxLength);
+    }
+
+    let length = 0;
+    let buffer = 0;
+    let bits = 0;
+    for (let i = start; i < base64.length; i++) {
+      const value = BASE64_LOOKUP[base64.charCodeAt(i) & 0xff]!;
+      if (value === 255) {
+        continue; // Padding or whitespace
+      }
+
+      buffer = (buffer << 6) | value;
+      bits += 6;
+      if (bits >= 8) {
+        bits -= 8;
+        this.bytes[length++] = (buffer >> bits) & 0xff;
+      }
+    }
+
+    return this.bytes.subarray(0, length);
+  }
+}
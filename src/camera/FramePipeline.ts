@@ -0,0 +1,125 @@
+/**
+ * FramePipeline - Feeds captured camera frames into pose estimation
+ * Checks frame quality, wraps the RGBA pixels in a tensor for PoseService
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { PoseService } from '../pose/PoseService';
+import { AppError } from '../types';
+import { CameraFrame, CameraService } from './CameraService';
+import { FrameQualityAnalyzer } from './FrameQualityAnalyzer';
+
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+export class FramePipeline {
+  private camera: CameraService;
+  private poseService: PoseService;
+  private qualityAnalyzer: FrameQualityAnalyzer | null;
+  private isRunning = false;
+  private errorCallbacks: Set<(error: AppError) => void> = new Set();
+
+  private readonly handleFrame = (frame: CameraFrame) => {
+    this.process(frame).catch(error => {
+      this.notifyError({
+        type: 'pose_estimation_failed',
+        message: `Frame processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        timestamp: Date.now(),
+        recoverable: true,
+        context: { originalError: error, frameId: frame.frameId },
+      });
+    });
+  };
+
+  constructor(
+    camera: CameraService,
+    poseService: PoseService,
+    qualityAnalyzer?: FrameQualityAnalyzer
+  ) {
+    this.camera = camera;
+    this.poseService = poseService;
+    this.qualityAnalyzer = qualityAnalyzer ?? null;
+  }
+
+  /**
+   * Start sending camera frames to the pose service
+   */
+  start(): void {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.camera.addFrameCallback(this.handleFrame);
+    this.isRunning = true;
+  }
+
+  /**
+   * Stop sending camera frames
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.camera.removeFrameCallback(this.handleFrame);
+    this.isRunning = false;
+  }
+
+  /**
+   * Estimate the pose for one frame; the tensor lives until inference ends
+   * The pixels are copied into the tensor, so the camera may reuse its buffer.
+   * fromPixels builds the int32 image from the bytes on the backend: GPU
+   * backends upload them as a texture, with no widened copy on the JS heap.
+   */
+  async process(frame: CameraFrame): Promise<void> {
+    // Poor frames still go to the pose service; the analyzer only reports
+    this.qualityAnalyzer?.analyze(
+      { data: frame.pixels, width: frame.width, height: frame.height },
+      frame.timestamp
+    );
+
+    let image: tf.Tensor3D | null = null;
+    try {
+      image = tf.browser.fromPixels(
+        { data: frame.pixels, width: frame.width, height: frame.height },
+        3
+      );
+
+      // Results reach listeners through PoseService callbacks
+      await this.poseService.estimatePose(image, {
+        capturedAt: frame.timestamp,
+        roi: frame.roi,
+      });
+    } finally {
+      image?.dispose();
+    }
+  }
+
+  /**
+   * Add error callback (frames that failed outside PoseService)
+   */
+  addErrorCallback(callback: (error: AppError) => void): void {
+    this.errorCallbacks.add(callback);
+  }
+
+  /**
+   * Remove error callback
+   */
+  removeErrorCallback(callback: (error: AppError) => void): void {
+    this.errorCallbacks.delete(callback);
+  }
+
+  /**
+   * Notify error callbacks
+   */
+  private notifyError(error: AppError): void {
+    this.errorCallbacks.forEach(callback => {
+      try {
+        callback(error);
+      } catch (callbackError) {
+        console.error('Error in error callback:', callbackError);
+      }
+    });
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * FrameQualityAnalyzer - Spots frames too dark, backlit or blurry for pose
+ * Measures brightness, contrast and Laplacian variance on a downsampled frame
+ */
+
+import {
+  AppError,
+  FrameQuality,
+  FrameQualityCondition,
+  FrameQualityReport,
+} from '../types';
+import { RGBAImage } from './FrameDecoder';
+
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+export interface FrameQualityConfig {
+  sampleWidth: number; // Frames are box-averaged down to this width
+  minBrightness: number; // Mean luma below this is too dark
+  dimBrightness: number; // ...and so is a flat (low contrast) frame below this
+  minContrast: number;
+  maxBacklight: number; // Centre / border ratio below this is backlit
+  minBacklitBorder: number; // ...when the border is at least this bright
+  minSharpness: number; // Laplacian variance below this is blurry
+  minConditionMs: number; // A quality must last this long to be reported
+}
+
+export class FrameQualityAnalyzer {
+  private config: FrameQualityConfig;
+  private luma = new Float32Array(0);
+  private counts = new Uint16Array(0);
+  private candidate: FrameQuality = 'good';
+  private candidateSince: number | null = null;
+  private reported: FrameQuality = 'good';
+  private lastReport: FrameQualityReport | null = null;
+  private conditionCallbacks: Set<(condition: FrameQualityCondition) => void> =
+    new Set();
+  private errorCallbacks: Set<(error: AppError) => void> = new Set();
+
+  constructor(config?: Partial<FrameQualityConfig>) {
+    this.config = {
+      sampleWidth: 160,
+      minBrightness: 45,
+      dimBrightness: 80,
+      minContrast: 18,
+      maxBacklight: 0.55,
+      minBacklitBorder: 150,
+      minSharpness: 40,
+      minConditionMs: 1500,
+      ...config,
+    };
+  }
+
+  /**
+   * Measure one frame and update the reported condition
+   */
+  analyze(image: RGBAImage, timestamp: number): FrameQualityReport {
+    const { width, height } = this.downsample(image);
+    const brightness = this.mean(0, 0, width, height, width);
+    const contrast = Math.sqrt(this.variance(width, height, brightness));
+    const sharpness = this.laplacianVariance(width, height);
+    const backlight = this.backlightRatio(width, height);
+
+    const report: FrameQualityReport = {
+      quality: 'good',
+      brightness,
+      contrast,
+      sharpness,
+      backlight,
+      timestamp,
+    };
+    report.quality = this.classify(report);
+
+    this.lastReport = report;
+    this.track(report);
+    return report;
+  }
+
+  /**
+   * Verdict for one frame; lighting problems win over blur
+   */
+  private classify(report: FrameQualityReport): FrameQuality {
+    const { config } = this;
+
+    if (
+      report.brightness < config.minBrightness ||
+      (report.brightness < config.dimBrightness &&
+        report.contrast < config.minContrast)
+    ) {
+      return 'too_dark';
+    }
+    if (report.backlight < config.maxBacklight) {
+      return 'backlit';
+    }
+    if (report.sharpness < config.minSharpness) {
+      return 'blurry';
+    }
+    return 'good';
+  }
+
+  /**
+   * Report a quality once it has held for minConditionMs
+   */
+  private track(report: FrameQualityReport): void {
+    if (report.quality !== this.candidate || this.candidateSince === null) {
+      this.candidate = report.quality;
+      this.candidateSince = report.timestamp;
+    }
+
+    const heldFor = report.timestamp - this.candidateSince;
+    if (
+      this.candidate === this.reported ||
+      heldFor < this.config.minConditionMs
+    ) {
+      return;
+    }
+
+    this.reported = this.candidate;
+    const condition: FrameQualityCondition = {
+      quality: this.candidate,
+      since: this.candidateSince,
+      report,
+    };
+    this.notifyCondition(condition);
+
+    if (condition.quality !== 'good') {
+      this.notifyError({
+        type: 'poor_frame_quality',
+        message: `Camera frames are ${condition.quality.replace('_', ' ')}`,
+        timestamp: report.timestamp,
+        recoverable: true,
+        context: { ...report },
+      });
+    }
+  }
+
+  /**
+   * Box-average the frame into a small luma image (reused buffer)
+   */
+  private downsample(image: RGBAImage): { width: number; height: number } {
+    const scale = Math.min(this.config.sampleWidth / image.width, 1);
+    const width = Math.max(Math.round(image.width * scale), 1);
+    const height = Math.max(Math.round(image.height * scale), 1);
+
+    const length = width * height;
+    if (this.luma.length < length) {
+      this.luma = new Float32Array(length);
+      this.counts = new Uint16Array(length);
+    }
+    this.luma.fill(0, 0, length);
+    this.counts.fill(0, 0, length);
+
+    for (let y = 0; y < image.height; y++) {
+      const row = Math.min(Math.floor(y * scale), height - 1) * width;
+      for (let x = 0; x < image.width; x++) {
+        const cell = row + Math.min(Math.floor(x * scale), width - 1);
+        const i = (y * image.width + x) * 4;
+        this.luma[cell]! +=
+          0.299 * image.data[i]! +
+          0.587 * image.data[i + 1]! +
+          0.114 * image.data[i + 2]!;
+        this.counts[cell]!++;
+      }
+    }
+
+    for (let i = 0; i < length; i++) {
+      this.luma[i] = this.luma[i]! / Math.max(this.counts[i]!, 1);
+    }
+    return { width, height };
+  }
+
+  /**
+   * Mean luma of a rectangle of the downsampled frame
+   */
+  private mean(
+    left: number,
+    top: number,
+    right: number,
+    bottom: number,
+    width: number
+  ): number {
+    let sum = 0;
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        sum += this.luma[y * width + x]!;
+      }
+    }
+    return sum / Math.max((right - left) * (bottom - top), 1);
+  }
+
+  /**
+   * Luma variance of the downsampled frame
+   */
+  private variance(width: number, height: number, mean: number): number {
+    let sum = 0;
+    for (let i = 0; i < width * height; i++) {
+      sum += (this.luma[i]! - mean) ** 2;
+    }
+    return sum / (width * height);
+  }
+
+  /**
+   * Variance of the 4-neighbour Laplacian; sharp edges give large responses
+   */
+  private laplacianVariance(width: number, height: number): number {
+    if (width < 3 || height < 3) {
+      return 0;
+    }
+
+    let sum = 0;
+    let sumSquares = 0;
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const laplacian =
+          this.luma[i - 1]! +
+          this.luma[i + 1]! +
+          this.luma[i - width]! +
+          this.luma[i + width]! -
+          4 * this.luma[i]!;
+        sum += laplacian;
+        sumSquares += laplacian * laplacian;
+      }
+    }
+
+    const count = (width - 2) * (height - 2);
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+  }
+
+  /**
+   * Centre brightness relative to a bright border (1 when the border is dim)
+   * A subject in front of a window is a dark centre inside a bright surround
+   */
+  private backlightRatio(width: number, height: number): number {
+    const left = Math.floor(width / 4);
+    const top = Math.floor(height / 4);
+    const right = width - left;
+    const bottom = height - top;
+
+    const total = this.mean(0, 0, width, height, width) * width * height;
+    const centerArea = (right - left) * (bottom - top);
+    const center = this.mean(left, top, right, bottom, width);
+    const border =
+      (total - center * centerArea) / Math.max(width * height - centerArea, 1);
+
+    if (border < this.config.minBacklitBorder) {
+      return 1;
+    }
+    return center / border;
+  }
+
+  /**
+   * Latest per-frame report
+   */
+  getLastReport(): FrameQualityReport | null {
+    return this.lastReport ? { ...this.lastReport } : null;
+  }
+
+  /**
+   * Quality currently reported to listeners
+   */
+  getQuality(): FrameQuality {
+    return this.reported;
+  }
+
+  /**
+   * Add condition callback
+   */
+  addConditionCallback(
+    callback: (condition: FrameQualityCondition) => void
+  ): void {
+    this.conditionCallbacks.add(callback);
+  }
+
+  /**
+   * Remove condition callback
+   */
+  removeConditionCallback(
+    callback: (condition: FrameQualityCondition) => void
+  ): void {
+    this.conditionCallbacks.delete(callback);
+  }
+
+  /**
+   * Add error callback
+   */
+  addErrorCallback(callback: (error: AppError) => void): void {
+    this.errorCallbacks.add(callback);
+  }
+
+  /**
+   * Remove error callback
+   */
+  removeErrorCallback(callback: (error: AppError) => void): void {
+    this.errorCallbacks.delete(callback);
+  }
+
+  /**
+   * Notify condition callbacks
+   */
+  private notifyCondition(condition: FrameQualityCondition): void {
+    this.conditionCallbacks.forEach(callback => {
+      try {
+        callback(condition);
+      } catch (error) {
+        console.error('Error in frame quality callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Notify error callbacks
+   */
+  private notifyError(error: AppError): void {
+    this.errorCallbacks.forEach(callback => {
+      try {
+        callback(error);
+      } catch (callbackError) {
+        console.error('Error in error callback:', callbackError);
+      }
+    });
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<FrameQualityConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): FrameQualityConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Forget the reported condition (new session)
+   */
+  reset(): void {
+    this.candidate = 'good';
+    this.candidateSince = null;
+    this.reported = 'good';
+    this.lastReport = null;
+  }
+}
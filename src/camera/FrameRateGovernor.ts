@@ -0,0 +1,164 @@
+/**
+ * FrameRateGovernor - Picks the camera capture rate
+ * Slow when idle or holding still, fast while the user gets into position
+ *
+ * The camera's fps range bounds the rate while a session runs. idleFps sits
+ * below it on purpose: with nothing being coached, frames only need to show
+ * that someone is there, and fewer of them save battery.
+ */
+
+import { Features, FSMState, SessionState } from '../types';
+import { CameraService } from './CameraService';
+
+export interface FrameRateGovernorConfig {
+  idleFps: number; // Used when no session is running; may be below fps.min
+  inferenceHeadroom: number; // Share of each frame interval inference may use
+  minChangeIntervalMs: number; // Hold a new rate at least this long
+}
+
+export class FrameRateGovernor {
+  private camera: CameraService;
+  private config: FrameRateGovernorConfig;
+  private sessionState: SessionState = 'idle';
+  private fsmState: FSMState = 'WAITING';
+  private isStable = false;
+  private isMoving = false;
+  private inferenceTime = 0;
+  private currentFps: number | null = null;
+  private lastChangeTime: number | null = null;
+
+  constructor(
+    camera: CameraService,
+    config?: Partial<FrameRateGovernorConfig>
+  ) {
+    this.camera = camera;
+    this.config = {
+      idleFps: 2,
+      inferenceHeadroom: 0.8,
+      minChangeIntervalMs: 1000,
+      ...config,
+    };
+  }
+
+  /**
+   * Session started, paused, resumed or finished
+   */
+  setSessionState(state: SessionState): void {
+    this.sessionState = state;
+    this.evaluate(true);
+  }
+
+  /**
+   * FSM moved to a new state
+   */
+  setFSMState(state: FSMState): void {
+    this.fsmState = state;
+    this.evaluate(true);
+  }
+
+  /**
+   * Latest features; motion speeds capture up straight away
+   */
+  updateFeatures(features: Features): void {
+    const wasMoving = this.isMoving;
+    this.isStable = features.stability.isStable;
+    this.isMoving = features.stability.motionGate;
+    this.evaluate(this.isMoving && !wasMoving);
+  }
+
+  /**
+   * Measured pose inference time in milliseconds
+   */
+  updateInferenceTime(inferenceTime: number): void {
+    this.inferenceTime = inferenceTime;
+    this.evaluate(false);
+  }
+
+  /**
+   * Pick a rate and apply it to the camera
+   * Urgent changes (state changes, motion onset) skip the minimum interval
+   */
+  private evaluate(isUrgent: boolean): void {
+    const fps = this.selectFps();
+    if (fps === this.currentFps) {
+      return;
+    }
+
+    const now = Date.now();
+    if (
+      !isUrgent &&
+      this.lastChangeTime !== null &&
+      now - this.lastChangeTime < this.config.minChangeIntervalMs
+    ) {
+      return;
+    }
+
+    this.currentFps = fps;
+    this.lastChangeTime = now;
+    this.camera.setFrameRate(fps);
+  }
+
+  /**
+   * Desired rate for the current session, FSM and motion state
+   */
+  private selectFps(): number {
+    const { min, max, target } = this.camera.getConfig().fps;
+
+    if (this.sessionState !== 'active' && this.sessionState !== 'preparing') {
+      return this.config.idleFps;
+    }
+
+    let fps: number;
+    if (
+      this.isMoving ||
+      this.fsmState === 'WAITING' ||
+      this.fsmState === 'READY'
+    ) {
+      fps = max;
+    } else if (
+      this.isStable &&
+      (this.fsmState === 'HOLDING' || this.fsmState === 'COOLDOWN')
+    ) {
+      fps = min;
+    } else {
+      fps = target;
+    }
+
+    // Never ask for frames faster than inference can keep up with
+    if (this.inferenceTime > 0) {
+      const sustainable =
+        (1000 * this.config.inferenceHeadroom) / this.inferenceTime;
+      fps = Math.min(fps, Math.max(Math.floor(sustainable), 1));
+    }
+
+    return fps;
+  }
+
+  /**
+   * Rate last applied to the camera
+   */
+  getCurrentFps(): number | null {
+    return this.currentFps;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<FrameRateGovernorConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.evaluate(true);
+  }
+
+  /**
+   * Forget state (new session)
+   */
+  reset(): void {
+    this.sessionState = 'idle';
+    this.fsmState = 'WAITING';
+    this.isStable = false;
+    this.isMoving = false;
+    this.inferenceTime = 0;
+    this.lastChangeTime = null;
+    this.evaluate(true);
+  }
+}
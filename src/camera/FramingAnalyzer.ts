@@ -0,0 +1,352 @@
+/**
+ * FramingAnalyzer - Checks how well the camera frames the subject
+ * Turns a pose into concrete guidance: step back, move over, level the phone
+ */
+
+import {
+  BoundingBox,
+  FrameEdge,
+  FramingGuidance,
+  FramingIssue,
+  FramingIssueType,
+  Keypoint,
+  KeypointName,
+  Pose,
+  StretchConfig,
+} from '../types';
+import { POSE_CONFIG } from '../config/constants';
+import { getPoseBoundingBox } from '../pose/PoseGeometry';
+
+export interface FramingAnalyzerConfig {
+  minKeypointConfidence: number;
+  edgeMargin: number; // Keypoints this close to an edge (fraction) count as cut off
+  minFill: number; // Subject must span at least this share of the frame
+  maxFill: number; // ...and at most this share
+  maxCenterOffset: number; // Allowed horizontal offset (0 = centred, 1 = edge)
+  maxTiltDeg: number; // Allowed camera roll
+  mirrored: boolean; // Preview is mirrored relative to the analyzed frames
+}
+
+/**
+ * Frame the pose was detected in
+ */
+export interface FramingContext {
+  frameWidth: number;
+  frameHeight: number;
+  tiltDeg?: number; // Camera roll from level (device sensor or calibration)
+}
+
+// Where a missing keypoint would be: continue the segment [from -> through]
+const EXTRAPOLATION: Partial<
+  Record<KeypointName, [KeypointName, KeypointName]>
+> = {
+  nose: ['left_hip', 'left_shoulder'],
+  left_eye: ['left_hip', 'left_shoulder'],
+  right_eye: ['right_hip', 'right_shoulder'],
+  left_ear: ['left_hip', 'left_shoulder'],
+  right_ear: ['right_hip', 'right_shoulder'],
+  left_shoulder: ['left_knee', 'left_hip'],
+  right_shoulder: ['right_knee', 'right_hip'],
+  left_wrist: ['left_shoulder', 'left_elbow'],
+  right_wrist: ['right_shoulder', 'right_elbow'],
+  left_hip: ['left_ankle', 'left_knee'],
+  right_hip: ['right_ankle', 'right_knee'],
+  left_knee: ['left_shoulder', 'left_hip'],
+  right_knee: ['right_shoulder', 'right_hip'],
+  left_ankle: ['left_hip', 'left_knee'],
+  right_ankle: ['right_hip', 'right_knee'],
+  left_heel: ['left_knee', 'left_ankle'],
+  right_heel: ['right_knee', 'right_ankle'],
+  left_toe: ['left_knee', 'left_ankle'],
+  right_toe: ['right_knee', 'right_ankle'],
+};
+
+const ISSUE_ORDER: FramingIssueType[] = [
+  'no_subject',
+  'cut_off',
+  'too_close',
+  'too_far',
+  'off_center',
+  'camera_tilted',
+];
+
+const OPPOSITE_EDGES: Record<FrameEdge, FrameEdge> = {
+  left: 'right',
+  right: 'left',
+  top: 'bottom',
+  bottom: 'top',
+};
+
+export class FramingAnalyzer {
+  private config: FramingAnalyzerConfig;
+
+  constructor(config?: Partial<FramingAnalyzerConfig>) {
+    this.config = {
+      minKeypointConfidence: POSE_CONFIG.CONFIDENCE_THRESHOLD,
+      edgeMargin: 0.02,
+      minFill: 0.45,
+      maxFill: 0.95,
+      maxCenterOffset: 0.35,
+      maxTiltDeg: 5,
+      mirrored: true,
+      ...config,
+    };
+  }
+
+  /**
+   * Analyze the framing of one pose for a stretch
+   */
+  analyze(
+    pose: Pose,
+    stretch: StretchConfig,
+    context: FramingContext
+  ): FramingGuidance {
+    const { frameWidth, frameHeight } = context;
+    const subjectBox = getPoseBoundingBox(
+      pose.keypoints,
+      this.config.minKeypointConfidence
+    );
+
+    if (!subjectBox) {
+      return {
+        isWellFramed: false,
+        issues: [{ type: 'no_subject', severity: 'medium', value: 0 }],
+        subjectBox: null,
+        fill: 0,
+        timestamp: pose.timestamp,
+      };
+    }
+
+    const fill = Math.max(
+      subjectBox.width / frameWidth,
+      subjectBox.height / frameHeight
+    );
+    const cutOff = this.findCutOffIssues(pose, stretch, subjectBox, context);
+    const issues = [
+      ...cutOff,
+      ...this.checkDistance(fill, cutOff),
+      ...this.checkCentering(subjectBox, frameWidth),
+      ...this.checkTilt(context.tiltDeg),
+    ].sort((a, b) => ISSUE_ORDER.indexOf(a.type) - ISSUE_ORDER.indexOf(b.type));
+
+    return {
+      isWellFramed: issues.length === 0,
+      issues,
+      subjectBox,
+      fill,
+      timestamp: pose.timestamp,
+    };
+  }
+
+  /**
+   * Required keypoints at or beyond a frame edge, one issue per edge
+   * A missing keypoint that would be inside the frame is occluded, not cut off
+   */
+  private findCutOffIssues(
+    pose: Pose,
+    stretch: StretchConfig,
+    subjectBox: BoundingBox,
+    context: FramingContext
+  ): FramingIssue[] {
+    const byEdge = new Map<FrameEdge, KeypointName[]>();
+    let hasMissing = false;
+
+    for (const name of stretch.requiredKeypoints) {
+      const keypoint = pose.keypoints[name];
+      const isMissing = keypoint.confidence < this.config.minKeypointConfidence;
+      const position = isMissing ? this.extrapolate(pose, name) : keypoint;
+
+      const edge = position
+        ? this.findEdge(position, context)
+        : this.findTouchedEdge(subjectBox, context);
+      if (!edge) {
+        continue;
+      }
+
+      hasMissing = hasMissing || isMissing;
+      byEdge.set(edge, [...(byEdge.get(edge) ?? []), name]);
+    }
+
+    return [...byEdge.entries()]
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([edge, keypoints]) => {
+        const issue: FramingIssue = {
+          type: 'cut_off',
+          severity: hasMissing ? 'high' : 'medium',
+          value: keypoints.length,
+          edge,
+          keypoints,
+        };
+        if (edge === 'left' || edge === 'right') {
+          issue.direction = this.directionAwayFrom(edge);
+        }
+        return issue;
+      });
+  }
+
+  /**
+   * Guess a missing keypoint's position by continuing its parent segment
+   */
+  private extrapolate(
+    pose: Pose,
+    name: KeypointName
+  ): Pick<Keypoint, 'x' | 'y'> | null {
+    const chain = EXTRAPOLATION[name];
+    if (!chain) {
+      return null;
+    }
+
+    const from = pose.keypoints[chain[0]];
+    const through = pose.keypoints[chain[1]];
+    const { minKeypointConfidence } = this.config;
+    if (
+      from.confidence < minKeypointConfidence ||
+      through.confidence < minKeypointConfidence
+    ) {
+      return null;
+    }
+
+    return {
+      x: through.x + (through.x - from.x),
+      y: through.y + (through.y - from.y),
+    };
+  }
+
+  /**
+   * Edge a point lies beyond (or within the margin of), if any
+   */
+  private findEdge(
+    point: Pick<Keypoint, 'x' | 'y'>,
+    { frameWidth, frameHeight }: FramingContext
+  ): FrameEdge | null {
+    const marginX = frameWidth * this.config.edgeMargin;
+    const marginY = frameHeight * this.config.edgeMargin;
+
+    // How far past each edge's margin the point is
+    const overshoot: [FrameEdge, number][] = [
+      ['left', marginX - point.x],
+      ['right', point.x - (frameWidth - marginX)],
+      ['top', marginY - point.y],
+      ['bottom', point.y - (frameHeight - marginY)],
+    ];
+    const [edge, distance] = overshoot.reduce((a, b) => (b[1] > a[1] ? b : a));
+
+    return distance >= 0 ? edge : null;
+  }
+
+  /**
+   * Edge the visible subject runs into, when a missing keypoint can't be placed
+   */
+  private findTouchedEdge(
+    subjectBox: BoundingBox,
+    context: FramingContext
+  ): FrameEdge | null {
+    const corners = [
+      { x: subjectBox.x, y: subjectBox.y },
+      {
+        x: subjectBox.x + subjectBox.width,
+        y: subjectBox.y + subjectBox.height,
+      },
+    ];
+
+    for (const corner of corners) {
+      const edge = this.findEdge(corner, context);
+      if (edge) {
+        return edge;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Too close when the subject overflows the frame, too far when it's small
+   */
+  private checkDistance(fill: number, cutOff: FramingIssue[]): FramingIssue[] {
+    const edges = new Set(cutOff.map(issue => issue.edge));
+    const overflows = [...edges].some(
+      edge => edge !== undefined && edges.has(OPPOSITE_EDGES[edge])
+    );
+
+    if (overflows || fill > this.config.maxFill) {
+      return [{ type: 'too_close', severity: 'medium', value: fill }];
+    }
+    if (fill < this.config.minFill && cutOff.length === 0) {
+      return [
+        {
+          type: 'too_far',
+          severity: fill < this.config.minFill / 2 ? 'medium' : 'low',
+          value: fill,
+        },
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Horizontal offset of the subject from the frame centre
+   */
+  private checkCentering(
+    subjectBox: BoundingBox,
+    frameWidth: number
+  ): FramingIssue[] {
+    const centerX = subjectBox.x + subjectBox.width / 2;
+    const offset = (centerX - frameWidth / 2) / (frameWidth / 2);
+    if (Math.abs(offset) <= this.config.maxCenterOffset) {
+      return [];
+    }
+
+    const edge: FrameEdge = offset < 0 ? 'left' : 'right';
+    return [
+      {
+        type: 'off_center',
+        severity: 'low',
+        value: offset,
+        edge,
+        direction: this.directionAwayFrom(edge),
+      },
+    ];
+  }
+
+  /**
+   * Camera roll beyond the allowed tilt
+   */
+  private checkTilt(tiltDeg: number | undefined): FramingIssue[] {
+    if (tiltDeg === undefined || Math.abs(tiltDeg) <= this.config.maxTiltDeg) {
+      return [];
+    }
+
+    return [
+      {
+        type: 'camera_tilted',
+        severity:
+          Math.abs(tiltDeg) > this.config.maxTiltDeg * 3 ? 'medium' : 'low',
+        value: tiltDeg,
+      },
+    ];
+  }
+
+  /**
+   * Way the user should move (as seen in the preview) to leave an image edge
+   */
+  private directionAwayFrom(edge: 'left' | 'right'): 'left' | 'right' {
+    const imageDirection = edge === 'left' ? 'right' : 'left';
+    if (this.config.mirrored) {
+      return imageDirection === 'left' ? 'right' : 'left';
+    }
+    return imageDirection;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<FramingAnalyzerConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): FramingAnalyzerConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * AutoROI tests
+ * A 640x480 camera and a stub pose service with a square model input
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import { PoseService } from '../../pose/PoseService';
+import { BoundingBox, Pose } from '../../types';
+import { AutoROI } from '../AutoROI';
+import { CameraService } from '../CameraService';
+
+vi.mock('expo-asset', () => ({ Asset: {} }));
+vi.mock('expo-camera', () => ({ Camera: {} }));
+vi.mock('expo-file-system', () => ({ deleteAsync: async () => undefined }));
+
+/**
+ * Pose whose confident keypoints span a box; the first `confident` keypoints
+ * are seen, the rest are missing
+ */
+function createPose(box: BoundingBox, confident = KEYPOINT_NAMES.length): Pose {
+  const keypoints = {} as Pose['keypoints'];
+  KEYPOINT_NAMES.forEach((name, index) => {
+    const corner =
+      index === 0
+        ? { x: box.x, y: box.y }
+        : index === 1
+          ? { x: box.x + box.width, y: box.y + box.height }
+          : { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    keypoints[name] = { ...corner, confidence: index < confident ? 0.9 : 0 };
+  });
+  return { keypoints, timestamp: 0, frameId: 'frame_0', visibilityScore: 1 };
+}
+
+function createAutoROI() {
+  const camera = new CameraService();
+  const poseService = {
+    getBackendCapabilities: () => ({
+      inputResolution: { width: 256, height: 256 },
+    }),
+  } as unknown as PoseService;
+  return { camera, autoROI: new AutoROI(camera, poseService) };
+}
+
+describe('AutoROI', () => {
+  it('pads the box and widens it to the model input shape', () => {
+    const { camera, autoROI } = createAutoROI();
+
+    // 100x200 person, padded to 140x280 and widened to a square
+    const roi = autoROI.update(
+      createPose({ x: 250, y: 100, width: 100, height: 200 })
+    );
+
+    expect(roi).toEqual({ x: 160, y: 60, width: 280, height: 280 });
+    expect(camera.getConfig()).toMatchObject({
+      enableCropping: true,
+      roi: { x: 160, y: 60, width: 280, height: 280 },
+    });
+  });
+
+  it('keeps the crop inside the frame', () => {
+    const { autoROI } = createAutoROI();
+
+    const roi = autoROI.update(
+      createPose({ x: 0, y: 0, width: 200, height: 200 })
+    );
+
+    expect(roi).toMatchObject({ x: 0, y: 0 });
+  });
+
+  it('crops no smaller than minSize of the frame', () => {
+    const { autoROI } = createAutoROI();
+
+    const roi = autoROI.update(
+      createPose({ x: 300, y: 200, width: 20, height: 20 })
+    );
+
+    expect(roi?.width).toBeCloseTo(192);
+    expect(roi?.height).toBeCloseTo(192);
+  });
+
+  it('eases towards a person who moved', () => {
+    const { autoROI } = createAutoROI();
+    autoROI.update(createPose({ x: 250, y: 100, width: 100, height: 200 }));
+
+    const roi = autoROI.update(
+      createPose({ x: 350, y: 100, width: 100, height: 200 })
+    );
+
+    // 60% of the way from the old crop, 40% of the way to the new one
+    expect(roi?.x).toBeCloseTo(0.6 * 160 + 0.4 * 260);
+  });
+
+  it('falls back to the full frame when the person is lost', () => {
+    const { camera, autoROI } = createAutoROI();
+    autoROI.update(createPose({ x: 250, y: 100, width: 100, height: 200 }));
+
+    expect(
+      autoROI.update(createPose({ x: 250, y: 100, width: 100, height: 200 }, 4))
+    ).toBeNull();
+    expect(camera.getConfig().enableCropping).toBe(false);
+    expect(autoROI.getROI()).toBeNull();
+
+    // Found again: straight to the new box, not eased from the old one
+    expect(
+      autoROI.update(createPose({ x: 350, y: 100, width: 100, height: 200 }))?.x
+    ).toBeCloseTo(260);
+  });
+
+  it('uses the full frame when the crop would cover it', () => {
+    const { camera, autoROI } = createAutoROI();
+
+    expect(
+      autoROI.update(createPose({ x: 20, y: 20, width: 600, height: 440 }))
+    ).toBeNull();
+    expect(camera.getConfig().enableCropping).toBe(false);
+  });
+});
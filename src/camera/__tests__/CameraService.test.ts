@@ -0,0 +1,129 @@
+/**
+ * CameraService tests
+ * A fake camera returns the fixture picture; expo modules are mocked
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteAsync } from 'expo-file-system';
+import { CameraView } from 'expo-camera';
+import { AppError } from '../../types';
+import { CameraFrame, CameraService } from '../CameraService';
+
+vi.mock('expo-camera', () => ({
+  Camera: {
+    requestCameraPermissionsAsync: async () => ({ status: 'granted' }),
+  },
+}));
+vi.mock('expo-file-system', () => ({
+  deleteAsync: vi.fn(async () => undefined),
+}));
+
+const BASE64 = readFileSync(
+  join(__dirname, 'fixtures', 'quadrants.jpg')
+).toString('base64');
+
+/**
+ * Just the parts of CameraView the service uses
+ */
+function createCameraView(base64: string | undefined): CameraView {
+  return {
+    takePictureAsync: vi.fn(async () => ({
+      uri: 'file:///cache/Camera/picture.jpg',
+      width: 64,
+      height: 48,
+      format: 'jpg',
+      base64,
+    })),
+    getAvailablePictureSizesAsync: vi.fn(async () => [
+      '3264x2448',
+      '640x480',
+      '1280x720',
+      '320x240',
+    ]),
+  } as unknown as CameraView;
+}
+
+describe('CameraService', () => {
+  let camera: CameraService;
+  let frames: CameraFrame[];
+  let errors: AppError[];
+
+  const captureOne = async (view: CameraView) => {
+    camera.setCameraRef(view);
+    await camera.initialize();
+    await camera.startCapture();
+    await vi.advanceTimersByTimeAsync(100);
+    await camera.stopCapture();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(deleteAsync).mockClear();
+    camera = new CameraService({ resolution: { width: 32, height: 24 } });
+    frames = [];
+    errors = [];
+    camera.addFrameCallback(frame => frames.push(frame));
+    camera.addErrorCallback(error => errors.push(error));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('decodes pictures and deletes their temporary files', async () => {
+    await captureOne(createCameraView(BASE64));
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0]).toMatchObject({ width: 32, height: 24 });
+    expect(deleteAsync).toHaveBeenCalledWith(
+      'file:///cache/Camera/picture.jpg',
+      { idempotent: true }
+    );
+  });
+
+  it('deletes the temporary file of a picture that fails to decode', async () => {
+    await captureOne(createCameraView(undefined));
+
+    expect(frames).toHaveLength(0);
+    expect(errors.map(error => error.message)).toEqual([
+      'Frame capture failed: Camera returned no image data',
+    ]);
+    expect(deleteAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the capture rate it was set to when it fits the new fps range', async () => {
+    camera.setCameraRef(createCameraView(BASE64));
+    await camera.initialize();
+    await camera.startCapture();
+    camera.setFrameRate(2);
+
+    camera.updateConfig({ fps: { min: 1, max: 15, target: 10 } });
+    await vi.advanceTimersByTimeAsync(1000);
+    await camera.stopCapture();
+
+    expect(frames).toHaveLength(2);
+  });
+
+  it('clamps the capture rate into a new fps range and restarts capture', async () => {
+    camera.setCameraRef(createCameraView(BASE64));
+    await camera.initialize();
+    await camera.startCapture();
+    camera.setFrameRate(2);
+
+    camera.updateConfig({ fps: { min: 5, max: 15, target: 10 } });
+    expect(camera.getState().currentFPS).toBe(5);
+    await vi.advanceTimersByTimeAsync(1000);
+    await camera.stopCapture();
+
+    expect(frames).toHaveLength(5);
+  });
+
+  it('picks the smallest picture size covering the capture resolution', async () => {
+    camera.updateConfig({ resolution: { width: 480, height: 640 } });
+    camera.setCameraRef(createCameraView(BASE64));
+
+    expect(await camera.loadPictureSize()).toBe('640x480');
+  });
+});
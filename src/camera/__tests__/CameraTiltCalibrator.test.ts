@@ -0,0 +1,194 @@
+/**
+ * CameraTiltCalibrator tests
+ * Synthetic planks under a rolled camera, with and without foot keypoints,
+ * and drawn floor contacts
+ */
+
+import { describe, expect, it } from 'vitest';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import { plankConfig } from '../../fsm/config/plank';
+import {
+  SyntheticPoseConfig,
+  SyntheticPoseGenerator,
+} from '../../trace/SyntheticPoseGenerator';
+import { KeypointName, Pose } from '../../types';
+import { CameraTiltCalibrator } from '../CameraTiltCalibrator';
+
+/**
+ * Pose with only the given keypoints seen
+ */
+function createPose(
+  points: Partial<Record<KeypointName, { x: number; y: number }>>,
+  timestamp = 0
+): Pose {
+  const keypoints = {} as Pose['keypoints'];
+  KEYPOINT_NAMES.forEach(name => {
+    const point = points[name];
+    keypoints[name] = point
+      ? { ...point, confidence: 0.9 }
+      : { x: 0, y: 0, confidence: 0 };
+  });
+  return { keypoints, timestamp, frameId: 'frame_0', visibilityScore: 1 };
+}
+
+// PoseNet and MoveNet: no heels or toes, so the feet end at the raised ankles
+const COCO_KEYPOINTS = KEYPOINT_NAMES.filter(
+  name => !name.endsWith('_heel') && !name.endsWith('_toe')
+);
+
+function calibrate(
+  cameraTiltDeg: number,
+  frames = 5,
+  options: Partial<SyntheticPoseConfig> = {}
+) {
+  const calibrator = new CameraTiltCalibrator();
+  const tilts = new SyntheticPoseGenerator({
+    stretchType: 'plank',
+    cameraTiltDeg,
+    noisePx: 1,
+    seed: 5,
+    ...options,
+  })
+    .generate(frames * 100)
+    .slice(0, frames)
+    .map(pose => calibrator.addReferencePose(pose, plankConfig.floorContacts));
+  return { calibrator, tilts };
+}
+
+describe('CameraTiltCalibrator', () => {
+  describe('floor line', () => {
+    it.each([0, 8, -10])(
+      'measures a camera rolled %s° from the floor under a plank',
+      cameraTiltDeg => {
+        const { calibrator, tilts } = calibrate(cameraTiltDeg);
+
+        tilts.forEach(tilt => expect(tilt).toBeCloseTo(cameraTiltDeg, 0));
+        expect(calibrator.getCalibration()).toMatchObject({
+          tiltDeg: expect.closeTo(cameraTiltDeg, 0),
+          source: 'floor_line',
+          samples: 5,
+        });
+      }
+    );
+
+    it('has no estimate until minSamples reference poses', () => {
+      const { calibrator } = calibrate(8, 4);
+
+      expect(calibrator.getCalibration()).toBeNull();
+    });
+
+    it('keeps raised points above the floor line', () => {
+      const calibrator = new CameraTiltCalibrator();
+
+      // Heel lifted behind the toes; the line between the toes is the floor
+      const tilt = calibrator.addReferencePose(
+        createPose({
+          left_toe: { x: 100, y: 400 },
+          right_toe: { x: 400, y: 400 },
+          right_heel: { x: 420, y: 380 },
+        })
+      );
+
+      expect(tilt).toBe(0);
+    });
+
+    it('finds no floor in a short or steep line', () => {
+      const calibrator = new CameraTiltCalibrator();
+
+      expect(
+        calibrator.addReferencePose(
+          createPose({
+            left_heel: { x: 300, y: 400 },
+            right_heel: { x: 340, y: 400 },
+          })
+        )
+      ).toBeNull();
+      expect(
+        calibrator.addReferencePose(
+          createPose({
+            left_heel: { x: 100, y: 200 },
+            right_heel: { x: 300, y: 400 },
+          })
+        )
+      ).toBeNull();
+    });
+
+    it('takes the median so an odd pose does not skew it', () => {
+      const { calibrator } = calibrate(8, 4);
+
+      calibrator.addReferencePose(
+        createPose({
+          left_heel: { x: 100, y: 300 },
+          right_heel: { x: 400, y: 400 },
+        })
+      );
+
+      expect(calibrator.getCalibration()?.tiltDeg).toBeCloseTo(8, 0);
+    });
+  });
+
+  describe('without foot keypoints', () => {
+    it.each([0, 8])(
+      'measures a camera rolled %s° from the forearms of a plank',
+      cameraTiltDeg => {
+        const { calibrator } = calibrate(cameraTiltDeg, 30, {
+          view: 'three_quarter',
+          keypoints: COCO_KEYPOINTS,
+        });
+
+        expect(calibrator.getCalibration()?.tiltDeg).toBeCloseTo(
+          cameraTiltDeg,
+          0
+        );
+      }
+    );
+
+    it('does not take the raised ankles for the floor', () => {
+      // Side on, the forearms are too short a line by themselves
+      const { calibrator, tilts } = calibrate(0, 10, {
+        keypoints: COCO_KEYPOINTS,
+      });
+
+      expect(tilts.every(tilt => tilt === null)).toBe(true);
+      expect(calibrator.getCalibration()).toBeNull();
+    });
+
+    it('does not take the hands of a standing stretch for the floor', () => {
+      const calibrator = new CameraTiltCalibrator();
+
+      const tilts = new SyntheticPoseGenerator({
+        stretchType: 'quad',
+        view: 'front',
+        keypoints: COCO_KEYPOINTS,
+      })
+        .generate(500)
+        .map(pose => calibrator.addReferencePose(pose));
+
+      expect(tilts.every(tilt => tilt === null)).toBe(true);
+    });
+  });
+
+  describe('device reading', () => {
+    it('prefers a device reading over the floor line', () => {
+      const { calibrator } = calibrate(8);
+
+      calibrator.setDeviceTilt(-3, 1000);
+
+      expect(calibrator.getCalibration()).toEqual({
+        tiltDeg: -3,
+        source: 'device',
+        samples: 0,
+        timestamp: 1000,
+      });
+    });
+
+    it('forgets samples and readings on reset', () => {
+      const { calibrator } = calibrate(8);
+      calibrator.setDeviceTilt(-3);
+
+      calibrator.reset();
+
+      expect(calibrator.getCalibration()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * FrameDecoder tests
+ * quadrants.jpg is 64x48: red, green / blue, white quadrants
+ * gradient-progressive.jpg is 37x23, red rising 7 a pixel to the right
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { DecodedFrame, FrameDecoder } from '../FrameDecoder';
+
+const FIXTURE = readFileSync(join(__dirname, 'fixtures', 'quadrants.jpg'));
+const JPEG = new Uint8Array(FIXTURE);
+
+const RED = [255, 0, 0];
+const GREEN = [0, 255, 0];
+const BLUE = [0, 0, 255];
+const WHITE = [255, 255, 255];
+
+/**
+ * RGB of one output pixel
+ */
+function pixelAt(frame: DecodedFrame, x: number, y: number): number[] {
+  const offset = (y * frame.width + x) * 4;
+  return Array.from(frame.data.subarray(offset, offset + 3));
+}
+
+/**
+ * JPEG is lossy; colours only have to be close
+ */
+function expectColor(actual: number[], expected: number[]): void {
+  actual.forEach((value, channel) => {
+    expect(Math.abs(value - expected[channel]!)).toBeLessThanOrEqual(12);
+  });
+}
+
+describe('FrameDecoder', () => {
+  it('decodes a JPEG into frame space', () => {
+    const frame = new FrameDecoder().decodeJpeg(JPEG, 32, 24);
+
+    expect(frame.width).toBe(32);
+    expect(frame.height).toBe(24);
+    expect(frame.data).toHaveLength(32 * 24 * 4);
+    expect(frame.region).toEqual({ x: 0, y: 0, width: 32, height: 24 });
+    expectColor(pixelAt(frame, 8, 6), RED);
+    expectColor(pixelAt(frame, 24, 6), GREEN);
+    expectColor(pixelAt(frame, 8, 18), BLUE);
+    expectColor(pixelAt(frame, 24, 18), WHITE);
+    expect(frame.data.filter((_, i) => i % 4 === 3)).toEqual(
+      new Uint8Array(32 * 24).fill(255)
+    );
+  });
+
+  it('decodes progressive pictures too', () => {
+    const progressive = readFileSync(
+      join(__dirname, 'fixtures', 'gradient-progressive.jpg')
+    );
+    const frame = new FrameDecoder().decodeJpeg(
+      new Uint8Array(progressive),
+      37,
+      23
+    );
+
+    expectColor(pixelAt(frame, 0, 0), [0, 0, 0]);
+    expectColor(pixelAt(frame, 36, 0), [252, 0, 0]);
+  });
+
+  it('decodes base64 with or without a data URI prefix', () => {
+    const base64 = FIXTURE.toString('base64');
+    const expected = Array.from(
+      new FrameDecoder().decodeJpeg(JPEG, 32, 24).data
+    );
+
+    expect(
+      Array.from(new FrameDecoder().decodeJpeg(base64, 32, 24).data)
+    ).toEqual(expected);
+    expect(
+      Array.from(
+        new FrameDecoder().decodeJpeg(
+          `data:image/jpeg;base64,${base64}`,
+          32,
+          24
+        ).data
+      )
+    ).toEqual(expected);
+  });
+
+  it('cuts the ROI out of frame space', () => {
+    const frame = new FrameDecoder().decodeJpeg(JPEG, 640, 480, {
+      x: 400,
+      y: 20,
+      width: 200,
+      height: 150,
+    });
+
+    expect(frame.width).toBe(200);
+    expect(frame.height).toBe(150);
+    expect(frame.region).toEqual({ x: 400, y: 20, width: 200, height: 150 });
+    expectColor(pixelAt(frame, 0, 0), GREEN);
+    expectColor(pixelAt(frame, 199, 149), GREEN);
+  });
+
+  it('keeps an ROI hanging over the edge inside the frame', () => {
+    const frame = new FrameDecoder().decodeJpeg(JPEG, 640, 480, {
+      x: 500,
+      y: 400,
+      width: 300,
+      height: 200,
+    });
+
+    expect(frame.region).toEqual({ x: 500, y: 400, width: 140, height: 80 });
+    expectColor(pixelAt(frame, 70, 40), WHITE);
+  });
+
+  it('reuses its pixel buffer between frames', () => {
+    const decoder = new FrameDecoder();
+
+    const full = decoder.decodeJpeg(JPEG, 64, 48);
+    const cropped = decoder.decodeJpeg(JPEG, 64, 48, {
+      x: 0,
+      y: 24,
+      width: 32,
+      height: 24,
+    });
+
+    expect(cropped.data.buffer).toBe(full.data.buffer);
+    expectColor(pixelAt(cropped, 16, 12), BLUE);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * FramePipeline tests
+ * Frames go to a stub pose service that records what it was given
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { describe, expect, it, vi } from 'vitest';
+import { PoseService } from '../../pose/PoseService';
+import { AppError } from '../../types';
+import { CameraFrame, CameraService } from '../CameraService';
+import { FramePipeline } from '../FramePipeline';
+
+vi.mock('expo-asset', () => ({ Asset: {} }));
+vi.mock('expo-camera', () => ({ Camera: {} }));
+vi.mock('expo-file-system', () => ({ deleteAsync: async () => undefined }));
+
+function createFrame(value: number): CameraFrame {
+  return {
+    width: 4,
+    height: 2,
+    pixels: new Uint8Array(4 * 2 * 4).fill(value),
+    timestamp: 1000,
+    frameId: `frame_${value}`,
+  };
+}
+
+/**
+ * Pipeline started on a camera whose frame callback the test calls itself
+ */
+function createPipeline(estimatePose: PoseService['estimatePose']) {
+  const camera = new CameraService();
+  const addFrameCallback = vi.spyOn(camera, 'addFrameCallback');
+  const pipeline = new FramePipeline(camera, {
+    estimatePose,
+  } as unknown as PoseService);
+  pipeline.start();
+
+  const sendFrame = addFrameCallback.mock.calls[0]![0];
+  return { pipeline, sendFrame };
+}
+
+describe('FramePipeline', () => {
+  it('copies the pixels, so the camera may reuse its buffer mid-inference', async () => {
+    const seen: number[][] = [];
+    const { pipeline } = createPipeline(async image => {
+      await Promise.resolve();
+      seen.push(Array.from((image as tf.Tensor3D).dataSync()));
+      return { success: true, timestamp: 0 };
+    });
+    const frame = createFrame(7);
+
+    const done = pipeline.process(frame);
+    frame.pixels.fill(9);
+    await done;
+    await pipeline.process(frame);
+
+    expect(seen[0]).toEqual(new Array(24).fill(7));
+    expect(seen[1]).toEqual(new Array(24).fill(9));
+  });
+
+  it('disposes every frame tensor', async () => {
+    const { pipeline } = createPipeline(async () => ({
+      success: true,
+      timestamp: 0,
+    }));
+    const before = tf.memory().numTensors;
+
+    await pipeline.process(createFrame(1));
+    await pipeline.process(createFrame(2));
+
+    expect(tf.memory().numTensors).toBe(before);
+  });
+
+  it('reports frames that failed to process', async () => {
+    const { pipeline, sendFrame } = createPipeline(async () => {
+      throw new Error('backend crashed');
+    });
+    const errors: AppError[] = [];
+    pipeline.addErrorCallback(error => errors.push(error));
+    const before = tf.memory().numTensors;
+
+    sendFrame(createFrame(1));
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+
+    expect(errors[0]).toMatchObject({
+      type: 'pose_estimation_failed',
+      message: 'Frame processing failed: backend crashed',
+      context: { frameId: 'frame_1' },
+    });
+    expect(tf.memory().numTensors).toBe(before);
+  });
+});
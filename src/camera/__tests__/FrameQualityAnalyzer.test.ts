@@ -0,0 +1,139 @@
+/**
+ * FrameQualityAnalyzer tests
+ * Drawn 160x120 grey frames: no downsampling, so the measures are exact
+ */
+
+import { describe, expect, it } from 'vitest';
+import { AppError, FrameQuality, FrameQualityCondition } from '../../types';
+import { RGBAImage } from '../FrameDecoder';
+import { FrameQualityAnalyzer } from '../FrameQualityAnalyzer';
+
+const WIDTH = 160;
+const HEIGHT = 120;
+
+/**
+ * Grey frame with the given luma at each pixel
+ */
+function draw(lumaAt: (x: number, y: number) => number): RGBAImage {
+  const data = new Uint8Array(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4;
+      data.fill(lumaAt(x, y), i, i + 3);
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+/**
+ * 8 px checkerboard: sharp edges everywhere
+ */
+const checkerboard = (dark: number, light: number) => (x: number, y: number) =>
+  (Math.floor(x / 8) + Math.floor(y / 8)) % 2 === 0 ? dark : light;
+
+const isCentre = (x: number, y: number) =>
+  x >= WIDTH / 4 &&
+  x < (3 * WIDTH) / 4 &&
+  y >= HEIGHT / 4 &&
+  y < (3 * HEIGHT) / 4;
+
+const FRAMES = {
+  good: draw(checkerboard(60, 200)),
+  dark: draw(checkerboard(10, 40)),
+  dimAndFlat: draw(() => 70),
+  // Subject in front of a bright window
+  backlit: draw((x, y) => (isCentre(x, y) ? checkerboard(20, 80)(x, y) : 230)),
+  // Smooth ramp with no edges
+  blurry: draw(x => 60 + (140 * x) / WIDTH),
+};
+
+function classify(image: RGBAImage): FrameQuality {
+  return new FrameQualityAnalyzer().analyze(image, 0).quality;
+}
+
+describe('FrameQualityAnalyzer', () => {
+  describe('classification', () => {
+    it('passes an evenly lit, sharp frame', () => {
+      expect(classify(FRAMES.good)).toBe('good');
+    });
+
+    it('calls a dark frame too dark', () => {
+      expect(classify(FRAMES.dark)).toBe('too_dark');
+    });
+
+    it('calls a dim frame with nothing in it too dark', () => {
+      expect(classify(FRAMES.dimAndFlat)).toBe('too_dark');
+    });
+
+    it('calls a dark subject in a bright surround backlit', () => {
+      const report = new FrameQualityAnalyzer().analyze(FRAMES.backlit, 0);
+
+      expect(report.quality).toBe('backlit');
+      expect(report.backlight).toBeCloseTo(50 / 230);
+    });
+
+    it('calls a frame without edges blurry', () => {
+      const report = new FrameQualityAnalyzer().analyze(FRAMES.blurry, 0);
+
+      expect(report.quality).toBe('blurry');
+      expect(report.brightness).toBeGreaterThan(100);
+    });
+
+    it('reports the lighting problem of a dark, blurry frame', () => {
+      expect(classify(draw(() => 20))).toBe('too_dark');
+    });
+  });
+
+  describe('conditions', () => {
+    it('reports a quality once it has lasted minConditionMs', () => {
+      const analyzer = new FrameQualityAnalyzer();
+      const conditions: FrameQualityCondition[] = [];
+      const errors: AppError[] = [];
+      analyzer.addConditionCallback(condition => conditions.push(condition));
+      analyzer.addErrorCallback(error => errors.push(error));
+
+      analyzer.analyze(FRAMES.dark, 1000);
+      analyzer.analyze(FRAMES.dark, 2400);
+      expect(conditions).toEqual([]);
+
+      analyzer.analyze(FRAMES.dark, 2500);
+      expect(conditions).toMatchObject([{ quality: 'too_dark', since: 1000 }]);
+      expect(errors).toMatchObject([
+        { type: 'poor_frame_quality', message: 'Camera frames are too dark' },
+      ]);
+      expect(analyzer.getQuality()).toBe('too_dark');
+    });
+
+    it('ignores a brief glitch', () => {
+      const analyzer = new FrameQualityAnalyzer();
+      const conditions: FrameQualityCondition[] = [];
+      analyzer.addConditionCallback(condition => conditions.push(condition));
+
+      analyzer.analyze(FRAMES.good, 0);
+      analyzer.analyze(FRAMES.blurry, 500);
+      analyzer.analyze(FRAMES.good, 1000);
+      analyzer.analyze(FRAMES.good, 3000);
+
+      expect(conditions).toEqual([]);
+    });
+
+    it('reports the problem clearing without an error', () => {
+      const analyzer = new FrameQualityAnalyzer();
+      const conditions: FrameQuality[] = [];
+      const errors: AppError[] = [];
+      analyzer.addConditionCallback(condition =>
+        conditions.push(condition.quality)
+      );
+      analyzer.addErrorCallback(error => errors.push(error));
+
+      analyzer.analyze(FRAMES.backlit, 0);
+      analyzer.analyze(FRAMES.backlit, 1500);
+      analyzer.analyze(FRAMES.good, 2000);
+      analyzer.analyze(FRAMES.good, 3500);
+
+      expect(conditions).toEqual(['backlit', 'good']);
+      expect(errors).toHaveLength(1);
+    });
+  });
+});
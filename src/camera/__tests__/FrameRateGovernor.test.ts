@@ -0,0 +1,138 @@
+/**
+ * FrameRateGovernor tests
+ * Default camera range of 8-12 FPS with a target of 10; Date is faked so the
+ * minimum change interval is exact
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FeatureEngine } from '../../features/FeatureEngine';
+import { SyntheticPoseGenerator } from '../../trace/SyntheticPoseGenerator';
+import { Features } from '../../types';
+import { CameraService } from '../CameraService';
+import { FrameRateGovernor } from '../FrameRateGovernor';
+
+vi.mock('expo-camera', () => ({ Camera: {} }));
+vi.mock('expo-file-system', () => ({ deleteAsync: async () => undefined }));
+
+const PLANK = new FeatureEngine().calculateFeatures(
+  new SyntheticPoseGenerator({ stretchType: 'plank' }).next()
+).data!;
+
+/**
+ * Plank features that are still, settling or moving
+ */
+function createFeatures(motion: 'still' | 'settling' | 'moving'): Features {
+  return {
+    ...PLANK,
+    stability: {
+      isStable: motion === 'still',
+      stabilityScore: motion === 'still' ? 1 : 0.5,
+      motionGate: motion === 'moving',
+    },
+  };
+}
+
+describe('FrameRateGovernor', () => {
+  let camera: CameraService;
+  let governor: FrameRateGovernor;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    camera = new CameraService();
+    governor = new FrameRateGovernor(camera);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Session running with the FSM in HOLDING for minChangeIntervalMs
+   */
+  const startHolding = (motion: 'still' | 'settling') => {
+    governor.setSessionState('active');
+    governor.setFSMState('HOLDING');
+    vi.advanceTimersByTime(1000);
+    governor.updateFeatures(createFeatures(motion));
+  };
+
+  it('captures below the fps range while no session runs', () => {
+    governor.setSessionState('idle');
+
+    expect(governor.getCurrentFps()).toBe(2);
+    expect(camera.getConfig().fps.min).toBe(8);
+
+    governor.setSessionState('active');
+    governor.setSessionState('paused');
+    expect(governor.getCurrentFps()).toBe(2);
+  });
+
+  it('captures at the top of the range while getting into position', () => {
+    governor.setSessionState('active');
+    expect(governor.getCurrentFps()).toBe(12);
+
+    governor.setFSMState('READY');
+    expect(governor.getCurrentFps()).toBe(12);
+  });
+
+  it('steps down to the bottom of the range once the hold is still', () => {
+    governor.setSessionState('active');
+    governor.setFSMState('HOLDING');
+    expect(governor.getCurrentFps()).toBe(10);
+
+    // Settling into the hold isn't urgent
+    vi.advanceTimersByTime(900);
+    governor.updateFeatures(createFeatures('still'));
+    expect(governor.getCurrentFps()).toBe(10);
+
+    vi.advanceTimersByTime(100);
+    governor.updateFeatures(createFeatures('still'));
+    expect(governor.getCurrentFps()).toBe(8);
+  });
+
+  it('stays at the target while the hold settles', () => {
+    startHolding('settling');
+
+    expect(governor.getCurrentFps()).toBe(10);
+  });
+
+  it('steps up as soon as the user moves', () => {
+    startHolding('still');
+
+    governor.updateFeatures(createFeatures('moving'));
+
+    expect(governor.getCurrentFps()).toBe(12);
+  });
+
+  it('steps down again only after minChangeIntervalMs', () => {
+    startHolding('still');
+    governor.updateFeatures(createFeatures('moving'));
+
+    vi.advanceTimersByTime(900);
+    governor.updateFeatures(createFeatures('still'));
+    expect(governor.getCurrentFps()).toBe(12);
+
+    vi.advanceTimersByTime(100);
+    governor.updateFeatures(createFeatures('still'));
+    expect(governor.getCurrentFps()).toBe(8);
+  });
+
+  it('never asks for frames faster than inference keeps up with', () => {
+    governor.setSessionState('active');
+    vi.advanceTimersByTime(1000);
+
+    governor.updateInferenceTime(160);
+
+    // 80% of each 200 ms frame
+    expect(governor.getCurrentFps()).toBe(5);
+  });
+
+  it('applies each new rate to the camera', () => {
+    const setFrameRate = vi.spyOn(camera, 'setFrameRate');
+
+    startHolding('still');
+    governor.setSessionState('idle');
+
+    expect(setFrameRate.mock.calls).toEqual([[12], [10], [8], [2]]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * FramingAnalyzer tests
+ * A person standing square to a 640x480 camera, drawn at any place and size;
+ * keypoints that fall outside the frame are missing
+ */
+
+import { describe, expect, it } from 'vitest';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import { quadConfig } from '../../fsm/config/quad';
+import { shoulderCrossConfig } from '../../fsm/config/shoulder_cross';
+import { KeypointName, Pose } from '../../types';
+import { FramingAnalyzer, FramingContext } from '../FramingAnalyzer';
+
+const FRAME: FramingContext = { frameWidth: 640, frameHeight: 480 };
+
+// Offsets from the top of the head, in standing heights; the person's left is
+// on the image right
+const STANDING: Record<KeypointName, [number, number]> = {
+  nose: [0, 0.03],
+  left_eye: [0.02, 0],
+  right_eye: [-0.02, 0],
+  left_ear: [0.04, 0.02],
+  right_ear: [-0.04, 0.02],
+  left_shoulder: [0.12, 0.18],
+  right_shoulder: [-0.12, 0.18],
+  left_elbow: [0.14, 0.38],
+  right_elbow: [-0.14, 0.38],
+  left_wrist: [0.14, 0.52],
+  right_wrist: [-0.14, 0.52],
+  left_hip: [0.07, 0.52],
+  right_hip: [-0.07, 0.52],
+  left_knee: [0.07, 0.75],
+  right_knee: [-0.07, 0.75],
+  left_ankle: [0.07, 0.96],
+  right_ankle: [-0.07, 0.96],
+  left_heel: [0.07, 0.98],
+  right_heel: [-0.07, 0.98],
+  left_toe: [0.09, 1],
+  right_toe: [-0.09, 1],
+};
+
+/**
+ * Person centred on x with the head at top, height pixels tall
+ */
+function createPose(x: number, top: number, height: number): Pose {
+  const keypoints = {} as Pose['keypoints'];
+  KEYPOINT_NAMES.forEach(name => {
+    const point = {
+      x: x + STANDING[name][0] * height,
+      y: top + STANDING[name][1] * height,
+    };
+    const isInFrame =
+      point.x >= 0 &&
+      point.x <= FRAME.frameWidth &&
+      point.y >= 0 &&
+      point.y <= FRAME.frameHeight;
+    keypoints[name] = { ...point, confidence: isInFrame ? 0.9 : 0 };
+  });
+  return { keypoints, timestamp: 0, frameId: 'frame_0', visibilityScore: 1 };
+}
+
+function analyze(pose: Pose, context: Partial<FramingContext> = {}) {
+  return new FramingAnalyzer().analyze(pose, quadConfig, {
+    ...FRAME,
+    ...context,
+  });
+}
+
+describe('FramingAnalyzer', () => {
+  it('passes a centred person filling most of the frame', () => {
+    const guidance = analyze(createPose(320, 40, 400));
+
+    expect(guidance.isWellFramed).toBe(true);
+    expect(guidance.issues).toEqual([]);
+    expect(guidance.fill).toBeCloseTo(400 / 480);
+  });
+
+  it('asks for the subject when nobody is seen', () => {
+    const pose = createPose(320, 40, 400);
+    KEYPOINT_NAMES.forEach(name => {
+      pose.keypoints[name].confidence = 0;
+    });
+
+    expect(analyze(pose)).toMatchObject({
+      isWellFramed: false,
+      issues: [{ type: 'no_subject' }],
+      subjectBox: null,
+      fill: 0,
+    });
+  });
+
+  describe('distance', () => {
+    it('calls a person filling the frame too close', () => {
+      expect(analyze(createPose(320, 5, 470)).issues).toEqual([
+        { type: 'too_close', severity: 'medium', value: expect.closeTo(0.98) },
+      ]);
+    });
+
+    it('calls a person cut off at both ends too close', () => {
+      const { issues } = analyze(createPose(320, -120, 700));
+
+      expect(issues.map(issue => issue.type)).toEqual([
+        'cut_off',
+        'cut_off',
+        'too_close',
+      ]);
+    });
+
+    it('calls a small person too far, more so the smaller they are', () => {
+      expect(analyze(createPose(320, 100, 150)).issues).toEqual([
+        { type: 'too_far', severity: 'low', value: expect.closeTo(150 / 480) },
+      ]);
+      expect(analyze(createPose(320, 100, 80)).issues).toMatchObject([
+        { type: 'too_far', severity: 'medium' },
+      ]);
+    });
+  });
+
+  describe('centring', () => {
+    it('sends a person at the image left to the preview left', () => {
+      expect(analyze(createPose(80, 40, 400)).issues).toEqual([
+        {
+          type: 'off_center',
+          severity: 'low',
+          value: -0.75,
+          edge: 'left',
+          direction: 'left',
+        },
+      ]);
+    });
+
+    it('sends a person at the image right to the preview right', () => {
+      expect(analyze(createPose(560, 40, 400)).issues).toMatchObject([
+        { type: 'off_center', value: 0.75, edge: 'right', direction: 'right' },
+      ]);
+    });
+
+    it('uses image directions for an unmirrored preview', () => {
+      const guidance = new FramingAnalyzer({ mirrored: false }).analyze(
+        createPose(80, 40, 400),
+        quadConfig,
+        FRAME
+      );
+
+      expect(guidance.issues).toMatchObject([{ direction: 'right' }]);
+    });
+  });
+
+  describe('cut off', () => {
+    it('names the required keypoints beyond an edge', () => {
+      // Knees and hips seen, ankles below the frame
+      const { issues } = analyze(createPose(320, 150, 400));
+
+      expect(issues).toEqual([
+        {
+          type: 'cut_off',
+          severity: 'high',
+          value: 2,
+          edge: 'bottom',
+          keypoints: ['left_ankle', 'right_ankle'],
+        },
+      ]);
+    });
+
+    it('warns of required keypoints within the edge margin', () => {
+      // Ankles just inside the bottom edge, feet below it
+      const { issues } = analyze(createPose(320, 80, 410));
+
+      expect(issues).toMatchObject([
+        {
+          type: 'cut_off',
+          severity: 'medium',
+          edge: 'bottom',
+          keypoints: ['left_ankle', 'right_ankle'],
+        },
+      ]);
+    });
+
+    it("ignores keypoints the stretch doesn't need", () => {
+      const guidance = new FramingAnalyzer().analyze(
+        createPose(320, 80, 410),
+        shoulderCrossConfig,
+        FRAME
+      );
+
+      expect(guidance.isWellFramed).toBe(true);
+    });
+
+    it('finds the edge of keypoints it cannot place', () => {
+      // Right arm past the image left edge; the lost elbow and wrist can't be
+      // placed, so they count towards the edge the person runs into
+      const guidance = new FramingAnalyzer().analyze(
+        createPose(30, 40, 400),
+        shoulderCrossConfig,
+        FRAME
+      );
+
+      expect(guidance.issues[0]).toEqual({
+        type: 'cut_off',
+        severity: 'high',
+        value: 3,
+        edge: 'left',
+        keypoints: ['right_shoulder', 'right_elbow', 'right_wrist'],
+        direction: 'left',
+      });
+      expect(guidance.issues.map(issue => issue.type)).toEqual([
+        'cut_off',
+        'off_center',
+      ]);
+    });
+  });
+
+  describe('camera tilt', () => {
+    it('allows a little roll', () => {
+      expect(analyze(createPose(320, 40, 400), { tiltDeg: 4 }).issues).toEqual(
+        []
+      );
+    });
+
+    it('asks to level a rolled camera, more so the further it is rolled', () => {
+      expect(analyze(createPose(320, 40, 400), { tiltDeg: -8 }).issues).toEqual(
+        [{ type: 'camera_tilted', severity: 'low', value: -8 }]
+      );
+      expect(
+        analyze(createPose(320, 40, 400), { tiltDeg: 20 }).issues
+      ).toMatchObject([{ type: 'camera_tilted', severity: 'medium' }]);
+    });
+  });
+});
@@ -3,6 +3,492 @@
  * Integrates with LLM for dynamic cues and provides fallbacks
  */
 
+import {
+  CameraView,
+  CoachConfig,
+  CoachingCue,
+  CueSeverity,
+  CueType,
+  Features,
+  FormIssue,
+  FormIssueType,
+  FrameQuality,
+  FrameQualityCondition,
+  FramingGuidance,
+  FramingIssue,
+  FSMTransitionEvent,
+  KeypointName,
+  StretchConfig,
+  StretchType,
+  WorkingSideChange,
+} from '../types';
+
+// Type definitions for browser globals in React Native environment
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+interface CannedCue {
+  type: CueType;
+  severity: CueSeverity;
+  message: string;
+  priority: number;
+  cooldownMs: number;
+}
+
+type IssueMessages = Record<FormIssue['direction'], string>;
+
+// Canned cues for FSM events that don't depend on an issue
+const EVENT_CUES: Partial<Record<FSMTransitionEvent['event'], CannedCue>> = {
+  IN_POSITION: {
+    type: 'position',
+    severity: 'low',
+    message: 'Good, now hold still',
+    priority: 2,
+    cooldownMs: 10000,
+  },
+  STABLE_HOLD: {
+    type: 'hold',
+    severity: 'low',
+    message: 'Hold it there',
+    priority: 1,
+    cooldownMs: 15000,
+  },
+  ISSUE_RESOLVED: {
+    type: 'encouragement',
+    severity: 'low',
+    message: "That's it",
+    priority: 1,
+    cooldownMs: 8000,
+  },
+  POSE_LOST: {
+    type: 'reframe',
+    severity: 'medium',
+    message: 'Step back so I can see your whole body',
+    priority: 3,
+    cooldownMs: 8000,
+  },
+  FATIGUE_DETECTED: {
+    type: 'release',
+    severity: 'high',
+    message: "You're tiring, ease out of it and rest",
+    priority: 3,
+    cooldownMs: 30000,
+  },
+};
+
+const ISSUE_MESSAGES: Record<FormIssueType, IssueMessages> = {
+  body_line: {
+    high: 'Bring your body into one straight line',
+    low: 'Bring your body into one straight line',
+  },
+  hip_height: {
+    high: 'Lower your hips a bit',
+    low: 'Lift your hips a bit',
+  },
+  hip_line: {
+    high: 'Lower your hips in line with your shoulders',
+    low: 'Lift your hips in line with your shoulders',
+  },
+  knee_extension: {
+    high: 'Soften your knee slightly',
+    low: 'Straighten your knee',
+  },
+};
+
+// Stretch-specific wording where the generic cue is too vague
+const STRETCH_ISSUE_MESSAGES: Partial<
+  Record<StretchType, Partial<Record<FormIssueType, IssueMessages>>>
+> = {
+  quad: {
+    body_line: { high: 'Stand up tall', low: 'Stand up tall' },
+  },
+  shoulder_cross: {
+    body_line: { high: 'Stand up tall', low: 'Stand up tall' },
+  },
+};
+
+const REFRAME_COOLDOWN_MS = 8000;
+
+// Prompts for camera frames the pose model can't work with
+const FRAME_QUALITY_MESSAGES: Record<Exclude<FrameQuality, 'good'>, string> = {
+  too_dark: "It's too dark for me to see you, turn on a light",
+  backlit: 'Face away from the window so the light is behind the phone',
+  blurry: 'The picture is blurry, wipe the camera lens',
+};
+
+// Views below this confidence don't prompt a turn
+const MIN_VIEW_CONFIDENCE = 0.6;
+
+// Prompts to turn into a stretch's preferred view
+const VIEW_MESSAGES: Record<CameraView, string> = {
+  side: 'Turn sideways to the camera',
+  front: 'Turn to face the camera',
+  three_quarter: 'Turn halfway towards the camera',
+};
+
+// Body part named in reframe cues, per keypoint
+const KEYPOINT_PARTS: Record<KeypointName, [string, string]> = {
+  nose: ['head', 'head'],
+  left_eye: ['head', 'head'],
+  right_eye: ['head', 'head'],
+  left_ear: ['head', 'head'],
+  right_ear: ['head', 'head'],
+  left_shoulder: ['shoulder', 'shoulders'],
+  right_shoulder: ['shoulder', 'shoulders'],
+  left_elbow: ['elbow', 'elbows'],
+  right_elbow: ['elbow', 'elbows'],
+  left_wrist: ['hand', 'hands'],
+  right_wrist: ['hand', 'hands'],
+  left_hip: ['hip', 'hips'],
+  right_hip: ['hip', 'hips'],
+  left_knee: ['knee', 'knees'],
+  right_knee: ['knee', 'knees'],
+  left_ankle: ['ankle', 'ankles'],
+  right_ankle: ['ankle', 'ankles'],
+  left_heel: ['foot', 'feet'],
+  right_heel: ['foot', 'feet'],
+  left_toe: ['foot', 'feet'],
+  right_toe: ['foot', 'feet'],
+};
+
 export class CoachService {
-  // TODO: Implement coach service
+  private config: CoachConfig;
+  private lastCueTime: number | null = null;
+  private cueHistory: Map<string, number> = new Map();
+  private heldCue: CoachingCue | null = null; // Rate limited, said once it lapses
+  private isViewUnsupported = false; // Form can't be judged from this view
+  private cueCallbacks: Set<(cue: CoachingCue) => void> = new Set();
+
+  constructor(config?: Partial<CoachConfig>) {
+    this.config = {
+      enableLLM: false,
+      fallbackToCanned: true,
+      maxCueLength: 80,
+      cueCacheSize: 50,
+      rateLimitMs: 2000,
+      ...config,
+    };
+  }
+
+  /**
+   * Turn an FSM event into at most one cue
+   * Returns null when nothing should be said now (no cue, repeat, form
+   * seen from an unsupported view, or held back by the rate limit until flush)
+   */
+  handleEvent(
+    event: FSMTransitionEvent,
+    stretch: StretchConfig
+  ): CoachingCue | null {
+    // The FSM has moved on, so a cue held back from before is out of date
+    this.heldCue = null;
+
+    // Turning comes first; form seen from the wrong angle may be misread
+    if (event.event === 'ISSUE_DETECTED' && this.isViewUnsupported) {
+      return null;
+    }
+
+    const cue = this.buildCue(event, stretch);
+    if (!cue) {
+      return null;
+    }
+
+    return this.deliver(cue, event.timestamp);
+  }
+
+  /**
+   * Say the cue held back by the rate limit once the limit has lapsed
+   * Call once per frame; returns the cue if it was said now
+   */
+  flush(now: number): CoachingCue | null {
+    const cue = this.heldCue;
+    if (!cue || this.isRateLimited(cue, now)) {
+      return null;
+    }
+
+    this.heldCue = null;
+    return this.deliver(cue, now);
+  }
+
+  /**
+   * Turn framing guidance into at most one reframe cue
+   * Only the most important framing issue is spoken
+   */
+  handleFraming(guidance: FramingGuidance): CoachingCue | null {
+    const issue = guidance.issues[0];
+    if (!issue) {
+      return null;
+    }
+
+    const id = [
+      'reframe',
+      issue.type,
+      ...(issue.edge ? [issue.edge] : []),
+    ].join('_');
+
+    return this.deliver(
+      {
+        id,
+        type: 'reframe',
+        severity: issue.severity,
+        message: this.buildFramingMessage(issue),
+        priority: issue.severity === 'high' ? 4 : 3,
+        cooldownMs: REFRAME_COOLDOWN_MS,
+      },
+      guidance.timestamp
+    );
+  }
+
+  /**
+   * Turn a frame quality condition into a prompt (nothing once it's good)
+   */
+  handleFrameQuality(condition: FrameQualityCondition): CoachingCue | null {
+    if (condition.quality === 'good') {
+      return null;
+    }
+
+    return this.deliver(
+      {
+        id: `frame_quality_${condition.quality}`,
+        type: 'reframe',
+        severity: 'high',
+        message: FRAME_QUALITY_MESSAGES[condition.quality],
+        priority: 4,
+        cooldownMs: REFRAME_COOLDOWN_MS * 2,
+      },
+      condition.report.timestamp
+    );
+  }
+
+  /**
+   * Ask the user to turn when the stretch can't be checked from this view
+   * Call once per frame; form cues are held back until the view is supported
+   */
+  handleView(features: Features, stretch: StretchConfig): CoachingCue | null {
+    const preferred = stretch.supportedViews[0];
+    this.isViewUnsupported =
+      preferred !== undefined &&
+      features.view !== null &&
+      features.viewConfidence >= MIN_VIEW_CONFIDENCE &&
+      !stretch.supportedViews.includes(features.view);
+
+    if (!preferred || !this.isViewUnsupported) {
+      return null;
+    }
+
+    return this.deliver(
+      {
+        id: `turn_${preferred}`,
+        type: 'reframe',
+        severity: 'medium',
+        message: VIEW_MESSAGES[preferred],
+        priority: 3,
+        cooldownMs: REFRAME_COOLDOWN_MS,
+      },
+      features.timestamp
+    );
+  }
+
+  /**
+   * Acknowledge a switch of working side mid-hold (not the first detection)
+   */
+  handleSideChange(change: WorkingSideChange): CoachingCue | null {
+    if (change.from === null) {
+      return null;
+    }
+
+    return this.deliver(
+      {
+        id: `side_${change.to}`,
+        type: 'position',
+        severity: 'low',
+        message: `Switching to your ${change.to} side`,
+        side: change.to,
+        priority: 2,
+        cooldownMs: REFRAME_COOLDOWN_MS,
+      },
+      change.timestamp
+    );
+  }
+
+  /**
+   * Wording for a framing issue
+   */
+  private buildFramingMessage(issue: FramingIssue): string {
+    switch (issue.type) {
+      case 'no_subject':
+        return 'Step into the frame so I can see you';
+      case 'cut_off': {
+        const part = this.describeKeypoints(issue.keypoints ?? []);
+        return issue.direction
+          ? `Move ${issue.direction} so I can see your ${part}`
+          : `Step back so I can see your ${part}`;
+      }
+      case 'too_close':
+        return 'Step back a little';
+      case 'too_far':
+        return 'Come a bit closer to the camera';
+      case 'off_center':
+        return `Move a little to the ${issue.direction ?? 'middle'}`;
+      case 'camera_tilted':
+        return 'Straighten your phone so it sits level';
+    }
+  }
+
+  /**
+   * Name the body part behind the first keypoints ("ankle", "ankles")
+   */
+  private describeKeypoints(keypoints: KeypointName[]): string {
+    const first = keypoints[0];
+    if (!first) {
+      return 'whole body';
+    }
+
+    const [singular, plural] = KEYPOINT_PARTS[first];
+    const sameParts = keypoints.filter(
+      name => KEYPOINT_PARTS[name][0] === singular
+    );
+    const hasBothSides =
+      sameParts.some(name => name.startsWith('left_')) &&
+      sameParts.some(name => name.startsWith('right_'));
+
+    return hasBothSides ? plural : singular;
+  }
+
+  /**
+   * Build the canned cue for an event
+   */
+  private buildCue(
+    event: FSMTransitionEvent,
+    stretch: StretchConfig
+  ): CoachingCue | null {
+    if (event.event === 'ISSUE_DETECTED' && event.issue) {
+      return this.buildIssueCue(event.issue, stretch);
+    }
+
+    const canned = EVENT_CUES[event.event];
+    if (!canned) {
+      return null;
+    }
+
+    return { id: event.event.toLowerCase(), ...canned };
+  }
+
+  /**
+   * Build the corrective cue for a form issue
+   */
+  private buildIssueCue(issue: FormIssue, stretch: StretchConfig): CoachingCue {
+    const messages =
+      STRETCH_ISSUE_MESSAGES[stretch.stretchType]?.[issue.type] ??
+      ISSUE_MESSAGES[issue.type];
+
+    const cue: CoachingCue = {
+      id: `${issue.type}_${issue.direction}`,
+      type: 'adjustment',
+      severity: issue.severity,
+      message: messages[issue.direction],
+      priority: issue.severity === 'critical' ? 5 : 4,
+      cooldownMs: stretch.timing.cooldownMs,
+    };
+    if (issue.side) {
+      cue.side = issue.side;
+    }
+
+    return cue;
+  }
+
+  /**
+   * Whether the rate limit holds a cue back (urgent cues never are)
+   */
+  private isRateLimited(cue: CoachingCue, now: number): boolean {
+    const isUrgent = cue.severity === 'high' || cue.severity === 'critical';
+    return (
+      !isUrgent &&
+      this.lastCueTime !== null &&
+      now - this.lastCueTime < this.config.rateLimitMs
+    );
+  }
+
+  /**
+   * Apply rate limiting and per-cue cooldowns, then notify
+   * A rate limited cue is held for flush unless a more important one is
+   */
+  private deliver(cue: CoachingCue, now: number): CoachingCue | null {
+    // A cue in its cooldown can't be said, so it never displaces a held one
+    const lastUsed = this.cueHistory.get(cue.id);
+    if (lastUsed !== undefined && now - lastUsed < cue.cooldownMs) {
+      return null;
+    }
+
+    if (this.isRateLimited(cue, now)) {
+      if (!this.heldCue || cue.priority >= this.heldCue.priority) {
+        this.heldCue = cue;
+      }
+      return null;
+    }
+
+    const delivered: CoachingCue = {
+      ...cue,
+      message: cue.message.slice(0, this.config.maxCueLength),
+      lastUsed: now,
+    };
+
+    this.lastCueTime = now;
+    this.cueHistory.delete(cue.id);
+    this.cueHistory.set(cue.id, now);
+    if (this.cueHistory.size > this.config.cueCacheSize) {
+      const oldest = this.cueHistory.keys().next().value;
+      if (oldest !== undefined) {
+        this.cueHistory.delete(oldest);
+      }
+    }
+
+    this.cueCallbacks.forEach(callback => {
+      try {
+        callback(delivered);
+      } catch (error) {
+        console.error('Error in cue callback:', error);
+      }
+    });
+
+    return delivered;
+  }
+
+  /**
+   * Add cue callback
+   */
+  addCueCallback(callback: (cue: CoachingCue) => void): void {
+    this.cueCallbacks.add(callback);
+  }
+
+  /**
+   * Remove cue callback
+   */
+  removeCueCallback(callback: (cue: CoachingCue) => void): void {
+    this.cueCallbacks.delete(callback);
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<CoachConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): CoachConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Forget cue history (new session)
+   */
+  reset(): void {
+    this.lastCueTime = null;
+    this.heldCue = null;
+    this.isViewUnsupported = false;
+    this.cueHistory.clear();
+  }
 }
@@ -0,0 +1,120 @@
+/**
+ * CoachService tests
+ * Hand-built FSM events against the default rate limit
+ */
+
+import { describe, expect, it } from 'vitest';
+import { FeatureEngine } from '../../features/FeatureEngine';
+import { STRETCH_CONFIGS } from '../../fsm/config';
+import { SyntheticPoseGenerator } from '../../trace/SyntheticPoseGenerator';
+import {
+  CameraView,
+  Features,
+  FormIssue,
+  FSMTransitionEvent,
+} from '../../types';
+import { CoachService } from '../CoachService';
+
+const plank = STRETCH_CONFIGS.plank;
+
+const PLANK = new FeatureEngine().calculateFeatures(
+  new SyntheticPoseGenerator({ stretchType: 'plank' }).next()
+).data!;
+
+const SAG: FormIssue = {
+  type: 'hip_line',
+  severity: 'medium',
+  direction: 'low',
+  value: -0.2,
+};
+
+const stableHold = (timestamp: number): FSMTransitionEvent => ({
+  event: 'STABLE_HOLD',
+  from: 'READY',
+  to: 'HOLDING',
+  timestamp,
+});
+
+const issueDetected = (timestamp: number): FSMTransitionEvent => ({
+  event: 'ISSUE_DETECTED',
+  from: 'HOLDING',
+  to: 'COACH_ISSUE',
+  timestamp,
+  issue: SAG,
+});
+
+const seenFrom = (view: CameraView, timestamp: number): Features => ({
+  ...PLANK,
+  view,
+  viewConfidence: 0.9,
+  timestamp,
+});
+
+describe('CoachService', () => {
+  it('holds a rate limited cue until the limit lapses', () => {
+    const coach = new CoachService();
+    const spoken: string[] = [];
+    coach.addCueCallback(cue => spoken.push(cue.message));
+
+    coach.handleEvent(stableHold(1000), plank);
+    expect(coach.handleEvent(issueDetected(1500), plank)).toBeNull();
+    expect(coach.flush(2900)).toBeNull();
+
+    expect(coach.flush(3000)?.message).toBe(
+      'Lift your hips in line with your shoulders'
+    );
+    expect(coach.flush(3100)).toBeNull();
+    expect(spoken).toEqual([
+      'Hold it there',
+      'Lift your hips in line with your shoulders',
+    ]);
+  });
+
+  it('replaces a held cue once the FSM moves on', () => {
+    const coach = new CoachService();
+
+    coach.handleEvent(stableHold(1000), plank);
+    coach.handleEvent(issueDetected(1500), plank);
+    coach.handleEvent(
+      {
+        event: 'POSE_LOST',
+        from: 'COACH_ISSUE',
+        to: 'WAITING',
+        timestamp: 1800,
+      },
+      plank
+    );
+
+    expect(coach.flush(5000)?.id).toBe('pose_lost');
+    expect(coach.flush(8000)).toBeNull();
+  });
+
+  it('keeps the more important of two held cues', () => {
+    const coach = new CoachService();
+
+    coach.handleEvent(stableHold(1000), plank);
+    coach.handleEvent(issueDetected(1500), plank);
+    coach.handleSideChange({
+      from: 'left',
+      to: 'right',
+      confidence: 0.8,
+      timestamp: 1600,
+    });
+
+    expect(coach.flush(3000)?.id).toBe('hip_line_low');
+  });
+
+  it('holds back form cues while the view is unsupported', () => {
+    const coach = new CoachService();
+
+    expect(coach.handleView(seenFrom('front', 1000), plank)?.message).toBe(
+      'Turn sideways to the camera'
+    );
+    expect(coach.handleEvent(issueDetected(4000), plank)).toBeNull();
+
+    expect(coach.handleView(seenFrom('side', 6000), plank)).toBeNull();
+    expect(coach.handleEvent(issueDetected(6100), plank)?.message).toBe(
+      'Lift your hips in line with your shoulders'
+    );
+  });
+});
@@ -3,6 +3,8 @@
  * Central location for all app-wide constants
  */
 
+import { KeypointName } from '../types';
+
 // Performance targets
 export const PERFORMANCE_TARGETS = {
   CAMERA_FPS: { MIN: 8, MAX: 12 },
@@ -19,6 +21,31 @@ export const POSE_CONFIG = {
   VISIBILITY_THRESHOLD: 0.6,
 } as const;
 
+// Every keypoint a Pose carries, in model-agnostic order
+export const KEYPOINT_NAMES: readonly KeypointName[] = [
+  'nose',
+  'left_eye',
+  'right_eye',
+  'left_ear',
+  'right_ear',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+  'left_heel',
+  'right_heel',
+  'left_toe',
+  'right_toe',
+];
+
 // FSM states
 export const FSM_STATES = {
   WAITING: 'WAITING',
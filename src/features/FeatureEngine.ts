@@ -9,21 +9,61 @@ import {
   KeypointName,
   Features,
   FeatureConfig,
+  FeatureConfidence,
+  JointAngles,
+  BodyPositions,
+  PostureMetrics,
+  SymmetryMetrics,
   AppError,
   ServiceResponse,
 } from '../types';
+import { ViewClassifier } from './ViewClassifier';
+
+/**
+ * A value with the confidence behind it; value is null when unknown
+ */
+interface Measurement {
+  value: number | null;
+  confidence: number;
+}
+
+/**
+ * Last valid (smoothed) value of one feature
+ */
+interface ValidSample {
+  value: number;
+  timestamp: number;
+}
+
+const UNKNOWN: Measurement = { value: null, confidence: 0 };
+
+// Shorter heel-toe spans (torso lengths) are feet pointing at the camera
+const MIN_FOOT_LENGTH = 0.25;
+
+// Shoulder-ankle lines spanning less (torso lengths, level) are too upright
+// for the hips to sit above or below them
+const MIN_HIP_LINE_SPAN = 1;
 
 export class FeatureEngine {
   private config: FeatureConfig;
-  private previousFeatures: Features | null = null;
+  private lastValid: Map<string, ValidSample> = new Map();
+  private recentRaw: Map<string, ValidSample[]> = new Map(); // For motion trends
   private smoothingFactor: number;
+  private bodyScale = 0; // Last measured torso length in pixels
+  private bodyLineSide: 'left' | 'right' | null = null;
+  private viewClassifier = new ViewClassifier();
 
   constructor(config?: Partial<FeatureConfig>) {
     this.config = {
       smoothingFactor: 0.1,
       stabilityWindowMs: 1000,
-      motionThreshold: 5.0, // degrees per second
+      // Trends of still poses with a few pixels of keypoint jitter stay
+      // well below these
+      angularMotionThreshold: 5.0, // degrees per second
+      linearMotionThreshold: 0.15, // torso lengths per second
+      maxSampleGapMs: 1000,
       angleCalculationMethod: 'atan2',
+      cameraTiltDeg: 0,
       ...config,
     };
     this.smoothingFactor = this.config.smoothingFactor;
@@ -35,45 +75,114 @@ export class FeatureEngine {
   calculateFeatures(pose: Pose): ServiceResponse<Features> {
     try {
       const keypoints = pose.keypoints;
-      
+      const timestamp = pose.timestamp;
+
       // Calculate joint angles
-      const angles = this.calculateJointAngles(keypoints);
-      
+      const angles = this.splitMeasurements(
+        this.calculateJointAngles(keypoints)
+      );
+
       // Calculate body line straightness
       const bodyLineData = this.calculateBodyLineStraightness(keypoints);
-      
-      // Calculate body part positions
-      const positions = this.calculateBodyPositions(keypoints);
-      
-      // Calculate velocities (if we have previous features)
-      const velocity = this.calculateVelocities(angles, positions, bodyLineData.angle);
-      
-      // Calculate stability metrics
-      const stability = this.calculateStability(velocity);
-      
+
+      // Calculate body part positions in torso lengths
+      this.bodyScale = this.calculateBodyScale(keypoints) || this.bodyScale;
+      const positions = this.splitMeasurements(
+        this.calculateBodyPositions(keypoints)
+      );
+
+      // Calculate stretch-specific posture measures
+      const posture = this.splitMeasurements(
+        this.calculatePostureMetrics(keypoints)
+      );
+
+      // Classify the camera view (side, front, three-quarter)
+      const view = this.viewClassifier.classify(keypoints, this.bodyScale);
+
+      // Smooth angles against their last valid values
+      const bodyLineAngle = this.smoothMeasurement(
+        'bodyLineAngle',
+        bodyLineData.value,
+        timestamp
+      );
+      (Object.keys(angles.values) as (keyof JointAngles)[]).forEach(name => {
+        angles.values[name] = this.smoothMeasurement(
+          `angles.${name}`,
+          angles.values[name],
+          timestamp
+        );
+      });
+
+      // Compare left and right sides (after smoothing, like the angles)
+      const symmetry = this.splitMeasurements(
+        this.calculateSymmetryMetrics(keypoints, angles)
+      );
+
+      // Calculate velocities (if we have recent valid samples)
+      const velocity = {
+        bodyLineAngle: this.calculateVelocity(
+          'bodyLineAngle',
+          bodyLineData.value,
+          timestamp
+        ),
+        hipHeight: this.calculateVelocity(
+          'positions.hipHeight',
+          positions.values.hipHeight,
+          timestamp
+        ),
+        shoulderHeight: this.calculateVelocity(
+          'positions.shoulderHeight',
+          positions.values.shoulderHeight,
+          timestamp
+        ),
+      };
+
+      // Calculate stability metrics from motion trends over the window
+      const stability = this.calculateStability({
+        bodyLineAngle: this.calculateTrend(
+          'bodyLineAngle',
+          bodyLineData.value,
+          timestamp
+        ),
+        hipHeight: this.calculateTrend(
+          'positions.hipHeight',
+          positions.values.hipHeight,
+          timestamp
+        ),
+        shoulderHeight: this.calculateTrend(
+          'positions.shoulderHeight',
+          positions.values.shoulderHeight,
+          timestamp
+        ),
+      });
+
       // Calculate visibility metrics
       const visibility = this.calculateVisibility(keypoints);
-      
+
       // Create features object
       const features: Features = {
-        bodyLineAngle: bodyLineData.angle,
+        bodyLineAngle,
         bodyLineConfidence: bodyLineData.confidence,
-        angles,
-        positions,
+        view: view.view,
+        viewConfidence: view.confidence,
+        angles: angles.values,
+        angleConfidence: angles.confidence,
+        bodyScale: this.bodyScale,
+        positions: positions.values,
+        positionConfidence: positions.confidence,
+        posture: posture.values,
+        postureConfidence: posture.confidence,
+        symmetry: symmetry.values,
+        symmetryConfidence: symmetry.confidence,
         velocity,
         stability,
         visibility,
-        timestamp: pose.timestamp,
+        timestamp,
         frameId: pose.frameId,
       };
 
-      // Apply smoothing if enabled
-      if (this.config.smoothingFactor > 0 && this.previousFeatures) {
-        this.applySmoothing(features);
-      }
-
-      // Store for next calculation
-      this.previousFeatures = { ...features };
+      // Store valid values for the next calculation
+      this.rememberValid(features);
 
       return {
         success: true,
@@ -100,7 +209,9 @@ export class FeatureEngine {
   /**
    * Calculate joint angles from keypoints
    */
-  private calculateJointAngles(keypoints: Record<KeypointName, Keypoint>) {
+  private calculateJointAngles(
+    keypoints: Record<KeypointName, Keypoint>
+  ): Record<keyof JointAngles, Measurement> {
     return {
       leftHip: this.calculateHipAngle(keypoints, 'left'),
       rightHip: this.calculateHipAngle(keypoints, 'right'),
@@ -117,107 +228,145 @@ export class FeatureEngine {
   /**
    * Calculate hip angle (hip-knee-ankle)
    */
-  private calculateHipAngle(keypoints: Record<KeypointName, Keypoint>, side: 'left' | 'right'): number {
+  private calculateHipAngle(
+    keypoints: Record<KeypointName, Keypoint>,
+    side: 'left' | 'right'
+  ): Measurement {
     const hip = keypoints[`${side}_hip` as KeypointName];
     const knee = keypoints[`${side}_knee` as KeypointName];
     const ankle = keypoints[`${side}_ankle` as KeypointName];
 
     if (!this.areKeypointsVisible([hip, knee, ankle])) {
-      return 0;
+      return UNKNOWN;
     }
 
-    return this.calculateAngleBetweenVectors(
-      { x: hip.x - knee.x, y: hip.y - knee.y },
-      { x: ankle.x - knee.x, y: ankle.y - knee.y }
-    );
+    return {
+      value: this.calculateAngleBetweenVectors(
+        { x: hip.x - knee.x, y: hip.y - knee.y },
+        { x: ankle.x - knee.x, y: ankle.y - knee.y }
+      ),
+      confidence: this.averageConfidence([hip, knee, ankle]),
+    };
   }
 
   /**
    * Calculate knee angle (hip-knee-ankle)
    */
-  private calculateKneeAngle(keypoints: Record<KeypointName, Keypoint>, side: 'left' | 'right'): number {
+  private calculateKneeAngle(
+    keypoints: Record<KeypointName, Keypoint>,
+    side: 'left' | 'right'
+  ): Measurement {
     const hip = keypoints[`${side}_hip` as KeypointName];
     const knee = keypoints[`${side}_knee` as KeypointName];
     const ankle = keypoints[`${side}_ankle` as KeypointName];
 
     if (!this.areKeypointsVisible([hip, knee, ankle])) {
-      return 0;
+      return UNKNOWN;
     }
 
-    return this.calculateAngleBetweenVectors(
-      { x: knee.x - hip.x, y: knee.y - hip.y },
-      { x: knee.x - ankle.x, y: knee.y - ankle.y }
-    );
+    return {
+      value: this.calculateAngleBetweenVectors(
+        { x: knee.x - hip.x, y: knee.y - hip.y },
+        { x: knee.x - ankle.x, y: knee.y - ankle.y }
+      ),
+      confidence: this.averageConfidence([hip, knee, ankle]),
+    };
   }
 
   /**
    * Calculate shoulder angle (hip-shoulder-elbow)
    */
-  private calculateShoulderAngle(keypoints: Record<KeypointName, Keypoint>, side: 'left' | 'right'): number {
+  private calculateShoulderAngle(
+    keypoints: Record<KeypointName, Keypoint>,
+    side: 'left' | 'right'
+  ): Measurement {
     const hip = keypoints[`${side}_hip` as KeypointName];
     const shoulder = keypoints[`${side}_shoulder` as KeypointName];
     const elbow = keypoints[`${side}_elbow` as KeypointName];
 
     if (!this.areKeypointsVisible([hip, shoulder, elbow])) {
-      return 0;
+      return UNKNOWN;
     }
 
-    return this.calculateAngleBetweenVectors(
-      { x: shoulder.x - hip.x, y: shoulder.y - hip.y },
-      { x: shoulder.x - elbow.x, y: shoulder.y - elbow.y }
-    );
+    return {
+      value: this.calculateAngleBetweenVectors(
+        { x: shoulder.x - hip.x, y: shoulder.y - hip.y },
+        { x: shoulder.x - elbow.x, y: shoulder.y - elbow.y }
+      ),
+      confidence: this.averageConfidence([hip, shoulder, elbow]),
+    };
   }
 
   /**
    * Calculate elbow angle (shoulder-elbow-wrist)
    */
-  private calculateElbowAngle(keypoints: Record<KeypointName, Keypoint>, side: 'left' | 'right'): number {
+  private calculateElbowAngle(
+    keypoints: Record<KeypointName, Keypoint>,
+    side: 'left' | 'right'
+  ): Measurement {
     const shoulder = keypoints[`${side}_shoulder` as KeypointName];
     const elbow = keypoints[`${side}_elbow` as KeypointName];
     const wrist = keypoints[`${side}_wrist` as KeypointName];
 
     if (!this.areKeypointsVisible([shoulder, elbow, wrist])) {
-      return 0;
+      return UNKNOWN;
     }
 
-    return this.calculateAngleBetweenVectors(
-      { x: elbow.x - shoulder.x, y: elbow.y - shoulder.y },
-      { x: elbow.x - wrist.x, y: elbow.y - wrist.y }
-    );
+    return {
+      value: this.calculateAngleBetweenVectors(
+        { x: elbow.x - shoulder.x, y: elbow.y - shoulder.y },
+        { x: elbow.x - wrist.x, y: elbow.y - wrist.y }
+      ),
+      confidence: this.averageConfidence([shoulder, elbow, wrist]),
+    };
   }
 
   /**
    * Calculate neck angle (ear-shoulder-hip)
    */
-  private calculateNeckAngle(keypoints: Record<KeypointName, Keypoint>): number {
-    const ear = keypoints.left_ear.confidence > keypoints.right_ear.confidence 
-      ? keypoints.left_ear 
-      : keypoints.right_ear;
-    const shoulder = keypoints.left_shoulder.confidence > keypoints.right_shoulder.confidence 
-      ? keypoints.left_shoulder 
-      : keypoints.right_shoulder;
-    const hip = keypoints.left_hip.confidence > keypoints.right_hip.confidence 
-      ? keypoints.left_hip 
-      : keypoints.right_hip;
+  private calculateNeckAngle(
+    keypoints: Record<KeypointName, Keypoint>
+  ): Measurement {
+    const ear =
+      keypoints.left_ear.confidence > keypoints.right_ear.confidence
+        ? keypoints.left_ear
+        : keypoints.right_ear;
+    const shoulder =
+      keypoints.left_shoulder.confidence > keypoints.right_shoulder.confidence
+        ? keypoints.left_shoulder
+        : keypoints.right_shoulder;
+    const hip =
+      keypoints.left_hip.confidence > keypoints.right_hip.confidence
+        ? keypoints.left_hip
+        : keypoints.right_hip;
 
     if (!this.areKeypointsVisible([ear, shoulder, hip])) {
-      return 0;
+      return UNKNOWN;
     }
 
-    return this.calculateAngleBetweenVectors(
-      { x: shoulder.x - ear.x, y: shoulder.y - ear.y },
-      { x: shoulder.x - hip.x, y: shoulder.y - hip.y }
-    );
+    return {
+      value: this.calculateAngleBetweenVectors(
+        { x: shoulder.x - ear.x, y: shoulder.y - ear.y },
+        { x: shoulder.x - hip.x, y: shoulder.y - hip.y }
+      ),
+      confidence: this.averageConfidence([ear, shoulder, hip]),
+    };
   }
 
   /**
    * Calculate body line straightness (shoulder-hip-ankle alignment)
    */
-  private calculateBodyLineStraightness(keypoints: Record<KeypointName, Keypoint>) {
+  private calculateBodyLineStraightness(
+    keypoints: Record<KeypointName, Keypoint>
+  ): Measurement {
+    if (this.bodyLineSide) {
+      return this.calculateBodyLineForSide(keypoints, this.bodyLineSide);
+    }
+
     // Try both sides, use the one with better visibility
     const leftSide = this.calculateBodyLineForSide(keypoints, 'left');
     const rightSide = this.calculateBodyLineForSide(keypoints, 'right');
-    
+
     // Use the side with better confidence
     if (leftSide.confidence > rightSide.confidence) {
       return leftSide;
@@ -228,101 +377,583 @@ export class FeatureEngine {
   /**
    * Calculate body line for a specific side
    */
-  private calculateBodyLineForSide(keypoints: Record<KeypointName, Keypoint>, side: 'left' | 'right') {
+  private calculateBodyLineForSide(
+    keypoints: Record<KeypointName, Keypoint>,
+    side: 'left' | 'right'
+  ): Measurement {
     const shoulder = keypoints[`${side}_shoulder` as KeypointName];
     const hip = keypoints[`${side}_hip` as KeypointName];
     const ankle = keypoints[`${side}_ankle` as KeypointName];
 
     if (!this.areKeypointsVisible([shoulder, hip, ankle])) {
-      return { angle: 0, confidence: 0 };
+      return UNKNOWN;
     }
 
     // Calculate angle from vertical (0° = perfectly straight)
-    const dx = ankle.x - shoulder.x;
-    const dy = ankle.y - shoulder.y;
-    const angle = Math.atan2(dx, dy) * (180 / Math.PI);
-    
+    const angle = this.calculateAngleFromVertical({
+      x: ankle.x - shoulder.x,
+      y: ankle.y - shoulder.y,
+    });
+
     // Confidence based on keypoint visibility
-    const confidence = (shoulder.confidence + hip.confidence + ankle.confidence) / 3;
+    return {
+      value: angle,
+      confidence: this.averageConfidence([shoulder, hip, ankle]),
+    };
+  }
 
-    return { angle, confidence };
+  /**
+   * Calculate how far the hips sit above the shoulder-ankle line, on the
+   * side with better visibility; the body line angle can't see a sag
+   */
+  private calculateHipLineOffset(
+    keypoints: Record<KeypointName, Keypoint>
+  ): Measurement {
+    const leftSide = this.calculateHipLineOffsetForSide(keypoints, 'left');
+    const rightSide = this.calculateHipLineOffsetForSide(keypoints, 'right');
+
+    return leftSide.confidence > rightSide.confidence ? leftSide : rightSide;
   }
 
   /**
-   * Calculate body part positions relative to reference points
+   * Height of the hip above the shoulder-ankle line, along gravity, in torso
+   * lengths; unknown while the line is too upright (standing)
    */
-  private calculateBodyPositions(keypoints: Record<KeypointName, Keypoint>) {
-    // Use average of left/right for bilateral measurements
-    const leftHip = keypoints.left_hip;
-    const rightHip = keypoints.right_hip;
-    const leftShoulder = keypoints.left_shoulder;
-    const rightShoulder = keypoints.right_shoulder;
-    const leftAnkle = keypoints.left_ankle;
-    const rightAnkle = keypoints.right_ankle;
+  private calculateHipLineOffsetForSide(
+    keypoints: Record<KeypointName, Keypoint>,
+    side: 'left' | 'right'
+  ): Measurement {
+    const shoulder = keypoints[`${side}_shoulder` as KeypointName];
+    const hip = keypoints[`${side}_hip` as KeypointName];
+    const ankle = keypoints[`${side}_ankle` as KeypointName];
+
+    if (
+      !this.areKeypointsVisible([shoulder, hip, ankle]) ||
+      this.bodyScale <= 0
+    ) {
+      return UNKNOWN;
+    }
 
-    // Calculate average positions
-    const hipHeight = this.averageY([leftHip, rightHip]);
-    const shoulderHeight = this.averageY([leftShoulder, rightShoulder]);
-    const leftAnkleHeight = leftAnkle.confidence >= 0.6 ? leftAnkle.y : 0;
-    const rightAnkleHeight = rightAnkle.confidence >= 0.6 ? rightAnkle.y : 0;
+    const shoulderAcross = this.calculateAcrossPosition(shoulder);
+    const span = this.calculateAcrossPosition(ankle) - shoulderAcross;
+    if (Math.abs(span) < MIN_HIP_LINE_SPAN * this.bodyScale) {
+      return UNKNOWN;
+    }
 
-    // Head height (use ear as proxy)
-    const leftEar = keypoints.left_ear;
-    const rightEar = keypoints.right_ear;
-    const headHeight = this.averageY([leftEar, rightEar]);
+    // Height of the line where it passes the hip
+    const shoulderUp = this.calculateUpPosition(shoulder);
+    const along = (this.calculateAcrossPosition(hip) - shoulderAcross) / span;
+    const lineUp =
+      shoulderUp + along * (this.calculateUpPosition(ankle) - shoulderUp);
 
     return {
-      hipHeight,
-      shoulderHeight,
-      headHeight,
-      leftAnkleHeight,
-      rightAnkleHeight,
+      value: (this.calculateUpPosition(hip) - lineUp) / this.bodyScale,
+      confidence: this.averageConfidence([shoulder, hip, ankle]),
     };
   }
 
   /**
-   * Calculate velocities (change over time)
+   * Torso length (mid-shoulder to mid-hip) in pixels, 0 when not visible
+   * Averaged over the sides where both shoulder and hip are visible
    */
-  private calculateVelocities(angles: any, positions: any, bodyLineAngle: number) {
-    if (!this.previousFeatures) {
+  private calculateBodyScale(keypoints: Record<KeypointName, Keypoint>) {
+    const lengths = (['left', 'right'] as const)
+      .map(side => ({
+        shoulder: keypoints[`${side}_shoulder` as KeypointName],
+        hip: keypoints[`${side}_hip` as KeypointName],
+      }))
+      .filter(({ shoulder, hip }) => this.areKeypointsVisible([shoulder, hip]))
+      .map(({ shoulder, hip }) =>
+        Math.hypot(shoulder.x - hip.x, shoulder.y - hip.y)
+      );
+
+    if (lengths.length === 0) return 0;
+    return lengths.reduce((a, b) => a + b, 0) / lengths.length;
+  }
+
+  /**
+   * Calculate body part heights above the lower ankle in torso lengths
+   * Heights are measured along gravity (camera tilt removed); unknown when
+   * the part, the ankles or the body scale are not visible
+   */
+  private calculateBodyPositions(
+    keypoints: Record<KeypointName, Keypoint>
+  ): Record<keyof BodyPositions, Measurement> {
+    const ankles = [keypoints.left_ankle, keypoints.right_ankle].filter(kp =>
+      this.areKeypointsVisible([kp])
+    );
+    const floor =
+      ankles.length > 0
+        ? Math.min(...ankles.map(kp => this.calculateUpPosition(kp)))
+        : null;
+
+    const heightOf = (points: Keypoint[]): Measurement => {
+      const visible = points.filter(kp => this.areKeypointsVisible([kp]));
+      if (floor === null || this.bodyScale <= 0 || visible.length === 0) {
+        return UNKNOWN;
+      }
+
+      const up =
+        visible.reduce((sum, kp) => sum + this.calculateUpPosition(kp), 0) /
+        visible.length;
       return {
-        bodyLineAngle: 0,
-        hipHeight: 0,
-        shoulderHeight: 0,
+        value: (up - floor) / this.bodyScale,
+        confidence: Math.min(
+          this.averageConfidence(visible),
+          this.averageConfidence(ankles)
+        ),
       };
+    };
+
+    return {
+      hipHeight: heightOf([keypoints.left_hip, keypoints.right_hip]),
+      shoulderHeight: heightOf([
+        keypoints.left_shoulder,
+        keypoints.right_shoulder,
+      ]),
+      // Head height (use ear as proxy)
+      headHeight: heightOf([keypoints.left_ear, keypoints.right_ear]),
+      leftAnkleHeight: heightOf([keypoints.left_ankle]),
+      rightAnkleHeight: heightOf([keypoints.right_ankle]),
+    };
+  }
+
+  /**
+   * Calculate stretch-specific posture measures
+   */
+  private calculatePostureMetrics(
+    keypoints: Record<KeypointName, Keypoint>
+  ): Record<keyof PostureMetrics, Measurement> {
+    return {
+      leftDorsiflexion: this.calculateDorsiflexion(keypoints, 'left'),
+      rightDorsiflexion: this.calculateDorsiflexion(keypoints, 'right'),
+      leftShoulderElevation: this.calculateShoulderElevation(keypoints, 'left'),
+      rightShoulderElevation: this.calculateShoulderElevation(
+        keypoints,
+        'right'
+      ),
+      pelvisTilt: this.calculatePelvisTilt(keypoints),
+      hipSquareness: this.calculateHipSquareness(keypoints),
+      leftElbowHeight: this.calculateElbowHeight(keypoints, 'left'),
+      rightElbowHeight: this.calculateElbowHeight(keypoints, 'right'),
+      hipLineOffset: this.calculateHipLineOffset(keypoints),
+    };
+  }
+
+  /**
+   * Calculate ankle dorsiflexion (knee-ankle against heel-toe)
+   * 0 with the foot at a right angle to the shin, positive as the shin leans
+   * over the toes, negative as the heel lifts; unknown for a foreshortened foot
+   */
+  private calculateDorsiflexion(
+    keypoints: Record<KeypointName, Keypoint>,
+    side: 'left' | 'right'
+  ): Measurement {
+    const knee = keypoints[`${side}_knee` as KeypointName];
+    const ankle = keypoints[`${side}_ankle` as KeypointName];
+    const heel = keypoints[`${side}_heel` as KeypointName];
+    const toe = keypoints[`${side}_toe` as KeypointName];
+
+    const footLength = Math.hypot(toe.x - heel.x, toe.y - heel.y);
+    if (
+      !this.areKeypointsVisible([knee, ankle, heel, toe]) ||
+      footLength < MIN_FOOT_LENGTH * this.bodyScale
+    ) {
+      return UNKNOWN;
     }
 
-    const timeDiff = (Date.now() - this.previousFeatures.timestamp) / 1000; // seconds
-    if (timeDiff <= 0) {
+    return {
+      value:
+        90 -
+        this.calculateAngleBetweenVectors(
+          { x: knee.x - ankle.x, y: knee.y - ankle.y },
+          { x: toe.x - heel.x, y: toe.y - heel.y }
+        ),
+      confidence: this.averageConfidence([knee, ankle, heel, toe]),
+    };
+  }
+
+  /**
+   * Calculate shoulder height relative to the ears in torso lengths
+   * Negative while the shoulder sits below the ear line; a shrug raises it
+   */
+  private calculateShoulderElevation(
+    keypoints: Record<KeypointName, Keypoint>,
+    side: 'left' | 'right'
+  ): Measurement {
+    const shoulder = keypoints[`${side}_shoulder` as KeypointName];
+    const ears = [keypoints.left_ear, keypoints.right_ear].filter(kp =>
+      this.areKeypointsVisible([kp])
+    );
+
+    if (
+      !this.areKeypointsVisible([shoulder]) ||
+      ears.length === 0 ||
+      this.bodyScale <= 0
+    ) {
+      return UNKNOWN;
+    }
+
+    const earLine =
+      ears.reduce((sum, kp) => sum + this.calculateUpPosition(kp), 0) /
+      ears.length;
+    return {
+      value: (this.calculateUpPosition(shoulder) - earLine) / this.bodyScale,
+      confidence: Math.min(shoulder.confidence, this.averageConfidence(ears)),
+    };
+  }
+
+  /**
+   * Calculate pelvis tilt as the hip flexion of the visible legs: degrees the
+   * thigh (hip-knee) sits in front of the torso line (shoulder-hip), averaged
+   * Positive is tipped forward, negative is tucked under
+   */
+  private calculatePelvisTilt(
+    keypoints: Record<KeypointName, Keypoint>
+  ): Measurement {
+    const facing = this.calculateFacing(keypoints);
+    const legs = (['left', 'right'] as const)
+      .map(side => ({
+        shoulder: keypoints[`${side}_shoulder` as KeypointName],
+        hip: keypoints[`${side}_hip` as KeypointName],
+        knee: keypoints[`${side}_knee` as KeypointName],
+      }))
+      .filter(({ shoulder, hip, knee }) =>
+        this.areKeypointsVisible([shoulder, hip, knee])
+      );
+
+    if (facing === null || legs.length === 0) {
+      return UNKNOWN;
+    }
+
+    const flexion = legs.map(({ shoulder, hip, knee }) => {
+      const torso = { x: hip.x - shoulder.x, y: hip.y - shoulder.y };
+      const thigh = { x: knee.x - hip.x, y: knee.y - hip.y };
+      const signed = Math.atan2(
+        torso.x * thigh.y - torso.y * thigh.x,
+        torso.x * thigh.x + torso.y * thigh.y
+      );
+      // Image y points down: a thigh ahead of a body facing +x is negative
+      return -signed * facing * (180 / Math.PI);
+    });
+
+    return {
+      value: flexion.reduce((a, b) => a + b, 0) / flexion.length,
+      confidence: this.averageConfidence(
+        legs.flatMap(({ shoulder, hip, knee }) => [shoulder, hip, knee])
+      ),
+    };
+  }
+
+  /**
+   * Which way the body faces along the image x axis: the nose is in front
+   * of the ears; null when the face can't be seen or faces the camera
+   */
+  private calculateFacing(
+    keypoints: Record<KeypointName, Keypoint>
+  ): 1 | -1 | null {
+    const ears = [keypoints.left_ear, keypoints.right_ear].filter(kp =>
+      this.areKeypointsVisible([kp])
+    );
+    if (!this.areKeypointsVisible([keypoints.nose]) || ears.length === 0) {
+      return null;
+    }
+
+    const offset =
+      this.calculateAcrossPosition(keypoints.nose) -
+      ears.reduce((sum, kp) => sum + this.calculateAcrossPosition(kp), 0) /
+        ears.length;
+    if (offset === 0) {
+      return null;
+    }
+    return offset > 0 ? 1 : -1;
+  }
+
+  /**
+   * Calculate hip squareness: degrees the hip line is turned away from the
+   * shoulder line, from how wide each looks (0 = square)
+   */
+  private calculateHipSquareness(
+    keypoints: Record<KeypointName, Keypoint>
+  ): Measurement {
+    const hips = this.viewClassifier.estimatePairYaw(
+      'hips',
+      keypoints,
+      this.bodyScale
+    );
+    const shoulders = this.viewClassifier.estimatePairYaw(
+      'shoulders',
+      keypoints,
+      this.bodyScale
+    );
+
+    if (hips === null || shoulders === null) {
+      return UNKNOWN;
+    }
+
+    return {
+      value: Math.abs(hips - shoulders),
+      confidence: this.averageConfidence([
+        keypoints.left_hip,
+        keypoints.right_hip,
+        keypoints.left_shoulder,
+        keypoints.right_shoulder,
+      ]),
+    };
+  }
+
+  /**
+   * Calculate elbow height above the shoulder in torso lengths
+   */
+  private calculateElbowHeight(
+    keypoints: Record<KeypointName, Keypoint>,
+    side: 'left' | 'right'
+  ): Measurement {
+    const shoulder = keypoints[`${side}_shoulder` as KeypointName];
+    const elbow = keypoints[`${side}_elbow` as KeypointName];
+
+    if (!this.areKeypointsVisible([shoulder, elbow]) || this.bodyScale <= 0) {
+      return UNKNOWN;
+    }
+
+    return {
+      value:
+        (this.calculateUpPosition(elbow) - this.calculateUpPosition(shoulder)) /
+        this.bodyScale,
+      confidence: this.averageConfidence([shoulder, elbow]),
+    };
+  }
+
+  /**
+   * Calculate left minus right heights and joint angles
+   */
+  private calculateSymmetryMetrics(
+    keypoints: Record<KeypointName, Keypoint>,
+    angles: {
+      values: JointAngles;
+      confidence: FeatureConfidence<JointAngles>;
+    }
+  ): Record<keyof SymmetryMetrics, Measurement> {
+    const angleDifference = (
+      left: keyof JointAngles,
+      right: keyof JointAngles
+    ): Measurement => {
+      const leftValue = angles.values[left];
+      const rightValue = angles.values[right];
+      if (leftValue === null || rightValue === null) {
+        return UNKNOWN;
+      }
       return {
-        bodyLineAngle: 0,
-        hipHeight: 0,
-        shoulderHeight: 0,
+        value: leftValue - rightValue,
+        confidence: Math.min(angles.confidence[left], angles.confidence[right]),
       };
+    };
+
+    return {
+      shoulderHeightDifference: this.calculateHeightDifference(
+        keypoints.left_shoulder,
+        keypoints.right_shoulder
+      ),
+      hipHeightDifference: this.calculateHeightDifference(
+        keypoints.left_hip,
+        keypoints.right_hip
+      ),
+      hipAngleDifference: angleDifference('leftHip', 'rightHip'),
+      kneeAngleDifference: angleDifference('leftKnee', 'rightKnee'),
+      shoulderAngleDifference: angleDifference('leftShoulder', 'rightShoulder'),
+      elbowAngleDifference: angleDifference('leftElbow', 'rightElbow'),
+    };
+  }
+
+  /**
+   * Calculate how far the left keypoint sits above the right, torso lengths
+   */
+  private calculateHeightDifference(
+    left: Keypoint,
+    right: Keypoint
+  ): Measurement {
+    if (!this.areKeypointsVisible([left, right]) || this.bodyScale <= 0) {
+      return UNKNOWN;
     }
 
     return {
-      bodyLineAngle: (bodyLineAngle - this.previousFeatures.bodyLineAngle) / timeDiff,
-      hipHeight: (positions.hipHeight - this.previousFeatures.positions.hipHeight) / timeDiff,
-      shoulderHeight: (positions.shoulderHeight - this.previousFeatures.positions.shoulderHeight) / timeDiff,
+      value:
+        (this.calculateUpPosition(left) - this.calculateUpPosition(right)) /
+        this.bodyScale,
+      confidence: Math.min(left.confidence, right.confidence),
     };
   }
 
+  /**
+   * Position of a keypoint along the upward (anti-gravity) direction, pixels
+   */
+  private calculateUpPosition(keypoint: Keypoint): number {
+    const tilt = this.config.cameraTiltDeg * (Math.PI / 180);
+    return keypoint.x * Math.sin(tilt) - keypoint.y * Math.cos(tilt);
+  }
+
+  /**
+   * Position of a keypoint along the level image x axis, pixels
+   */
+  private calculateAcrossPosition(keypoint: Keypoint): number {
+    const tilt = this.config.cameraTiltDeg * (Math.PI / 180);
+    return keypoint.x * Math.cos(tilt) + keypoint.y * Math.sin(tilt);
+  }
+
+  /**
+   * Split named measurements into values and confidences
+   */
+  private splitMeasurements<K extends string>(
+    measurements: Record<K, Measurement>
+  ): {
+    values: Record<K, number | null>;
+    confidence: FeatureConfidence<Record<K, number | null>>;
+  } {
+    const values = {} as Record<K, number | null>;
+    const confidence = {} as Record<K, number>;
+
+    (Object.keys(measurements) as K[]).forEach(name => {
+      values[name] = measurements[name].value;
+      confidence[name] = measurements[name].confidence;
+    });
+    return { values, confidence };
+  }
+
+  /**
+   * Last valid value of a feature, if recent enough to build on
+   */
+  private getRecentSample(key: string, timestamp: number): ValidSample | null {
+    const sample = this.lastValid.get(key);
+    if (!sample || timestamp - sample.timestamp > this.config.maxSampleGapMs) {
+      return null;
+    }
+    return sample;
+  }
+
+  /**
+   * Exponential smoothing that skips invalid samples
+   * Unknown stays unknown; a valid value after a long gap starts afresh
+   */
+  private smoothMeasurement(
+    key: string,
+    value: number | null,
+    timestamp: number
+  ): number | null {
+    if (value === null || this.config.smoothingFactor <= 0) {
+      return value;
+    }
+
+    const previous = this.getRecentSample(key, timestamp);
+    if (!previous) {
+      return value;
+    }
+    return this.smoothValue(value, previous.value, this.smoothingFactor);
+  }
+
+  /**
+   * Calculate velocity (change per second) against the last valid sample
+   * 0 when either sample is missing, so unknown values never read as motion
+   */
+  private calculateVelocity(
+    key: string,
+    value: number | null,
+    timestamp: number
+  ): number {
+    const previous = this.getRecentSample(key, timestamp);
+    if (value === null || !previous) {
+      return 0;
+    }
+
+    // Pose timestamps, so recorded traces replay with their original timing
+    const timeDiff = (timestamp - previous.timestamp) / 1000; // seconds
+    if (timeDiff <= 0) {
+      return 0;
+    }
+
+    return (value - previous.value) / timeDiff;
+  }
+
+  /**
+   * Rate of change (per second) over the last stabilityWindowMs: the
+   * least-squares slope through the raw samples, so keypoint jitter averages
+   * out where a frame-to-frame difference would read it as motion
+   * 0 until the samples span half the window
+   */
+  private calculateTrend(
+    key: string,
+    value: number | null,
+    timestamp: number
+  ): number {
+    const samples = (this.recentRaw.get(key) ?? []).filter(
+      sample =>
+        sample.timestamp < timestamp &&
+        timestamp - sample.timestamp < this.config.stabilityWindowMs
+    );
+    if (value !== null) {
+      samples.push({ value, timestamp });
+    }
+    this.recentRaw.set(key, samples);
+    const first = samples[0];
+    if (
+      !first ||
+      timestamp - first.timestamp < this.config.stabilityWindowMs / 2
+    ) {
+      return 0;
+    }
+
+    const n = samples.length;
+    const seconds = samples.map(
+      sample => (sample.timestamp - timestamp) / 1000
+    );
+    const meanT = seconds.reduce((sum, t) => sum + t, 0) / n;
+    const meanValue =
+      samples.reduce((sum, sample) => sum + sample.value, 0) / n;
+    let spread = 0;
+    let covariance = 0;
+    samples.forEach((sample, i) => {
+      spread += (seconds[i]! - meanT) ** 2;
+      covariance += (seconds[i]! - meanT) * (sample.value - meanValue);
+    });
+    return spread > 0 ? covariance / spread : 0;
+  }
+
+  /**
+   * Keep the valid values of this frame for smoothing and velocity
+   */
+  private rememberValid(features: Features): void {
+    const values: [string, number | null][] = [
+      ['bodyLineAngle', features.bodyLineAngle],
+      ...Object.entries(features.angles).map(
+        ([name, value]): [string, number | null] => [`angles.${name}`, value]
+      ),
+      ...Object.entries(features.positions).map(
+        ([name, value]): [string, number | null] => [`positions.${name}`, value]
+      ),
+    ];
+
+    values.forEach(([key, value]) => {
+      if (value !== null) {
+        this.lastValid.set(key, { value, timestamp: features.timestamp });
+      }
+    });
+  }
+
   /**
    * Calculate stability metrics
    */
-  private calculateStability(velocity: any) {
-    const isMoving = Math.abs(velocity.bodyLineAngle) > this.config.motionThreshold ||
-                    Math.abs(velocity.hipHeight) > this.config.motionThreshold ||
-                    Math.abs(velocity.shoulderHeight) > this.config.motionThreshold;
+  private calculateStability(trend: Features['velocity']) {
+    const { angularMotionThreshold, linearMotionThreshold } = this.config;
 
-    // Simple stability score based on velocity magnitude
-    const maxVelocity = Math.max(
-      Math.abs(velocity.bodyLineAngle),
-      Math.abs(velocity.hipHeight),
-      Math.abs(velocity.shoulderHeight)
+    // Each trend as a multiple of its own motion threshold
+    const motion = Math.max(
+      Math.abs(trend.bodyLineAngle) / angularMotionThreshold,
+      Math.abs(trend.hipHeight) / linearMotionThreshold,
+      Math.abs(trend.shoulderHeight) / linearMotionThreshold
     );
-    const stabilityScore = Math.max(0, 1 - (maxVelocity / (this.config.motionThreshold * 2)));
+    const isMoving = motion > 1;
+
+    // Simple stability score based on velocity magnitude
+    const stabilityScore = Math.max(0, 1 - motion / 2);
 
     return {
       isStable: !isMoving,
@@ -342,58 +973,55 @@ export class FeatureEngine {
 
     const overall = visibleKeypoints.length / keypointNames.length;
 
-    // Critical points for different stretches (can be customized)
-    const criticalPoints = ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip', 'left_ankle', 'right_ankle'];
-    const criticalVisibility = criticalPoints.reduce((sum, point) => {
-      return sum + (keypoints[point as KeypointName]?.confidence || 0);
-    }, 0) / criticalPoints.length;
-
     return {
       overall,
       criticalPoints: {
-        shoulders: (keypoints.left_shoulder.confidence + keypoints.right_shoulder.confidence) / 2,
-        hips: (keypoints.left_hip.confidence + keypoints.right_hip.confidence) / 2,
-        ankles: (keypoints.left_ankle.confidence + keypoints.right_ankle.confidence) / 2,
+        shoulders:
+          (keypoints.left_shoulder.confidence +
+            keypoints.right_shoulder.confidence) /
+          2,
+        hips:
+          (keypoints.left_hip.confidence + keypoints.right_hip.confidence) / 2,
+        ankles:
+          (keypoints.left_ankle.confidence + keypoints.right_ankle.confidence) /
+          2,
       },
       hasMinimumVisibility: overall >= 0.5,
     };
   }
 
   /**
-   * Apply exponential moving average smoothing
+   * Smooth a value using exponential moving average
    */
-  private applySmoothing(features: Features) {
-    if (!this.previousFeatures) return;
-
-    const alpha = this.smoothingFactor;
-    const prev = this.previousFeatures;
-
-    // Smooth angles
-    features.angles.leftHip = this.smoothValue(features.angles.leftHip, prev.angles.leftHip, alpha);
-    features.angles.rightHip = this.smoothValue(features.angles.rightHip, prev.angles.rightHip, alpha);
-    features.angles.leftKnee = this.smoothValue(features.angles.leftKnee, prev.angles.leftKnee, alpha);
-    features.angles.rightKnee = this.smoothValue(features.angles.rightKnee, prev.angles.rightKnee, alpha);
-    features.angles.leftShoulder = this.smoothValue(features.angles.leftShoulder, prev.angles.leftShoulder, alpha);
-    features.angles.rightShoulder = this.smoothValue(features.angles.rightShoulder, prev.angles.rightShoulder, alpha);
-    features.angles.leftElbow = this.smoothValue(features.angles.leftElbow, prev.angles.leftElbow, alpha);
-    features.angles.rightElbow = this.smoothValue(features.angles.rightElbow, prev.angles.rightElbow, alpha);
-    features.angles.neck = this.smoothValue(features.angles.neck, prev.angles.neck, alpha);
-
-    // Smooth body line
-    features.bodyLineAngle = this.smoothValue(features.bodyLineAngle, prev.bodyLineAngle, alpha);
+  private smoothValue(
+    current: number,
+    previous: number,
+    alpha: number
+  ): number {
+    return alpha * current + (1 - alpha) * previous;
   }
 
   /**
-   * Smooth a value using exponential moving average
+   * Angle of a vector from straight down (gravity), in degrees (-180, 180]
+   * Image vertical is corrected by the camera tilt, so a leaning phone
+   * doesn't read as a leaning body
    */
-  private smoothValue(current: number, previous: number, alpha: number): number {
-    return alpha * current + (1 - alpha) * previous;
+  private calculateAngleFromVertical(v: { x: number; y: number }): number {
+    const imageAngle = Math.atan2(v.x, v.y) * (180 / Math.PI);
+    const angle = imageAngle + this.config.cameraTiltDeg;
+
+    if (angle > 180) return angle - 360;
+    if (angle <= -180) return angle + 360;
+    return angle;
   }
 
   /**
    * Calculate angle between two vectors
    */
-  private calculateAngleBetweenVectors(v1: { x: number; y: number }, v2: { x: number; y: number }): number {
+  private calculateAngleBetweenVectors(
+    v1: { x: number; y: number },
+    v2: { x: number; y: number }
+  ): number {
     const dot = v1.x * v2.x + v1.y * v2.y;
     const mag1 = Math.sqrt(v1.x * v1.x + v1.y * v1.y);
     const mag2 = Math.sqrt(v2.x * v2.x + v2.y * v2.y);
@@ -413,22 +1041,45 @@ export class FeatureEngine {
   }
 
   /**
-   * Calculate average Y position of keypoints
+   * Mean confidence of the keypoints behind a measurement
+   */
+  private averageConfidence(keypoints: Keypoint[]): number {
+    if (keypoints.length === 0) return 0;
+    return (
+      keypoints.reduce((sum, kp) => sum + kp.confidence, 0) / keypoints.length
+    );
+  }
+
+  /**
+   * Measure the body line on one side only (null: the more visible side)
+   * A lifted leg bends the line, so one-legged stretches pass the other one
    */
-  private averageY(keypoints: Keypoint[]): number {
-    const visible = keypoints.filter(kp => kp.confidence >= 0.6);
-    if (visible.length === 0) return 0;
-    
-    const sum = visible.reduce((acc, kp) => acc + kp.y, 0);
-    return sum / visible.length;
+  setBodyLineSide(side: 'left' | 'right' | null): void {
+    if (side === this.bodyLineSide) {
+      return;
+    }
+    this.bodyLineSide = side;
+    // A different line, not a moving one: don't smooth or difference across
+    this.lastValid.delete('bodyLineAngle');
+    this.recentRaw.delete('bodyLineAngle');
   }
 
   /**
    * Update configuration
    */
   updateConfig(newConfig: Partial<FeatureConfig>): void {
+    const tiltChanged =
+      newConfig.cameraTiltDeg !== undefined &&
+      newConfig.cameraTiltDeg !== this.config.cameraTiltDeg;
+
     this.config = { ...this.config, ...newConfig };
     this.smoothingFactor = this.config.smoothingFactor;
+
+    // A re-levelled frame, not a moving body: don't smooth or difference across
+    if (tiltChanged) {
+      this.lastValid.clear();
+      this.recentRaw.clear();
+    }
   }
 
   /**
@@ -442,6 +1093,8 @@ export class FeatureEngine {
    * Reset previous features (useful for new sessions)
    */
   reset(): void {
-    this.previousFeatures = null;
+    this.lastValid.clear();
+    this.recentRaw.clear();
+    this.bodyScale = 0;
   }
 }
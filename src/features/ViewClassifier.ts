@@ -0,0 +1,261 @@
+/**
+ * ViewClassifier - Tells side-on, front-on and three-quarter views apart
+ * Estimates body yaw from shoulder/hip widths and the nose between the ears
+ */
+
+import { CameraView, Keypoint, KeypointName } from '../types';
+import { POSE_CONFIG } from '../config/constants';
+
+export interface ViewClassifierConfig {
+  minKeypointConfidence: number;
+  shoulderWidth: number; // Front-on shoulder span in torso lengths
+  hipWidth: number; // Front-on hip span in torso lengths
+  frontMaxYawDeg: number; // Yaw below this is a front view
+  sideMinYawDeg: number; // Yaw above this is a side view
+  marginDeg: number; // Yaw this far inside a class gives full confidence
+}
+
+/**
+ * View of one frame; yawDeg is 0 facing the camera and 90 side-on
+ */
+export interface ViewEstimate {
+  view: CameraView | null;
+  confidence: number;
+  yawDeg: number | null;
+}
+
+/**
+ * One cue's yaw estimate and the confidence behind it
+ */
+interface YawCue {
+  yawDeg: number;
+  confidence: number;
+}
+
+export type BodyPair = 'shoulders' | 'hips';
+
+const PAIR_KEYPOINTS: Record<BodyPair, [KeypointName, KeypointName]> = {
+  shoulders: ['left_shoulder', 'right_shoulder'],
+  hips: ['left_hip', 'right_hip'],
+};
+
+const UNKNOWN_VIEW: ViewEstimate = { view: null, confidence: 0, yawDeg: null };
+const DEGREES = 180 / Math.PI;
+
+export class ViewClassifier {
+  private config: ViewClassifierConfig;
+
+  constructor(config?: Partial<ViewClassifierConfig>) {
+    this.config = {
+      minKeypointConfidence: POSE_CONFIG.VISIBILITY_THRESHOLD,
+      shoulderWidth: 0.8,
+      hipWidth: 0.4,
+      frontMaxYawDeg: 25,
+      sideMinYawDeg: 65,
+      marginDeg: 10,
+      ...config,
+    };
+  }
+
+  /**
+   * Classify the view of one frame
+   * bodyScale is the torso length in pixels (0 when unknown)
+   */
+  classify(
+    keypoints: Record<KeypointName, Keypoint>,
+    bodyScale: number
+  ): ViewEstimate {
+    const cues = [
+      this.estimateBodyYaw(keypoints, bodyScale),
+      this.estimateFaceYaw(keypoints),
+    ].filter((cue): cue is YawCue => cue !== null);
+
+    const totalConfidence = cues.reduce((sum, cue) => sum + cue.confidence, 0);
+    if (totalConfidence === 0) {
+      return UNKNOWN_VIEW;
+    }
+
+    const yawDeg =
+      cues.reduce((sum, cue) => sum + cue.yawDeg * cue.confidence, 0) /
+      totalConfidence;
+    const { frontMaxYawDeg, sideMinYawDeg, marginDeg } = this.config;
+
+    let view: CameraView;
+    let margin: number;
+    if (yawDeg < frontMaxYawDeg) {
+      view = 'front';
+      margin = frontMaxYawDeg - yawDeg;
+    } else if (yawDeg > sideMinYawDeg) {
+      view = 'side';
+      margin = yawDeg - sideMinYawDeg;
+    } else {
+      view = 'three_quarter';
+      margin = Math.min(yawDeg - frontMaxYawDeg, sideMinYawDeg - yawDeg);
+    }
+
+    // Near a class boundary, or with the cues disagreeing, trust it less
+    const spread =
+      Math.max(...cues.map(cue => cue.yawDeg)) -
+      Math.min(...cues.map(cue => cue.yawDeg));
+    const certainty =
+      Math.min(0.5 + margin / (2 * marginDeg), 1) *
+      (spread > sideMinYawDeg - frontMaxYawDeg ? 0.5 : 1);
+
+    return {
+      view,
+      confidence: (totalConfidence / cues.length) * certainty,
+      yawDeg,
+    };
+  }
+
+  /**
+   * Yaw from how wide the shoulders and hips look relative to the torso
+   * A side-on body shows both shoulders (and both hips) in one place
+   */
+  private estimateBodyYaw(
+    keypoints: Record<KeypointName, Keypoint>,
+    bodyScale: number
+  ): YawCue | null {
+    const cues = (['shoulders', 'hips'] as const)
+      .map(pair => ({
+        yawDeg: this.estimatePairYaw(pair, keypoints, bodyScale),
+        confidence: this.pairConfidence(pair, keypoints),
+      }))
+      .filter((cue): cue is YawCue => cue.yawDeg !== null);
+
+    if (cues.length === 0) {
+      return null;
+    }
+
+    return {
+      yawDeg: cues.reduce((sum, cue) => sum + cue.yawDeg, 0) / cues.length,
+      confidence:
+        cues.reduce((sum, cue) => sum + cue.confidence, 0) / cues.length,
+    };
+  }
+
+  /**
+   * Yaw of the shoulder or hip line alone, in degrees (0 = square to the
+   * camera); null when either keypoint or the body scale is missing
+   */
+  estimatePairYaw(
+    pair: BodyPair,
+    keypoints: Record<KeypointName, Keypoint>,
+    bodyScale: number
+  ): number | null {
+    const [leftName, rightName] = PAIR_KEYPOINTS[pair];
+    const left = keypoints[leftName];
+    const right = keypoints[rightName];
+    if (bodyScale <= 0 || !this.isVisible(left) || !this.isVisible(right)) {
+      return null;
+    }
+
+    const frontWidth =
+      pair === 'shoulders' ? this.config.shoulderWidth : this.config.hipWidth;
+    const ratio =
+      this.measureWidth(left, right, keypoints) / bodyScale / frontWidth;
+    return Math.acos(Math.min(ratio, 1)) * DEGREES;
+  }
+
+  /**
+   * Span of a left/right pair across the torso, in pixels
+   * Only the part square to the spine counts, so a one-sided shrug doesn't
+   * read as the body turning; without a torso axis it's the plain distance
+   */
+  private measureWidth(
+    left: Keypoint,
+    right: Keypoint,
+    keypoints: Record<KeypointName, Keypoint>
+  ): number {
+    const span = { x: right.x - left.x, y: right.y - left.y };
+    const {
+      left_shoulder: leftShoulder,
+      right_shoulder: rightShoulder,
+      left_hip: leftHip,
+      right_hip: rightHip,
+    } = keypoints;
+    if (
+      ![leftShoulder, rightShoulder, leftHip, rightHip].every(keypoint =>
+        this.isVisible(keypoint)
+      )
+    ) {
+      return Math.hypot(span.x, span.y);
+    }
+
+    const axis = {
+      x: (leftShoulder.x + rightShoulder.x - leftHip.x - rightHip.x) / 2,
+      y: (leftShoulder.y + rightShoulder.y - leftHip.y - rightHip.y) / 2,
+    };
+    const length = Math.hypot(axis.x, axis.y);
+    if (length === 0) {
+      return Math.hypot(span.x, span.y);
+    }
+
+    return Math.abs(span.x * axis.y - span.y * axis.x) / length;
+  }
+
+  /**
+   * Mean confidence of a shoulder or hip pair
+   */
+  private pairConfidence(
+    pair: BodyPair,
+    keypoints: Record<KeypointName, Keypoint>
+  ): number {
+    const [left, right] = PAIR_KEYPOINTS[pair];
+    return (keypoints[left].confidence + keypoints[right].confidence) / 2;
+  }
+
+  /**
+   * Yaw from how far the nose sits across from the middle of the ears,
+   * relative to half the ear span; a single visible ear means the head is
+   * side-on
+   */
+  private estimateFaceYaw(
+    keypoints: Record<KeypointName, Keypoint>
+  ): YawCue | null {
+    const { nose, left_ear: leftEar, right_ear: rightEar } = keypoints;
+    if (!this.isVisible(nose)) {
+      return null;
+    }
+
+    if (!this.isVisible(leftEar) || !this.isVisible(rightEar)) {
+      const ear = this.isVisible(leftEar) ? leftEar : rightEar;
+      if (!this.isVisible(ear)) {
+        return null;
+      }
+      return { yawDeg: 90, confidence: (nose.confidence + ear.confidence) / 4 };
+    }
+
+    // Horizontal only: a head tipped down drops the nose below the ears
+    // without turning it. Side-on, the span shrinks to nothing (90 degrees)
+    const halfSpan = Math.abs(rightEar.x - leftEar.x) / 2;
+    const offset = Math.abs(nose.x - (leftEar.x + rightEar.x) / 2);
+
+    return {
+      yawDeg: Math.atan2(offset, halfSpan) * DEGREES,
+      confidence:
+        (nose.confidence + leftEar.confidence + rightEar.confidence) / 3,
+    };
+  }
+
+  /**
+   * Confident enough to measure with
+   */
+  private isVisible(keypoint: Keypoint): boolean {
+    return keypoint.confidence >= this.config.minKeypointConfidence;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<ViewClassifierConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ViewClassifierConfig {
+    return { ...this.config };
+  }
+}
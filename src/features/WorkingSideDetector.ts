@@ -0,0 +1,349 @@
+/**
+ * WorkingSideDetector - Works out which limb a one-sided stretch is using
+ * Averages per-stretch left/right evidence and confirms side switches
+ */
+
+import {
+  Features,
+  Keypoint,
+  Pose,
+  StretchType,
+  WorkingSideChange,
+  WorkingSideEstimate,
+} from '../types';
+import { POSE_CONFIG } from '../config/constants';
+
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+export interface WorkingSideConfig {
+  evidenceWindowMs: number; // Time constant of the evidence average
+  minConfidence: number; // Evidence needed to pick a side or switch
+  switchConfirmMs: number; // The other side must lead this long to switch
+  minKeypointConfidence: number;
+}
+
+export class WorkingSideDetector {
+  private config: WorkingSideConfig;
+  private stretchType: StretchType;
+  private evidence = 0; // 1 = surely left, -1 = surely right
+  private lastTimestamp: number | null = null;
+  private side: 'left' | 'right' | null = null;
+  private challengerSince: number | null = null;
+  private changeCallbacks: Set<(change: WorkingSideChange) => void> = new Set();
+
+  constructor(stretchType: StretchType, config?: Partial<WorkingSideConfig>) {
+    this.stretchType = stretchType;
+    this.config = {
+      evidenceWindowMs: 1000,
+      minConfidence: 0.5,
+      switchConfirmMs: 1500,
+      minKeypointConfidence: POSE_CONFIG.VISIBILITY_THRESHOLD,
+      ...config,
+    };
+  }
+
+  /**
+   * Add one frame of evidence and return the current working side
+   * Frames without evidence (or bilateral stretches) leave the side as is
+   */
+  update(pose: Pose, features: Features): WorkingSideEstimate {
+    const timestamp = features.timestamp;
+    const sample = this.measureEvidence(pose, features);
+
+    if (sample !== null) {
+      const dt =
+        this.lastTimestamp === null ? 0 : timestamp - this.lastTimestamp;
+      const alpha =
+        1 - Math.exp(-Math.max(dt, 0) / this.config.evidenceWindowMs);
+      this.evidence += alpha * (sample - this.evidence);
+      this.lastTimestamp = timestamp;
+    }
+
+    const switched = this.updateSide(timestamp);
+
+    return {
+      side: this.side,
+      confidence: Math.abs(this.evidence),
+      switched,
+      timestamp,
+    };
+  }
+
+  /**
+   * Pick a side once the evidence is clear; switch only when the other side
+   * has led for switchConfirmMs. Returns true on a switch
+   */
+  private updateSide(timestamp: number): boolean {
+    const confidence = Math.abs(this.evidence);
+    const leader = this.evidence > 0 ? 'left' : 'right';
+
+    if (confidence < this.config.minConfidence || leader === this.side) {
+      this.challengerSince = null;
+      return false;
+    }
+
+    if (this.side !== null) {
+      this.challengerSince ??= timestamp;
+      if (timestamp - this.challengerSince < this.config.switchConfirmMs) {
+        return false;
+      }
+    }
+
+    const change: WorkingSideChange = {
+      from: this.side,
+      to: leader,
+      confidence,
+      timestamp,
+    };
+    this.side = leader;
+    this.challengerSince = null;
+    this.notifyChange(change);
+    return change.from !== null;
+  }
+
+  /**
+   * One frame's evidence from -1 (right) to 1 (left), null if there is none
+   */
+  private measureEvidence(pose: Pose, features: Features): number | null {
+    const { angles, positions, posture, bodyScale } = features;
+    const { keypoints } = pose;
+    let cues: (number | null)[];
+
+    switch (this.stretchType) {
+      case 'hamstring':
+        // Working leg reaches forward on its heel, toes up, maybe on a step
+        cues = [
+          this.compareForward(
+            keypoints.left_ankle,
+            keypoints.right_ankle,
+            pose,
+            bodyScale,
+            0.3
+          ),
+          this.compare(posture.leftDorsiflexion, posture.rightDorsiflexion, 15),
+          this.compare(
+            positions.leftAnkleHeight,
+            positions.rightAnkleHeight,
+            0.3
+          ),
+        ];
+        break;
+      case 'quad':
+        // The grabbed ankle is up by the glutes with the knee fully bent
+        cues = [
+          this.compare(
+            positions.leftAnkleHeight,
+            positions.rightAnkleHeight,
+            0.5
+          ),
+          this.compare(angles.rightKnee, angles.leftKnee, 60),
+        ];
+        break;
+      case 'calf':
+        // Working leg is the straight one behind, heel down
+        cues = [
+          this.compareForward(
+            keypoints.right_ankle,
+            keypoints.left_ankle,
+            pose,
+            bodyScale,
+            0.3
+          ),
+          this.compare(posture.leftDorsiflexion, posture.rightDorsiflexion, 15),
+        ];
+        break;
+      case 'shoulder_cross':
+        // Working arm is lifted to shoulder height and crosses the body
+        cues = [
+          this.compare(posture.leftElbowHeight, posture.rightElbowHeight, 0.3),
+          this.compareCrossing(keypoints, bodyScale),
+        ];
+        break;
+      default:
+        return null;
+    }
+
+    const available = cues.filter((cue): cue is number => cue !== null);
+    if (available.length === 0) {
+      return null;
+    }
+    // Agreeing cues add up; a cue that can't tell the sides apart adds nothing
+    return clampUnit(available.reduce((a, b) => a + b, 0));
+  }
+
+  /**
+   * Left minus right over a scale, clamped to [-1, 1]
+   */
+  private compare(
+    left: number | null,
+    right: number | null,
+    scale: number
+  ): number | null {
+    if (left === null || right === null) {
+      return null;
+    }
+    return clampUnit((left - right) / scale);
+  }
+
+  /**
+   * How far the first keypoint is in front of the second, in torso lengths
+   * over a scale; "front" is the way the nose points from the ears
+   */
+  private compareForward(
+    first: Keypoint,
+    second: Keypoint,
+    pose: Pose,
+    bodyScale: number,
+    scale: number
+  ): number | null {
+    const facing = this.findFacing(pose);
+    if (
+      facing === null ||
+      bodyScale <= 0 ||
+      !this.isVisible(first) ||
+      !this.isVisible(second)
+    ) {
+      return null;
+    }
+    return clampUnit(((first.x - second.x) * facing) / bodyScale / scale);
+  }
+
+  /**
+   * How far each wrist reaches across the body past the shoulder midline,
+   * in half shoulder widths; only front-on, where the shoulders are apart
+   */
+  private compareCrossing(
+    keypoints: Pose['keypoints'],
+    bodyScale: number
+  ): number | null {
+    const {
+      left_shoulder: leftShoulder,
+      right_shoulder: rightShoulder,
+      left_wrist: leftWrist,
+      right_wrist: rightWrist,
+    } = keypoints;
+    if (
+      bodyScale <= 0 ||
+      ![leftShoulder, rightShoulder, leftWrist, rightWrist].every(keypoint =>
+        this.isVisible(keypoint)
+      )
+    ) {
+      return null;
+    }
+
+    const halfWidth = (rightShoulder.x - leftShoulder.x) / 2;
+    if (Math.abs(halfWidth) < 0.15 * bodyScale) {
+      return null;
+    }
+
+    // Positive once a wrist is past the midline towards the other shoulder
+    const midline = (leftShoulder.x + rightShoulder.x) / 2;
+    const leftCross = (leftWrist.x - midline) / halfWidth;
+    const rightCross = (midline - rightWrist.x) / halfWidth;
+    return this.compare(leftCross, rightCross, 1);
+  }
+
+  /**
+   * Image x direction the face points: +1, -1, or null if unclear
+   */
+  private findFacing(pose: Pose): 1 | -1 | null {
+    const { nose, left_ear: leftEar, right_ear: rightEar } = pose.keypoints;
+    const ears = [leftEar, rightEar].filter(ear => this.isVisible(ear));
+    if (!this.isVisible(nose) || ears.length === 0) {
+      return null;
+    }
+
+    const earX = ears.reduce((sum, ear) => sum + ear.x, 0) / ears.length;
+    if (nose.x === earX) {
+      return null;
+    }
+    return nose.x > earX ? 1 : -1;
+  }
+
+  /**
+   * Confident enough to measure with
+   */
+  private isVisible(keypoint: Keypoint): boolean {
+    return keypoint.confidence >= this.config.minKeypointConfidence;
+  }
+
+  /**
+   * Current working side, null until detected
+   */
+  getSide(): 'left' | 'right' | null {
+    return this.side;
+  }
+
+  /**
+   * Side of the leg left standing on, null until the working side is known
+   */
+  getSupportSide(): 'left' | 'right' | null {
+    if (!this.side) {
+      return null;
+    }
+    return this.side === 'left' ? 'right' : 'left';
+  }
+
+  /**
+   * Detect for a different stretch (forgets the current side)
+   */
+  setStretch(stretchType: StretchType): void {
+    this.stretchType = stretchType;
+    this.reset();
+  }
+
+  /**
+   * Add side change callback
+   */
+  addChangeCallback(callback: (change: WorkingSideChange) => void): void {
+    this.changeCallbacks.add(callback);
+  }
+
+  /**
+   * Remove side change callback
+   */
+  removeChangeCallback(callback: (change: WorkingSideChange) => void): void {
+    this.changeCallbacks.delete(callback);
+  }
+
+  /**
+   * Notify side change callbacks
+   */
+  private notifyChange(change: WorkingSideChange): void {
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(change);
+      } catch (error) {
+        console.error('Error in working side callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<WorkingSideConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): WorkingSideConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Forget the evidence and the side (new stretch or new session)
+   */
+  reset(): void {
+    this.evidence = 0;
+    this.lastTimestamp = null;
+    this.side = null;
+    this.challengerSince = null;
+  }
+}
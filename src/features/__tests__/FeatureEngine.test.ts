@@ -0,0 +1,230 @@
+/**
+ * FeatureEngine tests
+ * Hand-placed keypoints on a side-on body with a 100 px torso, facing right
+ */
+
+import { describe, expect, it } from 'vitest';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import { KeypointName, Pose, PostureMetrics } from '../../types';
+import { FeatureEngine } from '../FeatureEngine';
+
+type Points = Partial<Record<KeypointName, [number, number]>>;
+
+const SIDE_ON: Points = {
+  nose: [320, 75],
+  left_ear: [300, 70],
+  left_shoulder: [300, 100],
+  left_elbow: [300, 150],
+  left_hip: [300, 200],
+  left_knee: [300, 300],
+  left_ankle: [300, 400],
+  left_heel: [290, 400],
+  left_toe: [340, 400],
+};
+
+/**
+ * Pose with the given keypoints seen clearly, except the low confidence
+ * ones; every other keypoint is missing
+ */
+function createPose(points: Points, lowConfidence: KeypointName[] = []): Pose {
+  const keypoints = {} as Pose['keypoints'];
+  KEYPOINT_NAMES.forEach(name => {
+    const point = points[name];
+    keypoints[name] = point
+      ? {
+          x: point[0],
+          y: point[1],
+          confidence: lowConfidence.includes(name) ? 0.4 : 0.9,
+        }
+      : { x: 0, y: 0, confidence: 0 };
+  });
+
+  return { keypoints, timestamp: 1000, frameId: 'frame_1', visibilityScore: 1 };
+}
+
+/**
+ * One posture metric and its confidence for a single pose
+ */
+function measure(
+  metric: keyof PostureMetrics,
+  points: Points,
+  lowConfidence: KeypointName[] = []
+): { value: number | null; confidence: number } {
+  const { data } = new FeatureEngine().calculateFeatures(
+    createPose(points, lowConfidence)
+  );
+  return {
+    value: data!.posture[metric],
+    confidence: data!.postureConfidence[metric],
+  };
+}
+
+const degrees = (radians: number) => radians * (180 / Math.PI);
+
+/**
+ * Stability of each frame of a 12 FPS stream; offsetAt moves the hips (and
+ * everything above them) at each frame
+ */
+function streamStability(
+  offsetAt: (frame: number) => number
+): { isStable: boolean; motionGate: boolean }[] {
+  const engine = new FeatureEngine();
+  return Array.from({ length: 36 }, (_, frame) => {
+    const offset = offsetAt(frame);
+    const points: Points = Object.fromEntries(
+      Object.entries(SIDE_ON).map(([name, [x, y]]) => [
+        name,
+        [
+          x,
+          name.includes('knee') ||
+          name.includes('ankle') ||
+          name.includes('heel') ||
+          name.includes('toe')
+            ? y
+            : y + offset,
+        ],
+      ])
+    );
+    const pose = createPose(points);
+    pose.timestamp = 1000 + (frame * 1000) / 12;
+    const { stability } = engine.calculateFeatures(pose).data!;
+    return {
+      isStable: stability.isStable,
+      motionGate: stability.motionGate,
+    };
+  });
+}
+
+describe('FeatureEngine', () => {
+  it('reads a shin square to the foot as no dorsiflexion', () => {
+    expect(measure('leftDorsiflexion', SIDE_ON)).toEqual({
+      value: 0,
+      confidence: 0.9,
+    });
+  });
+
+  it('reads a shin leaning over the toes as dorsiflexion', () => {
+    const { value } = measure('leftDorsiflexion', {
+      ...SIDE_ON,
+      left_knee: [320, 300],
+    });
+
+    expect(value).toBeCloseTo(degrees(Math.atan2(20, 100)));
+  });
+
+  it('leaves dorsiflexion unknown for an unsure or foreshortened foot', () => {
+    expect(measure('leftDorsiflexion', SIDE_ON, ['left_toe'])).toEqual({
+      value: null,
+      confidence: 0,
+    });
+    expect(
+      measure('leftDorsiflexion', { ...SIDE_ON, left_toe: [310, 400] }).value
+    ).toBeNull();
+    expect(measure('rightDorsiflexion', SIDE_ON).value).toBeNull();
+  });
+
+  it('measures the shoulder against the ear line', () => {
+    expect(measure('leftShoulderElevation', SIDE_ON).value).toBeCloseTo(-0.3);
+    expect(
+      measure('leftShoulderElevation', { ...SIDE_ON, left_ear: [300, 90] })
+        .value
+    ).toBeCloseTo(-0.1);
+  });
+
+  it('leaves shoulder elevation unknown without a sure shoulder and ear', () => {
+    expect(measure('leftShoulderElevation', SIDE_ON, ['left_ear'])).toEqual({
+      value: null,
+      confidence: 0,
+    });
+    expect(
+      measure('leftShoulderElevation', SIDE_ON, ['left_shoulder']).value
+    ).toBeNull();
+    expect(measure('rightShoulderElevation', SIDE_ON).value).toBeNull();
+  });
+
+  it('reads a thigh ahead of the torso as pelvis tilt, whichever way the body faces', () => {
+    const flexedKnee: [number, number] = [
+      100 * Math.sin(Math.PI / 6),
+      200 + 100 * Math.cos(Math.PI / 6),
+    ];
+
+    expect(measure('pelvisTilt', SIDE_ON).value).toBeCloseTo(0);
+    expect(
+      measure('pelvisTilt', {
+        ...SIDE_ON,
+        left_knee: [300 + flexedKnee[0], flexedKnee[1]],
+      }).value
+    ).toBeCloseTo(30);
+    expect(
+      measure('pelvisTilt', {
+        ...SIDE_ON,
+        nose: [280, 75],
+        left_knee: [300 - flexedKnee[0], flexedKnee[1]],
+      }).value
+    ).toBeCloseTo(30);
+  });
+
+  it('leaves pelvis tilt unknown when the facing or the leg is unsure', () => {
+    expect(measure('pelvisTilt', SIDE_ON, ['nose'])).toEqual({
+      value: null,
+      confidence: 0,
+    });
+    expect(measure('pelvisTilt', SIDE_ON, ['left_knee']).value).toBeNull();
+  });
+
+  it('measures how far the hips are turned from the shoulders', () => {
+    // Full-width shoulders (square); hips at half their front-on width (60)
+    const hipY = 100 + Math.sqrt(100 ** 2 - 40 ** 2);
+    const frontOn: Points = {
+      left_shoulder: [250, 100],
+      right_shoulder: [350, 100],
+      left_hip: [290, hipY],
+      right_hip: [310, hipY],
+    };
+
+    expect(measure('hipSquareness', frontOn)).toEqual({
+      value: expect.closeTo(60),
+      confidence: 0.9,
+    });
+    expect(
+      measure('hipSquareness', {
+        ...frontOn,
+        left_hip: [270, hipY],
+        right_hip: [330, hipY],
+      }).value
+    ).toBe(0);
+    expect(measure('hipSquareness', frontOn, ['right_hip']).value).toBeNull();
+    expect(measure('hipSquareness', SIDE_ON).value).toBeNull();
+  });
+
+  it('measures the elbow above the shoulder', () => {
+    expect(measure('leftElbowHeight', SIDE_ON).value).toBeCloseTo(-0.5);
+    expect(
+      measure('leftElbowHeight', { ...SIDE_ON, left_elbow: [350, 60] }).value
+    ).toBeCloseTo(0.4);
+  });
+
+  it('leaves elbow height unknown without a sure elbow or body scale', () => {
+    expect(measure('leftElbowHeight', SIDE_ON, ['left_elbow'])).toEqual({
+      value: null,
+      confidence: 0,
+    });
+    expect(measure('leftElbowHeight', SIDE_ON, ['left_hip']).value).toBeNull();
+    expect(measure('rightElbowHeight', SIDE_ON).value).toBeNull();
+  });
+
+  it('keeps a still pose with a few pixels of keypoint jitter stable', () => {
+    const frames = streamStability(frame => (frame % 2 === 0 ? 3 : -3));
+
+    expect(frames.every(frame => frame.isStable && !frame.motionGate)).toBe(
+      true
+    );
+  });
+
+  it('gates motion while the body moves', () => {
+    // Hips dropping half a torso length a second
+    const frames = streamStability(frame => (frame * 50) / 12);
+
+    expect(frames.slice(12).every(frame => frame.motionGate)).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * ViewClassifier tests
+ * Hand-placed heads and torsos with a 100 px torso
+ */
+
+import { describe, expect, it } from 'vitest';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import { Keypoint, KeypointName } from '../../types';
+import { ViewClassifier } from '../ViewClassifier';
+
+type Points = Partial<Record<KeypointName, [number, number]>>;
+
+/**
+ * Keypoints seen clearly where given, missing elsewhere
+ */
+function createKeypoints(points: Points): Record<KeypointName, Keypoint> {
+  const keypoints = {} as Record<KeypointName, Keypoint>;
+  KEYPOINT_NAMES.forEach(name => {
+    const point = points[name];
+    keypoints[name] = point
+      ? { x: point[0], y: point[1], confidence: 0.9 }
+      : { x: 0, y: 0, confidence: 0 };
+  });
+  return keypoints;
+}
+
+const HEAD_ON: Points = {
+  left_ear: [340, 50],
+  right_ear: [300, 50],
+  nose: [320, 60],
+};
+
+const classify = (points: Points, bodyScale = 0) =>
+  new ViewClassifier().classify(createKeypoints(points), bodyScale);
+
+describe('ViewClassifier', () => {
+  it('sees a face between the ears as front-on, however far it tips', () => {
+    expect(classify(HEAD_ON)).toMatchObject({ view: 'front', yawDeg: 0 });
+    expect(classify({ ...HEAD_ON, nose: [320, 90] })).toMatchObject({
+      view: 'front',
+      yawDeg: 0,
+    });
+  });
+
+  it('turns the face by the nose offset across the ear span', () => {
+    const { view, yawDeg } = classify({ ...HEAD_ON, nose: [340, 60] });
+
+    expect(view).toBe('three_quarter');
+    expect(yawDeg).toBeCloseTo(45);
+  });
+
+  it('sees ears lined up, or a single ear, as side-on', () => {
+    expect(
+      classify({ left_ear: [300, 50], right_ear: [301, 52], nose: [320, 60] })
+        .view
+    ).toBe('side');
+    expect(classify({ left_ear: [300, 50], nose: [320, 60] }).view).toBe(
+      'side'
+    );
+  });
+
+  it('reads yaw from how wide the shoulders and hips look', () => {
+    const torso: Points = {
+      left_shoulder: [360, 100],
+      right_shoulder: [280, 100],
+      left_hip: [340, 200],
+      right_hip: [300, 200],
+    };
+
+    expect(classify(torso, 100)).toMatchObject({ view: 'front', yawDeg: 0 });
+    expect(
+      classify(
+        {
+          left_shoulder: [322, 100],
+          right_shoulder: [318, 100],
+          left_hip: [321, 200],
+          right_hip: [319, 200],
+        },
+        100
+      ).view
+    ).toBe('side');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * WorkingSideDetector tests
+ * Synthetic stretches at 10 FPS, done on one side and then the other
+ */
+
+import { describe, expect, it } from 'vitest';
+import { SyntheticPoseGenerator } from '../../trace/SyntheticPoseGenerator';
+import { StretchType, WorkingSideChange } from '../../types';
+import { FeatureEngine } from '../FeatureEngine';
+import { WorkingSideDetector } from '../WorkingSideDetector';
+
+interface Segment {
+  side: 'left' | 'right';
+  durationMs: number;
+}
+
+/**
+ * Run the stretch through a detector, one segment after the other, and
+ * collect the side changes it reports
+ */
+function detect(stretchType: StretchType, segments: Segment[]) {
+  const detector = new WorkingSideDetector(stretchType);
+  const changes: WorkingSideChange[] = [];
+  detector.addChangeCallback(change => changes.push(change));
+  const engine = new FeatureEngine();
+
+  let startTime = 0;
+  segments.forEach(({ side, durationMs }) => {
+    new SyntheticPoseGenerator({ stretchType, side, fps: 10, startTime })
+      .generate(durationMs)
+      .forEach(pose => {
+        const { data } = engine.calculateFeatures(pose);
+        if (data) {
+          detector.update(pose, data);
+        }
+      });
+    startTime += durationMs;
+  });
+
+  return { detector, changes };
+}
+
+describe('WorkingSideDetector', () => {
+  it.each<[StretchType, 'left' | 'right']>([
+    ['hamstring', 'left'],
+    ['hamstring', 'right'],
+    ['quad', 'left'],
+    ['quad', 'right'],
+    ['calf', 'left'],
+    ['calf', 'right'],
+    ['shoulder_cross', 'left'],
+    ['shoulder_cross', 'right'],
+  ])(
+    'finds the working side of a %s stretch on the %s',
+    (stretchType, side) => {
+      const { detector, changes } = detect(stretchType, [
+        { side, durationMs: 2000 },
+      ]);
+
+      expect(detector.getSide()).toBe(side);
+      expect(detector.getSupportSide()).toBe(
+        side === 'left' ? 'right' : 'left'
+      );
+      expect(changes).toMatchObject([{ from: null, to: side }]);
+    }
+  );
+
+  it('switches once the other side has led for switchConfirmMs', () => {
+    const { changes } = detect('quad', [
+      { side: 'left', durationMs: 3000 },
+      { side: 'right', durationMs: 4000 },
+    ]);
+
+    expect(changes).toMatchObject([
+      { from: null, to: 'left' },
+      { from: 'left', to: 'right' },
+    ]);
+    expect(changes[1]!.timestamp).toBeGreaterThanOrEqual(3000 + 1500);
+  });
+
+  it('rides out a brief swap of sides', () => {
+    const { detector, changes } = detect('quad', [
+      { side: 'left', durationMs: 3000 },
+      { side: 'right', durationMs: 1000 },
+      { side: 'left', durationMs: 2000 },
+    ]);
+
+    expect(detector.getSide()).toBe('left');
+    expect(changes).toHaveLength(1);
+  });
+
+  it('reports the switch in its estimate', () => {
+    const detector = new WorkingSideDetector('quad');
+    const engine = new FeatureEngine();
+    const switches: number[] = [];
+    [
+      new SyntheticPoseGenerator({ stretchType: 'quad', side: 'left' }),
+      new SyntheticPoseGenerator({
+        stretchType: 'quad',
+        side: 'right',
+        startTime: 3000,
+      }),
+    ].forEach(generator =>
+      generator.generate(3000).forEach(pose => {
+        const estimate = detector.update(
+          pose,
+          engine.calculateFeatures(pose).data!
+        );
+        if (estimate.switched) {
+          switches.push(estimate.timestamp);
+        }
+      })
+    );
+
+    // Picking the first side is not a switch
+    expect(switches).toHaveLength(1);
+  });
+
+  it('has no working side in a bilateral stretch', () => {
+    const { detector, changes } = detect('plank', [
+      { side: 'left', durationMs: 2000 },
+    ]);
+
+    expect(detector.getSide()).toBeNull();
+    expect(changes).toEqual([]);
+  });
+
+  it('forgets the side on reset', () => {
+    const { detector } = detect('quad', [{ side: 'right', durationMs: 2000 }]);
+
+    detector.reset();
+
+    expect(detector.getSide()).toBeNull();
+  });
+});
@@ -3,6 +3,573 @@
  * Manages state transitions: WAITING → READY → HOLDING → COACH_ISSUE → COOLDOWN
  */
 
+import {
+  FatigueEstimate,
+  Features,
+  FormIssue,
+  FSMEvent,
+  FSMState,
+  FSMStateData,
+  FSMTransitionEvent,
+  StretchConfig,
+} from '../types';
+import { MotionBuffer } from '../motion/MotionBuffer';
+
+// Type definitions for browser globals in React Native environment
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+// How long visibility may drop before we treat the pose as lost
+const POSE_LOST_GRACE_MS = 500;
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2, critical: 3 } as const;
+
 export class StretchFSM {
-  // TODO: Implement stretch FSM
+  private config: StretchConfig;
+  private motionBuffer: MotionBuffer; // Filled by the caller before update
+  private state: FSMStateData;
+  private activeIssue: FormIssue | null = null;
+  private pendingIssue: FormIssue | null = null;
+  private lostSince: number | null = null;
+  private workingSide: 'left' | 'right' | null = null;
+  private fatigue: FatigueEstimate | null = null;
+  private fatigueReported = false; // Once per hold
+  private lastIssueTime: number | null = null; // Last ISSUE_DETECTED this hold
+  private eventCallbacks: Set<(event: FSMTransitionEvent) => void> = new Set();
+
+  constructor(
+    config: StretchConfig,
+    motionBuffer: MotionBuffer,
+    startTime = 0
+  ) {
+    this.config = config;
+    this.motionBuffer = motionBuffer;
+    this.state = this.createInitialState(startTime);
+  }
+
+  /**
+   * Advance the FSM with a new frame of features, already pushed into the
+   * motion buffer
+   * Time comes from features.timestamp so replays are deterministic
+   */
+  update(features: Features): FSMTransitionEvent[] {
+    const now = features.timestamp;
+    const { timing } = this.config;
+    const events: FSMTransitionEvent[] = [];
+
+    this.state.lastEventTime = now;
+
+    // Motion gate: suppress issue confirmation while the user moves
+    if (features.stability.motionGate) {
+      this.state.motionGateEndTime = now + timing.motionGateMs;
+    }
+    const isGated =
+      this.state.motionGateEndTime !== undefined &&
+      now < this.state.motionGateEndTime;
+
+    const isVisible = this.isVisible();
+    if (isVisible) {
+      this.lostSince = null;
+    } else {
+      this.lostSince ??= now;
+    }
+    const isLost =
+      this.lostSince !== null && now - this.lostSince >= POSE_LOST_GRACE_MS;
+
+    const issue = isVisible ? this.detectIssue(features) : null;
+    const isOutOfPosition = issue?.severity === 'critical';
+
+    switch (this.state.currentState) {
+      case 'WAITING':
+        if (isVisible && !isOutOfPosition) {
+          events.push(this.transition('READY', 'IN_POSITION', now));
+        }
+        break;
+
+      case 'READY':
+        if (isLost) {
+          events.push(this.transition('WAITING', 'POSE_LOST', now));
+        } else if (isOutOfPosition) {
+          events.push(this.transition('WAITING', 'OUT_OF_POSITION', now));
+        } else if (isVisible && this.isSettled(now)) {
+          events.push(this.transition('HOLDING', 'STABLE_HOLD', now));
+        }
+        break;
+
+      case 'HOLDING':
+        if (isLost) {
+          events.push(this.transition('WAITING', 'POSE_LOST', now));
+        } else if (isOutOfPosition) {
+          events.push(this.transition('WAITING', 'OUT_OF_POSITION', now));
+        } else if (this.isFatigued(now) && !issue) {
+          // A sagging hold gets its form coached before being ended
+          events.push(this.reportFatigue(now));
+        } else if (!issue || isGated) {
+          this.clearPendingIssue();
+        } else if (this.confirmIssue(issue, now)) {
+          this.activeIssue = issue;
+          this.clearPendingIssue();
+          this.state.consecutiveIssues++;
+          this.state.totalIssues++;
+          events.push(
+            this.transition('COACH_ISSUE', 'ISSUE_DETECTED', now, issue)
+          );
+        }
+        break;
+
+      case 'COACH_ISSUE':
+        if (isLost) {
+          events.push(this.transition('WAITING', 'POSE_LOST', now));
+        } else if (isOutOfPosition) {
+          events.push(this.transition('WAITING', 'OUT_OF_POSITION', now));
+        } else if (this.isFatigued(now)) {
+          events.push(this.reportFatigue(now));
+        } else if (
+          isVisible &&
+          this.activeIssue &&
+          this.isIssueResolved(features, this.activeIssue)
+        ) {
+          const resolved = this.activeIssue;
+          this.activeIssue = null;
+          this.state.consecutiveIssues = 0;
+          this.state.cooldownEndTime = now + timing.cooldownMs;
+          events.push(
+            this.transition('COOLDOWN', 'ISSUE_RESOLVED', now, resolved)
+          );
+        } else if (
+          issue &&
+          !isGated &&
+          now - this.state.stateStartTime >= timing.cooldownMs
+        ) {
+          // Still not fixed after a full cooldown: coach it again
+          this.activeIssue = issue;
+          this.state.consecutiveIssues++;
+          this.state.totalIssues++;
+          events.push(
+            this.transition('COACH_ISSUE', 'ISSUE_DETECTED', now, issue)
+          );
+        }
+        break;
+
+      case 'COOLDOWN':
+        if (isLost) {
+          events.push(this.transition('WAITING', 'POSE_LOST', now));
+        } else if (isOutOfPosition) {
+          events.push(this.transition('WAITING', 'OUT_OF_POSITION', now));
+        } else if (this.isFatigued(now)) {
+          events.push(this.reportFatigue(now));
+        } else if (
+          this.state.cooldownEndTime !== undefined &&
+          now >= this.state.cooldownEndTime
+        ) {
+          events.push(this.transition('HOLDING', 'COOLDOWN_COMPLETE', now));
+        }
+        break;
+    }
+
+    events.forEach(event => this.notifyEvent(event));
+
+    return events;
+  }
+
+  /**
+   * Limb being stretched (from WorkingSideDetector); null checks whichever
+   * side looks best
+   */
+  setWorkingSide(side: 'left' | 'right' | null): void {
+    this.workingSide = side;
+  }
+
+  /**
+   * Latest fatigue estimate (from FatigueDetector); null ignores fatigue
+   */
+  setFatigue(fatigue: FatigueEstimate | null): void {
+    this.fatigue = fatigue;
+  }
+
+  /**
+   * Fatigue suggests ending the hold and hasn't been reported this hold
+   * Checked even while motion gates coaching, since shaking is motion, but
+   * not for a cooldown after an issue: the user gets to fix their form first
+   */
+  private isFatigued(now: number): boolean {
+    const issueIsFresh =
+      this.lastIssueTime !== null &&
+      now - this.lastIssueTime < this.config.timing.cooldownMs;
+    return (
+      !this.fatigueReported &&
+      !issueIsFresh &&
+      (this.fatigue?.shouldEndHold ?? false)
+    );
+  }
+
+  /**
+   * Report fatigue without leaving the current state
+   */
+  private reportFatigue(now: number): FSMTransitionEvent {
+    this.fatigueReported = true;
+    return this.transition(this.state.currentState, 'FATIGUE_DETECTED', now);
+  }
+
+  /**
+   * Check that enough of the body is visible to judge form
+   * Median of the last few frames, so one dropped frame can't lose the body
+   */
+  private isVisible(): boolean {
+    const visibility = this.motionBuffer.getMedianVisibility();
+    return visibility !== null && visibility >= this.config.minimumVisibility;
+  }
+
+  /**
+   * Ready for the whole stability window and still throughout it
+   */
+  private isSettled(now: number): boolean {
+    const { stabilityWindowMs } = this.config.timing;
+    return (
+      now - this.state.stateStartTime >= stabilityWindowMs &&
+      this.motionBuffer.query(stabilityWindowMs).isStable
+    );
+  }
+
+  /**
+   * Find the most severe form issue in this frame
+   */
+  private detectIssue(features: Features): FormIssue | null {
+    const issues = [
+      this.checkBodyLine(features, 0),
+      this.checkKneeExtension(features, 0),
+      this.checkHipHeight(features, 0),
+      this.checkHipLine(features, 0),
+    ].filter((issue): issue is FormIssue => issue !== null);
+
+    if (issues.length === 0) {
+      return null;
+    }
+
+    return issues.reduce((worst, issue) =>
+      SEVERITY_RANK[issue.severity] > SEVERITY_RANK[worst.severity]
+        ? issue
+        : worst
+    );
+  }
+
+  /**
+   * An active issue only clears once it is back inside the hysteresis band
+   */
+  private isIssueResolved(features: Features, issue: FormIssue): boolean {
+    const { hysteresis } = this.config;
+
+    // Not being able to see it doesn't mean it's fixed
+    if (!this.isMeasured(features, issue)) {
+      return false;
+    }
+
+    switch (issue.type) {
+      case 'body_line':
+        return !this.checkBodyLine(features, hysteresis.bodyLineAngle);
+      case 'knee_extension':
+        return !this.checkKneeExtension(
+          features,
+          hysteresis.kneeExtension ?? 0,
+          issue.direction
+        );
+      case 'hip_height':
+        return !this.checkHipHeight(
+          features,
+          hysteresis.hipHeight ?? 0,
+          issue.direction
+        );
+      case 'hip_line':
+        return !this.checkHipLine(
+          features,
+          hysteresis.hipLine ?? 0,
+          issue.direction
+        );
+    }
+  }
+
+  /**
+   * Whether this frame measured the value behind an issue
+   */
+  private isMeasured(features: Features, issue: FormIssue): boolean {
+    switch (issue.type) {
+      case 'body_line':
+        return features.bodyLineAngle !== null;
+      case 'knee_extension':
+        return this.selectKnee(features) !== null;
+      case 'hip_height':
+        return features.positions.hipHeight !== null;
+      case 'hip_line':
+        return features.posture.hipLineOffset !== null;
+    }
+  }
+
+  /**
+   * Body line deviation from the stretch's target angle
+   */
+  private checkBodyLine(features: Features, band: number): FormIssue | null {
+    const { bodyLineAngle } = this.config.thresholds;
+    const angle = features.bodyLineAngle;
+    if (bodyLineAngle.target === undefined || angle === null) {
+      return null;
+    }
+
+    const deviation = Math.abs(angle) - bodyLineAngle.target;
+    const magnitude = Math.abs(deviation);
+    if (magnitude <= bodyLineAngle.warning - band) {
+      return null;
+    }
+
+    return {
+      type: 'body_line',
+      severity: magnitude > bodyLineAngle.critical ? 'critical' : 'medium',
+      direction: deviation > 0 ? 'high' : 'low',
+      value: angle,
+    };
+  }
+
+  /**
+   * Working knee against the allowed range (straightest visible knee while
+   * the working side is unknown)
+   */
+  private checkKneeExtension(
+    features: Features,
+    band: number,
+    bandedBound?: FormIssue['direction']
+  ): FormIssue | null {
+    const { kneeExtension } = this.config.thresholds;
+    const selected = this.selectKnee(features);
+    if (!kneeExtension || !selected) {
+      return null;
+    }
+
+    const { side, knee } = selected;
+    const direction = this.outOfRange(knee, kneeExtension, band, bandedBound);
+    return direction
+      ? {
+          type: 'knee_extension',
+          severity: 'medium',
+          direction,
+          value: knee,
+          side,
+        }
+      : null;
+  }
+
+  /**
+   * Knee to judge: the working side's, else the straightest visible one
+   */
+  private selectKnee(
+    features: Features
+  ): { side: 'left' | 'right'; knee: number } | null {
+    const { leftKnee, rightKnee } = features.angles;
+
+    if (this.workingSide) {
+      const knee = this.workingSide === 'left' ? leftKnee : rightKnee;
+      return knee === null ? null : { side: this.workingSide, knee };
+    }
+
+    if (leftKnee !== null && (rightKnee === null || leftKnee >= rightKnee)) {
+      return { side: 'left', knee: leftKnee };
+    }
+    return rightKnee === null ? null : { side: 'right', knee: rightKnee };
+  }
+
+  /**
+   * Hip height against the allowed range
+   */
+  private checkHipHeight(
+    features: Features,
+    band: number,
+    bandedBound?: FormIssue['direction']
+  ): FormIssue | null {
+    const { hipHeight } = this.config.thresholds;
+    const value = features.positions.hipHeight;
+    if (!hipHeight || value === null) {
+      return null;
+    }
+
+    const direction = this.outOfRange(value, hipHeight, band, bandedBound);
+    return direction
+      ? { type: 'hip_height', severity: 'medium', direction, value }
+      : null;
+  }
+
+  /**
+   * Hips against the allowed offset from the shoulder-ankle line
+   */
+  private checkHipLine(
+    features: Features,
+    band: number,
+    bandedBound?: FormIssue['direction']
+  ): FormIssue | null {
+    const { hipLine } = this.config.thresholds;
+    const value = features.posture.hipLineOffset;
+    if (!hipLine || value === null) {
+      return null;
+    }
+
+    const direction = this.outOfRange(value, hipLine, band, bandedBound);
+    return direction
+      ? { type: 'hip_line', severity: 'medium', direction, value }
+      : null;
+  }
+
+  /**
+   * Bound a value falls past, if any; the hysteresis band only tightens
+   * bandedBound, so clearing one bound can't trip over the other
+   */
+  private outOfRange(
+    value: number,
+    range: { min: number; max: number },
+    band: number,
+    bandedBound?: FormIssue['direction']
+  ): FormIssue['direction'] | null {
+    if (value < range.min + (bandedBound === 'low' ? band : 0)) {
+      return 'low';
+    }
+    if (value > range.max - (bandedBound === 'high' ? band : 0)) {
+      return 'high';
+    }
+    return null;
+  }
+
+  /**
+   * Require the same issue to persist for issueConfirmationMs
+   */
+  private confirmIssue(issue: FormIssue, now: number): boolean {
+    if (
+      !this.pendingIssue ||
+      this.pendingIssue.type !== issue.type ||
+      this.pendingIssue.direction !== issue.direction
+    ) {
+      this.pendingIssue = issue;
+      this.state.issueStartTime = now;
+    }
+
+    return (
+      now - (this.state.issueStartTime ?? now) >=
+      this.config.timing.issueConfirmationMs
+    );
+  }
+
+  /**
+   * Forget an unconfirmed issue
+   */
+  private clearPendingIssue(): void {
+    this.pendingIssue = null;
+    delete this.state.issueStartTime;
+  }
+
+  /**
+   * Move to a new state and describe the transition
+   */
+  private transition(
+    to: FSMState,
+    event: FSMEvent,
+    now: number,
+    issue?: FormIssue
+  ): FSMTransitionEvent {
+    const from = this.state.currentState;
+
+    this.state.previousState = from;
+    this.state.currentState = to;
+    this.state.stateStartTime = now;
+    this.state.lastTransitionTime = now;
+
+    if (event === 'ISSUE_DETECTED') {
+      this.lastIssueTime = now;
+    }
+    if (to === 'WAITING') {
+      this.activeIssue = null;
+      this.fatigueReported = false;
+      this.lastIssueTime = null;
+      this.clearPendingIssue();
+      this.state.consecutiveIssues = 0;
+    }
+
+    const transition: FSMTransitionEvent = { event, from, to, timestamp: now };
+    if (issue) {
+      transition.issue = issue;
+    }
+    return transition;
+  }
+
+  /**
+   * Add FSM event callback
+   */
+  addEventCallback(callback: (event: FSMTransitionEvent) => void): void {
+    this.eventCallbacks.add(callback);
+  }
+
+  /**
+   * Remove FSM event callback
+   */
+  removeEventCallback(callback: (event: FSMTransitionEvent) => void): void {
+    this.eventCallbacks.delete(callback);
+  }
+
+  /**
+   * Get current state
+   */
+  getState(): FSMStateData {
+    return { ...this.state };
+  }
+
+  /**
+   * Get the issue currently being coached, if any
+   */
+  getActiveIssue(): FormIssue | null {
+    return this.activeIssue;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): StretchConfig {
+    return this.config;
+  }
+
+  /**
+   * Reset to WAITING (new stretch or new side)
+   */
+  reset(startTime = 0): void {
+    this.state = this.createInitialState(startTime);
+    this.activeIssue = null;
+    this.pendingIssue = null;
+    this.lostSince = null;
+    this.workingSide = null;
+    this.fatigue = null;
+    this.fatigueReported = false;
+    this.lastIssueTime = null;
+  }
+
+  /**
+   * Build the initial state data
+   */
+  private createInitialState(startTime: number): FSMStateData {
+    return {
+      currentState: 'WAITING',
+      previousState: 'WAITING',
+      stateStartTime: startTime,
+      lastTransitionTime: startTime,
+      lastEventTime: startTime,
+      consecutiveIssues: 0,
+      totalIssues: 0,
+    };
+  }
+
+  /**
+   * Notify event callbacks
+   */
+  private notifyEvent(event: FSMTransitionEvent): void {
+    this.eventCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Error in FSM event callback:', error);
+      }
+    });
+  }
 }
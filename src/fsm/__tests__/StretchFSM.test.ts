@@ -0,0 +1,149 @@
+/**
+ * StretchFSM tests
+ * Features of a clean synthetic pose with the judged values overridden
+ */
+
+import { describe, expect, it } from 'vitest';
+import { FeatureEngine } from '../../features/FeatureEngine';
+import { MotionBuffer } from '../../motion/MotionBuffer';
+import { SyntheticPoseGenerator } from '../../trace/SyntheticPoseGenerator';
+import { FSMEvent, Features } from '../../types';
+import { STRETCH_CONFIGS } from '../config';
+import { StretchFSM } from '../StretchFSM';
+
+const FRAME_MS = 100;
+
+function cleanFeatures(): Features {
+  const generator = new SyntheticPoseGenerator({ stretchType: 'hamstring' });
+  const result = new FeatureEngine().calculateFeatures(generator.next());
+  return {
+    ...result.data!,
+    stability: { isStable: true, stabilityScore: 1, motionGate: false },
+  };
+}
+
+describe('StretchFSM', () => {
+  const base = cleanFeatures();
+  let timestamp = 0;
+  let buffer: MotionBuffer;
+
+  /**
+   * Push one frame, changed from the clean one, and collect the events
+   */
+  const step = (fsm: StretchFSM, changes: Partial<Features>): FSMEvent[] => {
+    timestamp += FRAME_MS;
+    const features = { ...base, ...changes, timestamp };
+    buffer.push(features);
+    return fsm.update(features).map(transition => transition.event);
+  };
+
+  /**
+   * Feed frames with the left knee at an angle and collect the events
+   */
+  const holdKnee = (
+    fsm: StretchFSM,
+    knee: number,
+    durationMs: number
+  ): FSMEvent[] => {
+    const events: FSMEvent[] = [];
+    for (let elapsed = 0; elapsed < durationMs; elapsed += FRAME_MS) {
+      events.push(...step(fsm, { angles: { ...base.angles, leftKnee: knee } }));
+    }
+    return events;
+  };
+
+  const createFSM = () => {
+    timestamp = 0;
+    buffer = new MotionBuffer();
+    const fsm = new StretchFSM(STRETCH_CONFIGS.hamstring, buffer, timestamp);
+    fsm.setWorkingSide('left');
+    return fsm;
+  };
+
+  const createHolding = () => {
+    const fsm = createFSM();
+    holdKnee(fsm, 178, 2000);
+    expect(fsm.getState().currentState).toBe('HOLDING');
+    return fsm;
+  };
+
+  it('holds once still for the whole stability window', () => {
+    const fsm = createFSM();
+    expect(holdKnee(fsm, 178, 1000)).toEqual(['IN_POSITION']);
+
+    // One frame of motion restarts the window
+    step(fsm, {
+      stability: { isStable: false, stabilityScore: 0.4, motionGate: true },
+    });
+    expect(holdKnee(fsm, 178, 1400)).toEqual([]);
+    expect(holdKnee(fsm, 178, 200)).toEqual(['STABLE_HOLD']);
+  });
+
+  it('rides out a dropped frame without losing the body', () => {
+    const fsm = createHolding();
+    const dropped = {
+      visibility: {
+        ...base.visibility,
+        overall: 0,
+        hasMinimumVisibility: false,
+      },
+    };
+
+    expect(step(fsm, dropped)).toEqual([]);
+    expect(holdKnee(fsm, 150, 1000)).toEqual(['ISSUE_DETECTED']);
+  });
+
+  it('loses the body once most recent frames miss it', () => {
+    const fsm = createHolding();
+    const hidden = {
+      visibility: {
+        ...base.visibility,
+        overall: 0,
+        hasMinimumVisibility: false,
+      },
+    };
+
+    const events: FSMEvent[] = [];
+    for (let i = 0; i < 10; i++) {
+      events.push(...step(fsm, hidden));
+    }
+    expect(events).toEqual(['POSE_LOST']);
+  });
+
+  it('resolves a bent knee straightened to the top of the range', () => {
+    const fsm = createHolding();
+    expect(holdKnee(fsm, 150, 1000)).toEqual(['ISSUE_DETECTED']);
+
+    // Fully straight, past where the band would sit below the maximum
+    expect(holdKnee(fsm, 180, FRAME_MS)).toEqual(['ISSUE_RESOLVED']);
+  });
+
+  it('holds off fatigue until the issue has had a cooldown to be fixed', () => {
+    const fsm = createHolding();
+    expect(holdKnee(fsm, 150, 1000)).toEqual(['ISSUE_DETECTED']);
+
+    fsm.setFatigue({
+      level: 1,
+      tremor: 0,
+      tremorHz: null,
+      hipDrift: -0.03,
+      bodyLineDrift: 0,
+      shouldEndHold: true,
+      timestamp,
+    });
+    const { cooldownMs } = STRETCH_CONFIGS.hamstring.timing;
+    expect(holdKnee(fsm, 150, cooldownMs - 1000)).toEqual([]);
+    expect(holdKnee(fsm, 150, 1000)).toEqual(['FATIGUE_DETECTED']);
+  });
+
+  it('keeps a bent knee active until it clears the band', () => {
+    const fsm = createHolding();
+    holdKnee(fsm, 150, 1000);
+
+    expect(holdKnee(fsm, 167, 1000)).toEqual([]);
+    expect(fsm.getActiveIssue()).toMatchObject({
+      type: 'knee_extension',
+      direction: 'low',
+    });
+  });
+});
@@ -3,6 +3,46 @@
  * Heel down detection and toe forward alignment
  */
 
-export const calfConfig = {
-  // TODO: Implement calf configuration
+import { StretchConfig } from '../../types';
+
+export const calfConfig: StretchConfig = {
+  stretchType: 'calf',
+  name: 'Wall Calf Stretch',
+  description: 'Lean into a wall with the back leg straight and heel down',
+
+  thresholds: {
+    bodyLineAngle: {
+      good: 10,
+      warning: 15,
+      critical: 30,
+    },
+    kneeExtension: {
+      min: 165,
+      max: 180,
+    },
+  },
+
+  timing: {
+    stabilityWindowMs: 1000,
+    issueConfirmationMs: 500,
+    cooldownMs: 5000,
+    motionGateMs: 500,
+  },
+
+  supportedViews: ['side', 'three_quarter'],
+
+  requiredKeypoints: [
+    'left_hip',
+    'right_hip',
+    'left_knee',
+    'right_knee',
+    'left_ankle',
+    'right_ankle',
+  ],
+  minimumVisibility: 0.5,
+
+  hysteresis: {
+    bodyLineAngle: 3,
+    kneeExtension: 5,
+  },
 };
@@ -3,6 +3,46 @@
  * Knee straightness detection and back neutrality checks
  */
 
-export const hamstringConfig = {
-  // TODO: Implement hamstring configuration
+import { StretchConfig } from '../../types';
+
+export const hamstringConfig: StretchConfig = {
+  stretchType: 'hamstring',
+  name: 'Hamstring Stretch',
+  description: 'Hinge forward over a straight leg',
+
+  thresholds: {
+    bodyLineAngle: {
+      good: 10,
+      warning: 15,
+      critical: 30,
+    },
+    kneeExtension: {
+      min: 165,
+      max: 180,
+    },
+  },
+
+  timing: {
+    stabilityWindowMs: 1500,
+    issueConfirmationMs: 500,
+    cooldownMs: 5000,
+    motionGateMs: 700,
+  },
+
+  supportedViews: ['side'],
+
+  requiredKeypoints: [
+    'left_hip',
+    'right_hip',
+    'left_knee',
+    'right_knee',
+    'left_ankle',
+    'right_ankle',
+  ],
+  minimumVisibility: 0.5,
+
+  hysteresis: {
+    bodyLineAngle: 3,
+    kneeExtension: 5,
+  },
 };
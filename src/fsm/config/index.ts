@@ -0,0 +1,19 @@
+/**
+ * Stretch configuration registry
+ * Maps each StretchType to its FSM configuration
+ */
+
+import { StretchConfig, StretchType } from '../../types';
+import { plankConfig } from './plank';
+import { hamstringConfig } from './hamstring';
+import { quadConfig } from './quad';
+import { shoulderCrossConfig } from './shoulder_cross';
+import { calfConfig } from './calf';
+
+export const STRETCH_CONFIGS: Record<StretchType, StretchConfig> = {
+  plank: plankConfig,
+  hamstring: hamstringConfig,
+  quad: quadConfig,
+  shoulder_cross: shoulderCrossConfig,
+  calf: calfConfig,
+};
@@ -1,8 +1,66 @@
 /**
  * Plank stretch configuration
- * Body line thresholds: ±6° OK, ±9° issue
+ * Body line thresholds: ±6° OK, ±9° issue; hips within ~7° of the line
  */
 
-export const plankConfig = {
-  // TODO: Implement plank configuration
+import { StretchConfig } from '../../types';
+
+export const plankConfig: StretchConfig = {
+  stretchType: 'plank',
+  name: 'Plank',
+  description: 'Hold a straight line from shoulders to ankles',
+
+  thresholds: {
+    // Side-on plank: shoulder-ankle line is horizontal (90° from vertical)
+    bodyLineAngle: {
+      target: 90,
+      good: 6,
+      warning: 9,
+      critical: 25,
+    },
+    // Sagging or piking hips bend the line without tilting it
+    hipLine: {
+      min: -0.08,
+      max: 0.08,
+    },
+  },
+
+  timing: {
+    stabilityWindowMs: 1000,
+    issueConfirmationMs: 350,
+    cooldownMs: 4000,
+    motionGateMs: 500,
+  },
+
+  supportedViews: ['side'],
+
+  requiredKeypoints: [
+    'left_shoulder',
+    'right_shoulder',
+    'left_hip',
+    'right_hip',
+    'left_ankle',
+    'right_ankle',
+  ],
+  minimumVisibility: 0.5,
+
+  // Forearms and toes; the ankles are raised off the floor
+  floorContacts: [
+    'left_elbow',
+    'right_elbow',
+    'left_wrist',
+    'right_wrist',
+    'left_toe',
+    'right_toe',
+  ],
+
+  hysteresis: {
+    bodyLineAngle: 2,
+    hipLine: 0.02,
+  },
+
+  // Static hold: favour smoothness over responsiveness
+  smoothing: {
+    minCutoff: 0.5,
+  },
 };
@@ -3,6 +3,46 @@
  * Knee extension monitoring and pelvis tuck detection
  */
 
-export const quadConfig = {
-  // TODO: Implement quad configuration
+import { StretchConfig } from '../../types';
+
+export const quadConfig: StretchConfig = {
+  stretchType: 'quad',
+  name: 'Standing Quad Stretch',
+  description: 'Stand tall and pull one heel towards your glutes',
+
+  thresholds: {
+    // Standing: shoulder-ankle line is vertical; the held ankle is off it
+    bodyLineAngle: {
+      target: 0,
+      good: 8,
+      warning: 12,
+      critical: 25,
+      alongSupportLeg: true,
+    },
+  },
+
+  timing: {
+    stabilityWindowMs: 1500,
+    issueConfirmationMs: 500,
+    cooldownMs: 5000,
+    motionGateMs: 700,
+  },
+
+  supportedViews: ['side', 'three_quarter'],
+
+  requiredKeypoints: [
+    'left_shoulder',
+    'right_shoulder',
+    'left_hip',
+    'right_hip',
+    'left_knee',
+    'right_knee',
+    'left_ankle',
+    'right_ankle',
+  ],
+  minimumVisibility: 0.5,
+
+  hysteresis: {
+    bodyLineAngle: 3,
+  },
 };
@@ -3,6 +3,43 @@
  * Shoulder relaxation detection and elbow height monitoring
  */
 
-export const shoulderCrossConfig = {
-  // TODO: Implement shoulder cross configuration
+import { StretchConfig } from '../../types';
+
+export const shoulderCrossConfig: StretchConfig = {
+  stretchType: 'shoulder_cross',
+  name: 'Cross-Body Shoulder Stretch',
+  description: 'Pull one arm across your chest, shoulders down',
+
+  thresholds: {
+    // Standing: shoulder-ankle line is vertical
+    bodyLineAngle: {
+      target: 0,
+      good: 8,
+      warning: 12,
+      critical: 25,
+    },
+  },
+
+  timing: {
+    stabilityWindowMs: 1000,
+    issueConfirmationMs: 500,
+    cooldownMs: 5000,
+    motionGateMs: 500,
+  },
+
+  supportedViews: ['front', 'three_quarter'],
+
+  requiredKeypoints: [
+    'left_shoulder',
+    'right_shoulder',
+    'left_elbow',
+    'right_elbow',
+    'left_wrist',
+    'right_wrist',
+  ],
+  minimumVisibility: 0.4,
+
+  hysteresis: {
+    bodyLineAngle: 3,
+  },
 };
@@ -0,0 +1,410 @@
+/**
+ * FatigueDetector - Spots shaking and sagging during long holds
+ * Spectral tremor analysis over the motion buffer plus slow drift trends
+ *
+ * Tremor is looked for from minTremorHz up to the Nyquist frequency of the
+ * frames: at the 8-12 FPS the camera captures at that is 4-6 Hz, not the full
+ * 4-12 Hz band. Faster shaking aliases; tremorHz is the apparent frequency,
+ * and shakes that alias below minTremorHz go unseen
+ */
+
+import { FatigueEstimate, Features, StretchType } from '../types';
+import { MotionBuffer } from './MotionBuffer';
+
+export interface FatigueDetectorConfig {
+  tremorWindowMs: number; // Window the tremor analysis looks back over
+  minTremorHz: number; // Tremor band (capped at the frame rate's Nyquist)
+  maxTremorHz: number;
+  minTremorSamples: number; // Fewer samples in the window can't tell
+  minTremorPeak: number; // Share of the signal's power the peak must hold
+  hipTremorAmplitude: number; // Hip height swing of a full shake (torso lengths)
+  bodyLineTremorAmplitude: number; // Body line speed swing of a full shake (deg/s)
+  driftWindowMs: number; // Drift must show in each of two windows this long
+  driftBinMs: number; // Samples are averaged into bins this long
+  hipSagRate: number; // Hip sag of full fatigue (torso lengths/s)
+  bodyLineDriftRate: number; // Body line drift of full fatigue (deg/s)
+  endHoldLevel: number; // Fatigue level that suggests ending the hold...
+  endHoldConfirmMs: number; // ...once it has lasted this long
+}
+
+/**
+ * Samples of one signal averaged over driftBinMs
+ */
+interface DriftBin {
+  start: number;
+  count: number;
+  t: number; // Sum of seconds since the hold's first sample
+  value: number; // Sum of values
+}
+
+/**
+ * Recent history of one signal within the current hold
+ */
+interface Trend {
+  origin: number; // Timestamp of the hold's first sample
+  bins: DriftBin[];
+}
+
+interface TremorReading {
+  score: number;
+  hz: number;
+}
+
+// Holds where sagging hips or a bending body line mean the user is tiring;
+// elsewhere a slow drift is usually the stretch deepening
+const DRIFT_STRETCHES: StretchType[] = ['plank'];
+
+export class FatigueDetector {
+  private config: FatigueDetectorConfig;
+  private stretchType: StretchType;
+  private hipTrend: Trend | null = null;
+  private bodyLineTrend: Trend | null = null;
+  private lastTimestamp: number | null = null;
+  private highSince: number | null = null;
+  private estimate: FatigueEstimate = this.createEstimate(0);
+
+  constructor(
+    stretchType: StretchType,
+    config?: Partial<FatigueDetectorConfig>
+  ) {
+    this.stretchType = stretchType;
+    this.config = {
+      tremorWindowMs: 1500,
+      minTremorHz: 4,
+      maxTremorHz: 12,
+      minTremorSamples: 8,
+      minTremorPeak: 0.7,
+      hipTremorAmplitude: 0.03,
+      bodyLineTremorAmplitude: 60,
+      driftWindowMs: 6000,
+      driftBinMs: 1000,
+      hipSagRate: 0.02,
+      bodyLineDriftRate: 1,
+      endHoldLevel: 0.7,
+      endHoldConfirmMs: 1000,
+      ...config,
+    };
+  }
+
+  /**
+   * Re-assess after the newest sample was pushed into the buffer
+   * Call once per pushed frame; the drift trends learn from the newest sample,
+   * so reset when a hold starts to measure drift within it
+   */
+  update(buffer: MotionBuffer): FatigueEstimate {
+    const latest = buffer.getLatest();
+    if (!latest || latest.timestamp === this.lastTimestamp) {
+      return { ...this.estimate };
+    }
+    this.lastTimestamp = latest.timestamp;
+
+    this.hipTrend = this.updateTrend(
+      this.hipTrend,
+      latest.positions.hipHeight,
+      latest.timestamp
+    );
+    this.bodyLineTrend = this.updateTrend(
+      this.bodyLineTrend,
+      latest.bodyLineAngle,
+      latest.timestamp
+    );
+
+    // The hip height is raw, but the body line angle is smoothed; its
+    // frame-to-frame velocity still carries the shake
+    const samples = buffer.getWindow(this.config.tremorWindowMs);
+    const readings = [
+      this.measureTremor(
+        samples,
+        features => features.positions.hipHeight,
+        this.config.hipTremorAmplitude
+      ),
+      this.measureTremor(
+        samples,
+        features =>
+          features.bodyLineAngle === null
+            ? null
+            : features.velocity.bodyLineAngle,
+        this.config.bodyLineTremorAmplitude
+      ),
+    ].filter((reading): reading is TremorReading => reading !== null);
+    const strongest = readings.reduce<TremorReading | null>(
+      (best, reading) => (!best || reading.score > best.score ? reading : best),
+      null
+    );
+
+    const hipDrift = this.trendSlope(this.hipTrend, latest.timestamp);
+    const bodyLineDrift = this.trendSlope(this.bodyLineTrend, latest.timestamp);
+    const drift = DRIFT_STRETCHES.includes(this.stretchType)
+      ? Math.max(
+          hipDrift === null ? 0 : -hipDrift / this.config.hipSagRate,
+          bodyLineDrift === null
+            ? 0
+            : Math.abs(bodyLineDrift) / this.config.bodyLineDriftRate
+        )
+      : 0;
+
+    const tremor = strongest?.score ?? 0;
+    const level = Math.min(Math.max(tremor, drift, 0), 1);
+
+    if (level < this.config.endHoldLevel) {
+      this.highSince = null;
+    } else {
+      this.highSince ??= latest.timestamp;
+    }
+
+    this.estimate = {
+      level,
+      tremor,
+      tremorHz: tremor > 0 && strongest ? strongest.hz : null,
+      hipDrift,
+      bodyLineDrift,
+      shouldEndHold:
+        this.highSince !== null &&
+        latest.timestamp - this.highSince >= this.config.endHoldConfirmMs,
+      timestamp: latest.timestamp,
+    };
+    return { ...this.estimate };
+  }
+
+  /**
+   * Shaking in one signal: the strongest oscillation in the tremor band
+   * Score is 0 below half the full-shake amplitude and 1 at it; noise spreads
+   * over every frequency, so a peak holding under minTremorPeak of the
+   * signal's power scores 0. Null without enough samples
+   */
+  private measureTremor(
+    samples: Features[],
+    valueOf: (features: Features) => number | null,
+    fullAmplitude: number
+  ): TremorReading | null {
+    const points = samples.flatMap(features => {
+      const value = valueOf(features);
+      return value === null ? [] : [{ time: features.timestamp, value }];
+    });
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (
+      points.length < this.config.minTremorSamples ||
+      !first ||
+      !last ||
+      last.time <= first.time
+    ) {
+      return null;
+    }
+
+    const seconds = (last.time - first.time) / 1000;
+    const residuals = this.detrend(
+      points.map(point => ({
+        t: (point.time - first.time) / 1000,
+        value: point.value,
+      }))
+    );
+    const power =
+      residuals.reduce((sum, point) => sum + point.value ** 2, 0) /
+      residuals.length;
+    if (power === 0) {
+      return { score: 0, hz: 0 };
+    }
+
+    // Scan the band at the window's frequency resolution (timestamps need
+    // not be evenly spaced); above Nyquist the frames can't see it
+    const maxHz = Math.min(
+      this.config.maxTremorHz,
+      (points.length - 1) / seconds / 2
+    );
+    let peak = { hz: 0, amplitude: 0 };
+    for (let hz = this.config.minTremorHz; hz <= maxHz; hz += 0.5 / seconds) {
+      let re = 0;
+      let im = 0;
+      residuals.forEach(point => {
+        const phase = 2 * Math.PI * hz * point.t;
+        re += point.value * Math.cos(phase);
+        im -= point.value * Math.sin(phase);
+      });
+      const amplitude = (2 * Math.hypot(re, im)) / residuals.length;
+      if (amplitude > peak.amplitude) {
+        peak = { hz, amplitude };
+      }
+    }
+
+    // A sine of amplitude A carries A^2 / 2 of power
+    const share = peak.amplitude ** 2 / 2 / power;
+    return {
+      score:
+        share < this.config.minTremorPeak
+          ? 0
+          : Math.min(Math.max((2 * peak.amplitude) / fullAmplitude - 1, 0), 1),
+      hz: peak.hz,
+    };
+  }
+
+  /**
+   * Remove the least-squares line, so slow drift doesn't read as shaking
+   */
+  private detrend(
+    points: { t: number; value: number }[]
+  ): { t: number; value: number }[] {
+    const n = points.length;
+    const meanT = points.reduce((sum, point) => sum + point.t, 0) / n;
+    const meanValue = points.reduce((sum, point) => sum + point.value, 0) / n;
+    const spread = points.reduce(
+      (sum, point) => sum + (point.t - meanT) ** 2,
+      0
+    );
+    const slope =
+      spread === 0
+        ? 0
+        : points.reduce(
+            (sum, point) => sum + (point.t - meanT) * (point.value - meanValue),
+            0
+          ) / spread;
+
+    return points.map(point => ({
+      t: point.t,
+      value: point.value - meanValue - slope * (point.t - meanT),
+    }));
+  }
+
+  /**
+   * Fold a sample into a trend's bins, dropping bins older than both windows
+   */
+  private updateTrend(
+    trend: Trend | null,
+    value: number | null,
+    timestamp: number
+  ): Trend | null {
+    if (value === null) {
+      return trend;
+    }
+
+    const origin = trend?.origin ?? timestamp;
+    const bins = (trend?.bins ?? []).filter(
+      bin => timestamp - bin.start < 2 * this.config.driftWindowMs
+    );
+    const t = (timestamp - origin) / 1000;
+    const last = bins[bins.length - 1];
+    if (last && timestamp - last.start < this.config.driftBinMs) {
+      bins[bins.length - 1] = {
+        start: last.start,
+        count: last.count + 1,
+        t: last.t + t,
+        value: last.value + value,
+      };
+    } else {
+      bins.push({ start: timestamp, count: 1, t, value });
+    }
+    return { origin, bins };
+  }
+
+  /**
+   * Sustained slope of a trend per second: the gentler of the slopes over the
+   * last two driftWindowMs, or 0 when they disagree in direction. A step
+   * (getting into position, a sudden sag) only shows in one window
+   * Null until the hold has lasted both windows
+   */
+  private trendSlope(trend: Trend | null, timestamp: number): number | null {
+    const window = this.config.driftWindowMs;
+    if (!trend || timestamp - trend.origin < 2 * window) {
+      return null;
+    }
+
+    const earlier = this.binSlope(
+      trend.bins.filter(bin => timestamp - bin.start >= window)
+    );
+    const later = this.binSlope(
+      trend.bins.filter(bin => timestamp - bin.start < window)
+    );
+    if (earlier === null || later === null) {
+      return null;
+    }
+    if (Math.sign(earlier) !== Math.sign(later)) {
+      return 0;
+    }
+    return Math.abs(earlier) < Math.abs(later) ? earlier : later;
+  }
+
+  /**
+   * Least-squares slope through the bin averages, null with under two bins
+   */
+  private binSlope(bins: DriftBin[]): number | null {
+    if (bins.length < 2) {
+      return null;
+    }
+
+    const points = bins.map(bin => ({
+      t: bin.t / bin.count,
+      value: bin.value / bin.count,
+    }));
+    const meanT = points.reduce((sum, point) => sum + point.t, 0) / bins.length;
+    const meanValue =
+      points.reduce((sum, point) => sum + point.value, 0) / bins.length;
+    const spread = points.reduce(
+      (sum, point) => sum + (point.t - meanT) ** 2,
+      0
+    );
+    if (spread === 0) {
+      return null;
+    }
+    return (
+      points.reduce(
+        (sum, point) => sum + (point.t - meanT) * (point.value - meanValue),
+        0
+      ) / spread
+    );
+  }
+
+  /**
+   * Estimate with no signs of fatigue
+   */
+  private createEstimate(timestamp: number): FatigueEstimate {
+    return {
+      level: 0,
+      tremor: 0,
+      tremorHz: null,
+      hipDrift: null,
+      bodyLineDrift: null,
+      shouldEndHold: false,
+      timestamp,
+    };
+  }
+
+  /**
+   * Latest estimate
+   */
+  getEstimate(): FatigueEstimate {
+    return { ...this.estimate };
+  }
+
+  /**
+   * Detect for a different stretch (forgets the trends)
+   */
+  setStretch(stretchType: StretchType): void {
+    this.stretchType = stretchType;
+    this.reset();
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<FatigueDetectorConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): FatigueDetectorConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Forget the trends and the estimate (new hold or new session)
+   */
+  reset(): void {
+    this.hipTrend = null;
+    this.bodyLineTrend = null;
+    this.lastTimestamp = null;
+    this.highSince = null;
+    this.estimate = this.createEstimate(0);
+  }
+}
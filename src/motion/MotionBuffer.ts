@@ -1,8 +1,286 @@
 /**
  * MotionBuffer - Manages rolling buffer for motion data
- * Implements EMA smoothing and median filtering
+ * Implements EMA smoothing, median filtering and windowed stability queries
  */
 
+import { BufferQuery, Features, MotionBufferConfig } from '../types';
+
+/**
+ * Sums over every sample pushed since the last reset, up to and including
+ * one sample; a window's sums are the difference of two of these
+ */
+interface RunningTotals {
+  angleCount: number; // Samples with a known body line angle
+  angleSum: number;
+  angleSquareSum: number;
+  speedSum: number; // Absolute body line velocity, degrees per second
+  stabilitySum: number;
+  unstableCount: number;
+}
+
+interface BufferEntry {
+  features: Features;
+  totals: RunningTotals;
+}
+
+const NO_TOTALS: RunningTotals = {
+  angleCount: 0,
+  angleSum: 0,
+  angleSquareSum: 0,
+  speedSum: 0,
+  stabilitySum: 0,
+  unstableCount: 0,
+};
+
+const EMPTY_QUERY: BufferQuery = {
+  isStable: false,
+  averageAngle: 0,
+  angleVariance: 0,
+  averageVelocity: 0,
+  stabilityScore: 0,
+  sampleCount: 0,
+  timeSpan: 0,
+};
+
 export class MotionBuffer {
-  // TODO: Implement motion buffer
+  private config: MotionBufferConfig;
+  private entries: (BufferEntry | undefined)[];
+  private head = 0; // Slot of the oldest sample
+  private size = 0;
+  private evictedTotals: RunningTotals = NO_TOTALS; // Totals before the oldest
+  private smoothedAngle: number | null = null;
+
+  constructor(config?: Partial<MotionBufferConfig>) {
+    this.config = {
+      maxSize: 24, // 2 s at 12 FPS
+      smoothingFactor: 0.5,
+      stabilityWindowMs: 1000,
+      medianFilterSize: 5,
+      ...config,
+    };
+    this.entries = new Array(this.config.maxSize);
+  }
+
+  /**
+   * Add one frame of features, dropping the oldest when full
+   * A timestamp earlier than the newest sample starts the buffer afresh
+   */
+  push(features: Features): void {
+    const latest = this.at(this.size - 1);
+    if (latest && features.timestamp < latest.features.timestamp) {
+      this.reset();
+    }
+
+    const previous = this.at(this.size - 1)?.totals ?? this.evictedTotals;
+    const angle = features.bodyLineAngle;
+    const totals: RunningTotals = {
+      angleCount: previous.angleCount + (angle === null ? 0 : 1),
+      angleSum: previous.angleSum + (angle ?? 0),
+      angleSquareSum: previous.angleSquareSum + (angle ?? 0) ** 2,
+      speedSum: previous.speedSum + Math.abs(features.velocity.bodyLineAngle),
+      stabilitySum: previous.stabilitySum + features.stability.stabilityScore,
+      unstableCount:
+        previous.unstableCount + (features.stability.isStable ? 0 : 1),
+    };
+
+    if (this.size === this.config.maxSize) {
+      this.evictedTotals = this.at(0)?.totals ?? this.evictedTotals;
+      this.head = (this.head + 1) % this.config.maxSize;
+      this.size--;
+    }
+    this.entries[(this.head + this.size) % this.config.maxSize] = {
+      features,
+      totals,
+    };
+    this.size++;
+
+    if (angle !== null) {
+      this.smoothedAngle =
+        this.smoothedAngle === null
+          ? angle
+          : this.config.smoothingFactor * angle +
+            (1 - this.config.smoothingFactor) * this.smoothedAngle;
+    }
+  }
+
+  /**
+   * Stability over the last windowMs (default stabilityWindowMs) up to the
+   * newest sample; O(log n) to find the window, O(1) for the sums
+   */
+  query(windowMs: number = this.config.stabilityWindowMs): BufferQuery {
+    const last = this.at(this.size - 1);
+    if (!last) {
+      return { ...EMPTY_QUERY };
+    }
+
+    const first = this.findWindowStart(last.features.timestamp - windowMs);
+    const before = this.at(first - 1)?.totals ?? this.evictedTotals;
+    const oldest = this.at(first) ?? last;
+
+    const sampleCount = this.size - first;
+    const angleCount = last.totals.angleCount - before.angleCount;
+    const averageAngle =
+      angleCount > 0
+        ? (last.totals.angleSum - before.angleSum) / angleCount
+        : 0;
+    const angleVariance =
+      angleCount > 0
+        ? Math.max(
+            (last.totals.angleSquareSum - before.angleSquareSum) / angleCount -
+              averageAngle ** 2,
+            0
+          )
+        : 0;
+    const unstableCount = last.totals.unstableCount - before.unstableCount;
+
+    return {
+      isStable: sampleCount >= 2 && unstableCount === 0,
+      averageAngle,
+      angleVariance,
+      averageVelocity: (last.totals.speedSum - before.speedSum) / sampleCount,
+      stabilityScore:
+        (last.totals.stabilitySum - before.stabilitySum) / sampleCount,
+      sampleCount,
+      timeSpan: last.features.timestamp - oldest.features.timestamp,
+    };
+  }
+
+  /**
+   * Samples in the last windowMs, oldest first
+   */
+  getWindow(windowMs: number = this.config.stabilityWindowMs): Features[] {
+    const last = this.at(this.size - 1);
+    if (!last) {
+      return [];
+    }
+
+    const samples: Features[] = [];
+    for (
+      let i = this.findWindowStart(last.features.timestamp - windowMs);
+      i < this.size;
+      i++
+    ) {
+      const entry = this.at(i);
+      if (entry) {
+        samples.push(entry.features);
+      }
+    }
+    return samples;
+  }
+
+  /**
+   * Median overall visibility of the last medianFilterSize samples
+   * A single dropped frame can't make the body look lost (or found)
+   */
+  getMedianVisibility(): number | null {
+    const count = Math.min(this.config.medianFilterSize, this.size);
+    if (count === 0) {
+      return null;
+    }
+
+    const values: number[] = [];
+    for (let i = this.size - count; i < this.size; i++) {
+      const entry = this.at(i);
+      if (entry) {
+        values.push(entry.features.visibility.overall);
+      }
+    }
+    values.sort((a, b) => a - b);
+
+    const middle = Math.floor(values.length / 2);
+    return values.length % 2 === 1
+      ? values[middle]!
+      : (values[middle - 1]! + values[middle]!) / 2;
+  }
+
+  /**
+   * EMA of the body line angle, null until one has been seen
+   */
+  getSmoothedAngle(): number | null {
+    return this.smoothedAngle;
+  }
+
+  /**
+   * Newest sample
+   */
+  getLatest(): Features | null {
+    return this.at(this.size - 1)?.features ?? null;
+  }
+
+  /**
+   * Number of samples held
+   */
+  getSize(): number {
+    return this.size;
+  }
+
+  /**
+   * Sample by age order (0 = oldest), undefined outside the buffer
+   */
+  private at(index: number): BufferEntry | undefined {
+    if (index < 0 || index >= this.size) {
+      return undefined;
+    }
+    return this.entries[(this.head + index) % this.config.maxSize];
+  }
+
+  /**
+   * Age index of the oldest sample at or after a timestamp (binary search)
+   */
+  private findWindowStart(startTime: number): number {
+    let low = 0;
+    let high = this.size - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      const entry = this.at(middle);
+      if (entry && entry.features.timestamp < startTime) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Update configuration; a new maxSize keeps the newest samples
+   */
+  updateConfig(newConfig: Partial<MotionBufferConfig>): void {
+    const kept: BufferEntry[] = [];
+    for (let i = 0; i < this.size; i++) {
+      const entry = this.at(i);
+      if (entry) {
+        kept.push(entry);
+      }
+    }
+
+    this.config = { ...this.config, ...newConfig };
+
+    const dropped = Math.max(kept.length - this.config.maxSize, 0);
+    this.evictedTotals = kept[dropped - 1]?.totals ?? this.evictedTotals;
+    this.entries = new Array(this.config.maxSize);
+    kept.slice(dropped).forEach((entry, i) => {
+      this.entries[i] = entry;
+    });
+    this.head = 0;
+    this.size = kept.length - dropped;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): MotionBufferConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Drop all samples (new stretch or new session)
+   */
+  reset(): void {
+    this.entries = new Array(this.config.maxSize);
+    this.head = 0;
+    this.size = 0;
+    this.evictedTotals = NO_TOTALS;
+    this.smoothedAngle = null;
+  }
 }
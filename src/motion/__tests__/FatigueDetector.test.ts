@@ -0,0 +1,144 @@
+/**
+ * FatigueDetector tests
+ * Only the fields the detector and the buffer read are filled in; the body
+ * line stays still while the hips move
+ */
+
+import { describe, expect, it } from 'vitest';
+import { FatigueEstimate, Features, StretchType } from '../../types';
+import { FatigueDetector } from '../FatigueDetector';
+import { MotionBuffer } from '../MotionBuffer';
+
+function createSample(timestamp: number, hipHeight: number): Features {
+  return {
+    bodyLineAngle: 0,
+    velocity: { bodyLineAngle: 0, hipHeight: 0, shoulderHeight: 0 },
+    positions: { hipHeight, shoulderHeight: 0 },
+    stability: { isStable: true, stabilityScore: 1, motionGate: false },
+    visibility: { overall: 1, criticalPoints: {}, hasMinimumVisibility: true },
+    timestamp,
+    frameId: `frame_${timestamp}`,
+  } as unknown as Features;
+}
+
+/**
+ * Feed a hip height signal at a frame rate and collect the estimates
+ */
+function run(
+  hipHeightAt: (seconds: number) => number,
+  options: { fps: number; durationMs: number; stretchType?: StretchType }
+): FatigueEstimate[] {
+  const detector = new FatigueDetector(options.stretchType ?? 'plank');
+  const buffer = new MotionBuffer({ maxSize: 60 });
+  const estimates: FatigueEstimate[] = [];
+  for (
+    let frame = 0;
+    frame * (1000 / options.fps) < options.durationMs;
+    frame++
+  ) {
+    const timestamp = Math.round(frame * (1000 / options.fps));
+    buffer.push(createSample(timestamp, hipHeightAt(timestamp / 1000)));
+    estimates.push(detector.update(buffer));
+  }
+  return estimates;
+}
+
+const shake = (hz: number, amplitude: number) => (seconds: number) =>
+  amplitude * Math.sin(2 * Math.PI * hz * seconds);
+
+describe('FatigueDetector', () => {
+  describe('tremor', () => {
+    it('detects a shake in the band the frames can see', () => {
+      const estimates = run(shake(5, 0.03), { fps: 12, durationMs: 4000 });
+      const last = estimates[estimates.length - 1]!;
+
+      expect(last.tremor).toBeGreaterThan(0.9);
+      expect(last.tremorHz).toBeCloseTo(5, 0);
+      expect(last.shouldEndHold).toBe(true);
+    });
+
+    it('detects a fast shake at a fast frame rate', () => {
+      const estimates = run(shake(9, 0.03), { fps: 30, durationMs: 4000 });
+      const last = estimates[estimates.length - 1]!;
+
+      expect(last.tremor).toBe(1);
+      expect(last.tremorHz).toBeCloseTo(9, 0);
+    });
+
+    it('misses a shake that aliases below the band', () => {
+      // 9 Hz at 12 FPS looks like 3 Hz
+      const estimates = run(shake(9, 0.03), { fps: 12, durationMs: 4000 });
+
+      expect(estimates.every(estimate => estimate.tremor === 0)).toBe(true);
+    });
+
+    it('ignores keypoint noise', () => {
+      let seed = 7;
+      const noise = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return (seed / 2147483648 - 0.5) * 0.06;
+      };
+      const estimates = run(noise, { fps: 12, durationMs: 4000 });
+
+      expect(estimates.every(estimate => estimate.level === 0)).toBe(true);
+    });
+
+    it('ignores a shake too small to be tiring', () => {
+      const estimates = run(shake(5, 0.01), { fps: 12, durationMs: 4000 });
+
+      expect(estimates.every(estimate => estimate.tremor === 0)).toBe(true);
+    });
+  });
+
+  describe('drift', () => {
+    it('reads sagging hips as fatigue once the sag lasts both windows', () => {
+      const estimates = run(seconds => -0.03 * seconds, {
+        fps: 12,
+        durationMs: 14000,
+      });
+      const atMs = (ms: number) =>
+        estimates.find(estimate => estimate.timestamp >= ms)!;
+
+      expect(atMs(11000).hipDrift).toBeNull();
+      expect(atMs(11000).level).toBe(0);
+      expect(atMs(12000).hipDrift).toBeCloseTo(-0.03, 3);
+      expect(atMs(12000).level).toBe(1);
+      expect(atMs(13500).shouldEndHold).toBe(true);
+    });
+
+    it('ignores a sudden drop of the hips', () => {
+      const estimates = run(seconds => (seconds < 6 ? 0 : -0.2), {
+        fps: 12,
+        durationMs: 20000,
+      });
+
+      expect(
+        Math.max(...estimates.map(estimate => estimate.level))
+      ).toBeLessThan(0.01);
+    });
+
+    it('ignores drift in stretches that deepen over time', () => {
+      const estimates = run(seconds => -0.03 * seconds, {
+        fps: 12,
+        durationMs: 14000,
+        stretchType: 'hamstring',
+      });
+
+      expect(estimates.every(estimate => estimate.level === 0)).toBe(true);
+    });
+
+    it('measures drift from the last reset', () => {
+      const detector = new FatigueDetector('plank');
+      const buffer = new MotionBuffer();
+      for (let timestamp = 0; timestamp < 14000; timestamp += 100) {
+        buffer.push(createSample(timestamp, -0.00003 * timestamp));
+        detector.update(buffer);
+      }
+      expect(detector.getEstimate().level).toBe(1);
+
+      detector.reset();
+      buffer.push(createSample(14000, -0.42));
+      expect(detector.update(buffer).hipDrift).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * MotionBuffer tests
+ * Only the fields the buffer reads are filled in; frames are 100 ms apart
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Features } from '../../types';
+import { MotionBuffer } from '../MotionBuffer';
+
+interface SampleOptions {
+  speed?: number;
+  stabilityScore?: number;
+  isStable?: boolean;
+  visibility?: number;
+}
+
+function createSample(
+  timestamp: number,
+  angle: number | null,
+  options: SampleOptions = {}
+): Features {
+  const {
+    speed = 0,
+    stabilityScore = 1,
+    isStable = true,
+    visibility = 1,
+  } = options;
+
+  return {
+    bodyLineAngle: angle,
+    velocity: { bodyLineAngle: speed, hipHeight: 0, shoulderHeight: 0 },
+    stability: { isStable, stabilityScore, motionGate: false },
+    visibility: {
+      overall: visibility,
+      criticalPoints: {},
+      hasMinimumVisibility: true,
+    },
+    timestamp,
+    frameId: `frame_${timestamp}`,
+  } as Features;
+}
+
+/**
+ * Buffer holding angles 0, 1, 2... at 0 ms, 100 ms, 200 ms...
+ */
+function fill(buffer: MotionBuffer, count: number): MotionBuffer {
+  for (let i = 0; i < count; i++) {
+    buffer.push(createSample(i * 100, i, { speed: -i, stabilityScore: i }));
+  }
+  return buffer;
+}
+
+const timestamps = (samples: Features[]) =>
+  samples.map(sample => sample.timestamp);
+
+describe('MotionBuffer', () => {
+  it('summarises the samples inside the query window', () => {
+    const buffer = fill(new MotionBuffer(), 10);
+
+    expect(buffer.query(300)).toEqual({
+      isStable: true,
+      averageAngle: 7.5,
+      angleVariance: 1.25,
+      averageVelocity: 7.5,
+      stabilityScore: 7.5,
+      sampleCount: 4,
+      timeSpan: 300,
+    });
+    expect(timestamps(buffer.getWindow(300))).toEqual([600, 700, 800, 900]);
+  });
+
+  it('leaves unknown angles out of the angle statistics', () => {
+    const buffer = new MotionBuffer();
+    buffer.push(createSample(0, 4));
+    buffer.push(createSample(100, null));
+    buffer.push(createSample(200, 8));
+
+    expect(buffer.query(1000)).toMatchObject({
+      averageAngle: 6,
+      angleVariance: 4,
+      sampleCount: 3,
+    });
+  });
+
+  it('is unstable with any unstable sample in the window, or too few', () => {
+    const buffer = new MotionBuffer();
+    buffer.push(createSample(0, 0));
+    expect(buffer.query().isStable).toBe(false);
+
+    buffer.push(createSample(100, 0, { isStable: false }));
+    buffer.push(createSample(200, 0));
+    buffer.push(createSample(300, 0));
+    expect(buffer.query(1000).isStable).toBe(false);
+    expect(buffer.query(100).isStable).toBe(true);
+  });
+
+  it('answers from the newest samples once the ring has wrapped', () => {
+    const buffer = fill(new MotionBuffer({ maxSize: 4 }), 11);
+
+    expect(buffer.getSize()).toBe(4);
+    expect(timestamps(buffer.getWindow(5000))).toEqual([700, 800, 900, 1000]);
+    expect(buffer.query(5000)).toEqual({
+      isStable: true,
+      averageAngle: 8.5,
+      angleVariance: 1.25,
+      averageVelocity: 8.5,
+      stabilityScore: 8.5,
+      sampleCount: 4,
+      timeSpan: 300,
+    });
+    expect(buffer.query(100)).toMatchObject({
+      averageAngle: 9.5,
+      sampleCount: 2,
+    });
+  });
+
+  it('starts afresh when time goes backwards', () => {
+    const buffer = fill(new MotionBuffer(), 5);
+
+    buffer.push(createSample(50, 20));
+
+    expect(buffer.getSize()).toBe(1);
+    expect(buffer.query()).toMatchObject({ averageAngle: 20, sampleCount: 1 });
+    expect(buffer.getSmoothedAngle()).toBe(20);
+  });
+
+  it('keeps the newest samples when shrunk and keeps counting when grown', () => {
+    const buffer = fill(new MotionBuffer({ maxSize: 6 }), 8);
+
+    buffer.updateConfig({ maxSize: 3 });
+    expect(timestamps(buffer.getWindow(5000))).toEqual([500, 600, 700]);
+    expect(buffer.query(5000)).toMatchObject({
+      averageAngle: 6,
+      sampleCount: 3,
+    });
+
+    buffer.updateConfig({ maxSize: 5 });
+    buffer.push(createSample(800, 8));
+    buffer.push(createSample(900, 9));
+    buffer.push(createSample(1000, 10));
+
+    expect(buffer.getSize()).toBe(5);
+    expect(timestamps(buffer.getWindow(5000))).toEqual([
+      600, 700, 800, 900, 1000,
+    ]);
+    expect(buffer.query(5000)).toMatchObject({
+      averageAngle: 8,
+      angleVariance: 2,
+      sampleCount: 5,
+    });
+  });
+
+  it('ignores a single dropped frame in the median visibility', () => {
+    const buffer = new MotionBuffer();
+    expect(buffer.getMedianVisibility()).toBeNull();
+
+    [0.9, 0.8, 0, 0.85, 0.9].forEach((visibility, i) =>
+      buffer.push(createSample(i * 100, 0, { visibility }))
+    );
+
+    expect(buffer.getMedianVisibility()).toBe(0.85);
+  });
+
+  it('smooths the body line angle and skips unknown angles', () => {
+    const buffer = new MotionBuffer({ smoothingFactor: 0.5 });
+    buffer.push(createSample(0, 10));
+    buffer.push(createSample(100, null));
+    buffer.push(createSample(200, 20));
+
+    expect(buffer.getSmoothedAngle()).toBe(15);
+    expect(buffer.getLatest()?.timestamp).toBe(200);
+  });
+});
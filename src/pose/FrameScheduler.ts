@@ -0,0 +1,215 @@
+/**
+ * FrameScheduler - Decides which camera frames reach pose inference
+ * Frames that arrive while inference is busy are queued or dropped, never errors
+ */
+
+export type FrameSchedulingPolicy =
+  | 'latest' // Keep only the newest waiting frame
+  | 'drop' // Discard frames that arrive while busy
+  | 'queue'; // Keep up to maxQueueSize frames, dropping the oldest
+
+export interface FrameSchedulerConfig {
+  policy: FrameSchedulingPolicy;
+  maxQueueSize: number; // Only used by the 'queue' policy
+  latencyHistorySize: number;
+}
+
+export interface FrameSchedulerMetrics {
+  submittedFrames: number;
+  processedFrames: number;
+  droppedFrames: number;
+  queuedFrames: number;
+  lastQueueLatency: number; // Capture to inference start (ms)
+  averageQueueLatency: number;
+  lastFrameLatency: number; // Capture to inference result (ms)
+  averageFrameLatency: number;
+}
+
+interface PendingFrame<TFrame, TResult> {
+  frame: TFrame;
+  capturedAt: number;
+  resolve: (result: TResult | null) => void;
+  reject: (error: unknown) => void;
+}
+
+export class FrameScheduler<TFrame, TResult> {
+  private config: FrameSchedulerConfig;
+  private process: (frame: TFrame) => Promise<TResult>;
+  private pending: PendingFrame<TFrame, TResult>[] = [];
+  private isBusy = false;
+  private idleWaiters: (() => void)[] = [];
+  private submittedFrames = 0;
+  private processedFrames = 0;
+  private droppedFrames = 0;
+  private queueLatencies: number[] = [];
+  private frameLatencies: number[] = [];
+
+  constructor(
+    process: (frame: TFrame) => Promise<TResult>,
+    config?: Partial<FrameSchedulerConfig>
+  ) {
+    this.process = process;
+    this.config = {
+      policy: 'latest',
+      maxQueueSize: 2,
+      latencyHistorySize: 10,
+      ...config,
+    };
+  }
+
+  /**
+   * Offer a frame for processing
+   * Resolves with the result, or null if the frame was dropped
+   */
+  submit(frame: TFrame, capturedAt = Date.now()): Promise<TResult | null> {
+    this.submittedFrames++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ frame, capturedAt, resolve, reject });
+      this.trimQueue();
+      this.pump();
+    });
+  }
+
+  /**
+   * Drop waiting frames beyond what the policy allows, oldest first
+   */
+  private trimQueue(): void {
+    const capacity = this.getCapacity();
+
+    // The frame about to start does not count against the queue
+    const allowed = this.isBusy ? capacity : capacity + 1;
+    while (this.pending.length > allowed) {
+      this.drop(this.pending.shift()!);
+    }
+  }
+
+  /**
+   * Number of frames allowed to wait while inference is busy
+   */
+  private getCapacity(): number {
+    switch (this.config.policy) {
+      case 'drop':
+        return 0;
+      case 'latest':
+        return 1;
+      case 'queue':
+        return Math.max(this.config.maxQueueSize, 0);
+    }
+  }
+
+  /**
+   * Process waiting frames one at a time
+   */
+  private async pump(): Promise<void> {
+    if (this.isBusy) {
+      return;
+    }
+
+    this.isBusy = true;
+    let next = this.pending.shift();
+    while (next) {
+      const startedAt = Date.now();
+      this.recordLatency(this.queueLatencies, startedAt - next.capturedAt);
+
+      try {
+        const result = await this.process(next.frame);
+        this.processedFrames++;
+        this.recordLatency(this.frameLatencies, Date.now() - next.capturedAt);
+        next.resolve(result);
+      } catch (error) {
+        next.reject(error);
+      }
+
+      next = this.pending.shift();
+    }
+    this.isBusy = false;
+    this.idleWaiters.splice(0).forEach(resolve => resolve());
+  }
+
+  /**
+   * Resolves once the frame being processed (if any) has finished
+   */
+  whenIdle(): Promise<void> {
+    if (!this.isBusy) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Discard a frame without treating it as a failure
+   */
+  private drop(frame: PendingFrame<TFrame, TResult>): void {
+    this.droppedFrames++;
+    frame.resolve(null);
+  }
+
+  /**
+   * Keep a bounded latency history
+   */
+  private recordLatency(history: number[], latency: number): void {
+    history.push(Math.max(latency, 0));
+    if (history.length > this.config.latencyHistorySize) {
+      history.shift();
+    }
+  }
+
+  /**
+   * Get scheduling metrics
+   */
+  getMetrics(): FrameSchedulerMetrics {
+    const average = (history: number[]) =>
+      history.length > 0
+        ? history.reduce((a, b) => a + b, 0) / history.length
+        : 0;
+
+    return {
+      submittedFrames: this.submittedFrames,
+      processedFrames: this.processedFrames,
+      droppedFrames: this.droppedFrames,
+      queuedFrames: this.pending.length,
+      lastQueueLatency:
+        this.queueLatencies[this.queueLatencies.length - 1] ?? 0,
+      averageQueueLatency: average(this.queueLatencies),
+      lastFrameLatency:
+        this.frameLatencies[this.frameLatencies.length - 1] ?? 0,
+      averageFrameLatency: average(this.frameLatencies),
+    };
+  }
+
+  /**
+   * Update configuration; a smaller queue drops its oldest frames
+   */
+  updateConfig(newConfig: Partial<FrameSchedulerConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    if (this.isBusy) {
+      this.trimQueue();
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): FrameSchedulerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Drop every waiting frame (stop, background, cleanup)
+   */
+  clear(): void {
+    this.pending.splice(0).forEach(frame => this.drop(frame));
+  }
+
+  /**
+   * Reset counters and latency history
+   */
+  resetMetrics(): void {
+    this.submittedFrames = 0;
+    this.processedFrames = 0;
+    this.droppedFrames = 0;
+    this.queueLatencies = [];
+    this.frameLatencies = [];
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * KeypointFilter - Per-keypoint One Euro filter for pose jitter
+ * Smooths hard when still, follows quickly when moving
+ */
+
+import {
+  Keypoint,
+  KeypointName,
+  KeypointSmoothingConfig,
+  Pose,
+} from '../types';
+
+interface AxisState {
+  value: number;
+  derivative: number;
+}
+
+interface KeypointState {
+  x: AxisState;
+  y: AxisState;
+  timestamp: number;
+}
+
+export class KeypointFilter {
+  private config: KeypointSmoothingConfig;
+  private states: Map<KeypointName, KeypointState> = new Map();
+
+  constructor(config?: Partial<KeypointSmoothingConfig>) {
+    this.config = {
+      minCutoff: 1.0,
+      beta: 0.01,
+      derivativeCutoff: 1.0,
+      ...config,
+    };
+  }
+
+  /**
+   * Filter every keypoint of a pose using pose.timestamp for dt
+   */
+  apply(pose: Pose): Pose {
+    const keypoints = {} as Record<KeypointName, Keypoint>;
+
+    (Object.keys(pose.keypoints) as KeypointName[]).forEach(name => {
+      keypoints[name] = this.filterKeypoint(
+        name,
+        pose.keypoints[name],
+        pose.timestamp
+      );
+    });
+
+    return { ...pose, keypoints };
+  }
+
+  /**
+   * Filter one keypoint; lost keypoints drop their history
+   */
+  private filterKeypoint(
+    name: KeypointName,
+    keypoint: Keypoint,
+    timestamp: number
+  ): Keypoint {
+    if (keypoint.visibility === 'not_visible') {
+      this.states.delete(name);
+      return keypoint;
+    }
+
+    const previous = this.states.get(name);
+    const dt = previous ? (timestamp - previous.timestamp) / 1000 : 0;
+
+    if (!previous || dt <= 0) {
+      this.states.set(name, {
+        x: { value: keypoint.x, derivative: 0 },
+        y: { value: keypoint.y, derivative: 0 },
+        timestamp,
+      });
+      return keypoint;
+    }
+
+    // Low-confidence samples move the estimate less
+    const weight = Math.min(Math.max(keypoint.confidence, 0), 1);
+    const x = this.filterAxis(previous.x, keypoint.x, dt, weight);
+    const y = this.filterAxis(previous.y, keypoint.y, dt, weight);
+
+    this.states.set(name, { x, y, timestamp });
+
+    return { ...keypoint, x: x.value, y: y.value };
+  }
+
+  /**
+   * One Euro step for a single coordinate
+   */
+  private filterAxis(
+    previous: AxisState,
+    value: number,
+    dt: number,
+    weight: number
+  ): AxisState {
+    const rawDerivative = (value - previous.value) / dt;
+    const derivativeAlpha = this.alpha(this.config.derivativeCutoff, dt);
+    const derivative =
+      derivativeAlpha * rawDerivative +
+      (1 - derivativeAlpha) * previous.derivative;
+
+    const cutoff =
+      this.config.minCutoff + this.config.beta * Math.abs(derivative);
+    const alpha = this.alpha(cutoff, dt) * weight;
+
+    return {
+      value: alpha * value + (1 - alpha) * previous.value,
+      derivative,
+    };
+  }
+
+  /**
+   * Smoothing factor for a first-order low-pass at the given cutoff
+   */
+  private alpha(cutoff: number, dt: number): number {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<KeypointSmoothingConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): KeypointSmoothingConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Drop all filter history (new subject or new session)
+   */
+  reset(): void {
+    this.states.clear();
+  }
+}
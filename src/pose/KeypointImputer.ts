@@ -0,0 +1,212 @@
+/**
+ * KeypointImputer - Fills in lost limb keypoints from learned segment lengths
+ * Places a missing knee, ankle, elbow or wrist at its last seen bend
+ */
+
+import { Keypoint, KeypointName, Pose } from '../types';
+import { POSE_CONFIG } from '../config/constants';
+
+export interface KeypointImputerConfig {
+  minKeypointConfidence: number; // Below this a keypoint counts as missing
+  lengthSmoothing: number; // EMA factor for learned segment lengths
+  minLengthSamples: number; // Fully visible frames needed before imputing
+  maxDirectionAgeMs: number; // Don't impute from a direction older than this
+  confidenceScale: number; // Imputed confidence = joint confidence * scale
+}
+
+/**
+ * Limb segment from a joint to the keypoint beyond it; the direction is
+ * remembered relative to the reference segment that ends at the joint
+ */
+interface LimbSegment {
+  joint: KeypointName;
+  end: KeypointName;
+  reference: [KeypointName, KeypointName];
+}
+
+interface SegmentState {
+  length: number;
+  samples: number;
+  relativeAngle: number; // Radians from the reference segment
+  absoluteAngle: number; // Radians in the image, when the reference is lost
+  lastSeen: number;
+}
+
+const SEGMENTS: LimbSegment[] = (['left', 'right'] as const).flatMap(side => [
+  {
+    joint: `${side}_hip`,
+    end: `${side}_knee`,
+    reference: [`${side}_shoulder`, `${side}_hip`],
+  },
+  {
+    joint: `${side}_knee`,
+    end: `${side}_ankle`,
+    reference: [`${side}_hip`, `${side}_knee`],
+  },
+  {
+    joint: `${side}_shoulder`,
+    end: `${side}_elbow`,
+    reference: [`${side}_hip`, `${side}_shoulder`],
+  },
+  {
+    joint: `${side}_elbow`,
+    end: `${side}_wrist`,
+    reference: [`${side}_shoulder`, `${side}_elbow`],
+  },
+]);
+
+export class KeypointImputer {
+  private config: KeypointImputerConfig;
+  private segments: Map<KeypointName, SegmentState> = new Map();
+
+  constructor(config?: Partial<KeypointImputerConfig>) {
+    this.config = {
+      minKeypointConfidence: POSE_CONFIG.VISIBILITY_THRESHOLD,
+      lengthSmoothing: 0.1,
+      minLengthSamples: 5,
+      maxDirectionAgeMs: 3000,
+      confidenceScale: 0.8,
+      ...config,
+    };
+  }
+
+  /**
+   * Learn from the visible segments of a pose, then impute the missing ends
+   * Imputed keypoints are marked 'occluded' and only placed from joints the
+   * model saw: a lost knee leaves a lost ankle lost, as one guess built on
+   * another is too far off to measure
+   */
+  apply(pose: Pose): Pose {
+    const keypoints = { ...pose.keypoints };
+
+    SEGMENTS.forEach(segment => this.learn(segment, keypoints, pose.timestamp));
+    SEGMENTS.forEach(segment => {
+      const imputed = this.impute(segment, pose.keypoints, pose.timestamp);
+      if (imputed && imputed.confidence > keypoints[segment.end].confidence) {
+        keypoints[segment.end] = imputed;
+      }
+    });
+
+    return { ...pose, keypoints };
+  }
+
+  /**
+   * Update a segment's length and direction while both ends are visible
+   */
+  private learn(
+    segment: LimbSegment,
+    keypoints: Record<KeypointName, Keypoint>,
+    timestamp: number
+  ): void {
+    const joint = keypoints[segment.joint];
+    const end = keypoints[segment.end];
+    if (!this.isPresent(joint) || !this.isPresent(end)) {
+      return;
+    }
+
+    const length = Math.hypot(end.x - joint.x, end.y - joint.y);
+    if (length === 0) {
+      return;
+    }
+
+    const absoluteAngle = Math.atan2(end.y - joint.y, end.x - joint.x);
+    const referenceAngle = this.referenceAngle(segment, keypoints);
+    const previous = this.segments.get(segment.end);
+    const alpha = this.config.lengthSmoothing;
+
+    this.segments.set(segment.end, {
+      length: previous
+        ? alpha * length + (1 - alpha) * previous.length
+        : length,
+      samples: (previous?.samples ?? 0) + 1,
+      relativeAngle:
+        referenceAngle === null
+          ? (previous?.relativeAngle ?? 0)
+          : absoluteAngle - referenceAngle,
+      absoluteAngle,
+      lastSeen: timestamp,
+    });
+  }
+
+  /**
+   * Estimate a missing segment end from its joint and remembered direction
+   */
+  private impute(
+    segment: LimbSegment,
+    keypoints: Record<KeypointName, Keypoint>,
+    timestamp: number
+  ): Keypoint | null {
+    const joint = keypoints[segment.joint];
+    const state = this.segments.get(segment.end);
+    if (
+      this.isPresent(keypoints[segment.end]) ||
+      !this.isPresent(joint) ||
+      !state ||
+      state.samples < this.config.minLengthSamples ||
+      timestamp - state.lastSeen > this.config.maxDirectionAgeMs
+    ) {
+      return null;
+    }
+
+    // Keep the last seen bend relative to the limb above, so the limb follows
+    // a moving thigh or upper arm; fall back to the last image direction
+    const referenceAngle = this.referenceAngle(segment, keypoints);
+    const angle =
+      referenceAngle === null
+        ? state.absoluteAngle
+        : referenceAngle + state.relativeAngle;
+
+    return {
+      x: joint.x + state.length * Math.cos(angle),
+      y: joint.y + state.length * Math.sin(angle),
+      confidence: joint.confidence * this.config.confidenceScale,
+      visibility: 'occluded',
+    };
+  }
+
+  /**
+   * Image angle of the reference segment, or null if either end is missing
+   */
+  private referenceAngle(
+    segment: LimbSegment,
+    keypoints: Record<KeypointName, Keypoint>
+  ): number | null {
+    const from = keypoints[segment.reference[0]];
+    const to = keypoints[segment.reference[1]];
+    if (!this.isPresent(from) || !this.isPresent(to)) {
+      return null;
+    }
+    if (from.x === to.x && from.y === to.y) {
+      return null;
+    }
+    return Math.atan2(to.y - from.y, to.x - from.x);
+  }
+
+  /**
+   * Confident enough to learn from or to impute from
+   */
+  private isPresent(keypoint: Keypoint): boolean {
+    return keypoint.confidence >= this.config.minKeypointConfidence;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<KeypointImputerConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): KeypointImputerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Forget learned segments (new subject or new session)
+   */
+  reset(): void {
+    this.segments.clear();
+  }
+}
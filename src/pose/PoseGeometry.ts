@@ -0,0 +1,79 @@
+/**
+ * PoseGeometry - Shared geometric helpers for poses
+ * Bounding boxes and similarity measures used by tracking and framing
+ */
+
+import { BoundingBox, Keypoint, KeypointName } from '../types';
+
+/**
+ * Bounding box of all keypoints at or above the confidence threshold
+ */
+export function getPoseBoundingBox(
+  keypoints: Record<KeypointName, Keypoint>,
+  minConfidence: number
+): BoundingBox | null {
+  const visible = Object.values(keypoints).filter(
+    keypoint => keypoint.confidence >= minConfidence
+  );
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const xs = visible.map(keypoint => keypoint.x);
+  const ys = visible.map(keypoint => keypoint.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+}
+
+/**
+ * Intersection over union of two boxes (0-1)
+ */
+export function boundingBoxIoU(a: BoundingBox, b: BoundingBox): number {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, right - left) * Math.max(0, bottom - top);
+  const union = a.width * a.height + b.width * b.height - intersection;
+
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Object keypoint similarity (OKS) between two poses (0-1)
+ * Distances are normalized by the scale of the reference box
+ */
+export function keypointSimilarity(
+  a: Record<KeypointName, Keypoint>,
+  b: Record<KeypointName, Keypoint>,
+  scale: BoundingBox,
+  minConfidence: number,
+  falloff = 0.1
+): number {
+  const area = Math.max(scale.width * scale.height, 1);
+  const names = (Object.keys(a) as KeypointName[]).filter(
+    name =>
+      a[name].confidence >= minConfidence && b[name].confidence >= minConfidence
+  );
+  if (names.length === 0) {
+    return 0;
+  }
+
+  const total = names.reduce((sum, name) => {
+    const dx = a[name].x - b[name].x;
+    const dy = a[name].y - b[name].y;
+    return (
+      sum + Math.exp(-(dx * dx + dy * dy) / (2 * area * falloff * falloff))
+    );
+  }, 0);
+
+  return total / names.length;
+}
@@ -0,0 +1,375 @@
+/**
+ * PoseNetDecoder - Decodes PoseNet MobileNetV1 output tensors into keypoints
+ * Works on plain tensor buffers so it can run without a loaded model
+ */
+
+import * as tf from '@tensorflow/tfjs';
+
+/**
+ * PoseNet part names in the order of the heatmap channels
+ */
+export const POSENET_PART_NAMES = [
+  'nose',
+  'leftEye',
+  'rightEye',
+  'leftEar',
+  'rightEar',
+  'leftShoulder',
+  'rightShoulder',
+  'leftElbow',
+  'rightElbow',
+  'leftWrist',
+  'rightWrist',
+  'leftHip',
+  'rightHip',
+  'leftKnee',
+  'rightKnee',
+  'leftAnkle',
+  'rightAnkle',
+] as const;
+
+export type PoseNetPartName = (typeof POSENET_PART_NAMES)[number];
+
+export const POSENET_NUM_KEYPOINTS = POSENET_PART_NAMES.length;
+
+/**
+ * Decoded keypoint in model input coordinates
+ */
+export interface DecodedKeypoint {
+  part: PoseNetPartName;
+  x: number;
+  y: number;
+  score: number;
+}
+
+/**
+ * PoseNet output tensors with the batch dimension removed
+ */
+export interface PoseNetOutputs {
+  heatmaps: tf.Tensor3D; // [height, width, numKeypoints] raw logits
+  offsets: tf.Tensor3D; // [height, width, 2 * numKeypoints] y offsets then x offsets
+  displacementFwd?: tf.Tensor3D | undefined; // [height, width, 2 * numEdges]
+  displacementBwd?: tf.Tensor3D | undefined; // [height, width, 2 * numEdges]
+}
+
+/**
+ * Sort raw model outputs into heatmaps, offsets and displacements
+ * Tensors are identified by channel count since output order varies by export
+ */
+export function identifyPoseNetOutputs(
+  predictions: tf.Tensor[]
+): PoseNetOutputs {
+  let heatmaps: tf.Tensor3D | undefined;
+  let offsets: tf.Tensor3D | undefined;
+  const displacements: tf.Tensor3D[] = [];
+
+  predictions.forEach(prediction => {
+    const tensor = (
+      prediction.rank === 4 ? prediction.squeeze([0]) : prediction
+    ) as tf.Tensor3D;
+    const channels = tensor.shape[2];
+
+    if (channels === POSENET_NUM_KEYPOINTS) {
+      heatmaps = tensor;
+    } else if (channels === POSENET_NUM_KEYPOINTS * 2) {
+      offsets = tensor;
+    } else {
+      displacements.push(tensor);
+    }
+  });
+
+  if (!heatmaps || !offsets) {
+    throw new Error(
+      `Unexpected PoseNet outputs: ${predictions.map(p => `[${p.shape.join(',')}]`).join(' ')}`
+    );
+  }
+
+  return {
+    heatmaps,
+    offsets,
+    displacementFwd: displacements[0],
+    displacementBwd: displacements[1],
+  };
+}
+
+/**
+ * Decode a single pose by taking the strongest heatmap cell per keypoint
+ * and refining it with the matching offset vector
+ */
+export function decodeSinglePose(
+  heatmapScores: tf.TensorBuffer<tf.Rank.R3>,
+  offsets: tf.TensorBuffer<tf.Rank.R3>,
+  outputStride: number
+): DecodedKeypoint[] {
+  const [height, width, numKeypoints] = heatmapScores.shape;
+
+  return POSENET_PART_NAMES.slice(0, numKeypoints).map((part, keypointId) => {
+    let bestScore = -Infinity;
+    let bestY = 0;
+    let bestX = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const score = heatmapScores.get(y, x, keypointId);
+        if (score > bestScore) {
+          bestScore = score;
+          bestY = y;
+          bestX = x;
+        }
+      }
+    }
+
+    const offsetY = offsets.get(bestY, bestX, keypointId);
+    const offsetX = offsets.get(bestY, bestX, keypointId + numKeypoints);
+
+    return {
+      part,
+      x: bestX * outputStride + offsetX,
+      y: bestY * outputStride + offsetY,
+      score: bestScore,
+    };
+  });
+}
+
+/**
+ * Scale keypoints from model input space back to the source frame
+ */
+export function scaleKeypoints(
+  keypoints: DecodedKeypoint[],
+  inputResolution: number,
+  imageWidth: number,
+  imageHeight: number
+): DecodedKeypoint[] {
+  const scaleX = imageWidth / inputResolution;
+  const scaleY = imageHeight / inputResolution;
+
+  return keypoints.map(keypoint => ({
+    ...keypoint,
+    x: Math.min(Math.max(keypoint.x * scaleX, 0), imageWidth),
+    y: Math.min(Math.max(keypoint.y * scaleY, 0), imageHeight),
+  }));
+}
+
+/**
+ * Decoded pose with an instance score
+ */
+export interface DecodedPose {
+  keypoints: DecodedKeypoint[];
+  score: number;
+}
+
+export interface MultiPoseDecodeOptions {
+  outputStride: number;
+  maxPoses: number;
+  scoreThreshold: number;
+  nmsRadius: number; // In model input pixels
+}
+
+// Skeleton edges (parent, child) in the order of the displacement channels
+const POSE_CHAIN: readonly [PoseNetPartName, PoseNetPartName][] = [
+  ['nose', 'leftEye'],
+  ['leftEye', 'leftEar'],
+  ['nose', 'rightEye'],
+  ['rightEye', 'rightEar'],
+  ['nose', 'leftShoulder'],
+  ['leftShoulder', 'leftElbow'],
+  ['leftElbow', 'leftWrist'],
+  ['leftShoulder', 'leftHip'],
+  ['leftHip', 'leftKnee'],
+  ['leftKnee', 'leftAnkle'],
+  ['nose', 'rightShoulder'],
+  ['rightShoulder', 'rightElbow'],
+  ['rightElbow', 'rightWrist'],
+  ['rightShoulder', 'rightHip'],
+  ['rightHip', 'rightKnee'],
+  ['rightKnee', 'rightAnkle'],
+];
+
+const PARENT_CHILD_EDGES = POSE_CHAIN.map(([parent, child]) => [
+  POSENET_PART_NAMES.indexOf(parent),
+  POSENET_PART_NAMES.indexOf(child),
+]) as [number, number][];
+
+const LOCAL_MAXIMUM_RADIUS = 1;
+const OFFSET_REFINE_STEPS = 2;
+
+interface PartCandidate {
+  keypointId: number;
+  heatmapY: number;
+  heatmapX: number;
+  score: number;
+}
+
+/**
+ * Decode up to maxPoses people using the displacement fields to walk
+ * the skeleton from each strong root part (PoseNet multi-pose algorithm)
+ */
+export function decodeMultiplePoses(
+  heatmapScores: tf.TensorBuffer<tf.Rank.R3>,
+  offsets: tf.TensorBuffer<tf.Rank.R3>,
+  displacementFwd: tf.TensorBuffer<tf.Rank.R3>,
+  displacementBwd: tf.TensorBuffer<tf.Rank.R3>,
+  options: MultiPoseDecodeOptions
+): DecodedPose[] {
+  const { outputStride, maxPoses, scoreThreshold, nmsRadius } = options;
+  const squaredNmsRadius = nmsRadius * nmsRadius;
+  const [height, width, numKeypoints] = heatmapScores.shape;
+  const numEdges = PARENT_CHILD_EDGES.length;
+  const poses: DecodedPose[] = [];
+
+  const getImageCoords = (
+    heatmapY: number,
+    heatmapX: number,
+    keypointId: number
+  ) => ({
+    y: heatmapY * outputStride + offsets.get(heatmapY, heatmapX, keypointId),
+    x:
+      heatmapX * outputStride +
+      offsets.get(heatmapY, heatmapX, keypointId + numKeypoints),
+  });
+
+  const nearestIndex = (point: { x: number; y: number }) => ({
+    y: Math.min(Math.max(Math.round(point.y / outputStride), 0), height - 1),
+    x: Math.min(Math.max(Math.round(point.x / outputStride), 0), width - 1),
+  });
+
+  const isNearExistingPose = (
+    point: { x: number; y: number },
+    keypointId: number
+  ) =>
+    poses.some(pose => {
+      const existing = pose.keypoints[keypointId]!;
+      const dy = existing.y - point.y;
+      const dx = existing.x - point.x;
+      return dy * dy + dx * dx <= squaredNmsRadius;
+    });
+
+  const traverseToTarget = (
+    edgeId: number,
+    source: DecodedKeypoint,
+    targetId: number,
+    displacements: tf.TensorBuffer<tf.Rank.R3>
+  ): DecodedKeypoint => {
+    const sourceIndex = nearestIndex(source);
+    let target = {
+      y: source.y + displacements.get(sourceIndex.y, sourceIndex.x, edgeId),
+      x:
+        source.x +
+        displacements.get(sourceIndex.y, sourceIndex.x, edgeId + numEdges),
+    };
+
+    let targetIndex = nearestIndex(target);
+    for (let step = 0; step < OFFSET_REFINE_STEPS; step++) {
+      targetIndex = nearestIndex(target);
+      target = getImageCoords(targetIndex.y, targetIndex.x, targetId);
+    }
+
+    return {
+      part: POSENET_PART_NAMES[targetId]!,
+      ...target,
+      score: heatmapScores.get(targetIndex.y, targetIndex.x, targetId),
+    };
+  };
+
+  // Local maxima above threshold, strongest first
+  const candidates: PartCandidate[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let keypointId = 0; keypointId < numKeypoints; keypointId++) {
+        const score = heatmapScores.get(y, x, keypointId);
+        if (score < scoreThreshold) {
+          continue;
+        }
+
+        let isLocalMaximum = true;
+        for (
+          let ny = Math.max(y - LOCAL_MAXIMUM_RADIUS, 0);
+          ny <= Math.min(y + LOCAL_MAXIMUM_RADIUS, height - 1) &&
+          isLocalMaximum;
+          ny++
+        ) {
+          for (
+            let nx = Math.max(x - LOCAL_MAXIMUM_RADIUS, 0);
+            nx <= Math.min(x + LOCAL_MAXIMUM_RADIUS, width - 1);
+            nx++
+          ) {
+            if (heatmapScores.get(ny, nx, keypointId) > score) {
+              isLocalMaximum = false;
+              break;
+            }
+          }
+        }
+
+        if (isLocalMaximum) {
+          candidates.push({ keypointId, heatmapY: y, heatmapX: x, score });
+        }
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  for (const root of candidates) {
+    if (poses.length >= maxPoses) {
+      break;
+    }
+
+    const rootCoords = getImageCoords(
+      root.heatmapY,
+      root.heatmapX,
+      root.keypointId
+    );
+    if (isNearExistingPose(rootCoords, root.keypointId)) {
+      continue;
+    }
+
+    const instance: (DecodedKeypoint | undefined)[] = new Array(numKeypoints);
+    instance[root.keypointId] = {
+      part: POSENET_PART_NAMES[root.keypointId]!,
+      ...rootCoords,
+      score: root.score,
+    };
+
+    // Walk towards the root of the tree, then out to the leaves
+    for (let edge = numEdges - 1; edge >= 0; edge--) {
+      const [parentId, childId] = PARENT_CHILD_EDGES[edge]!;
+      const source = instance[childId];
+      if (source && !instance[parentId]) {
+        instance[parentId] = traverseToTarget(
+          edge,
+          source,
+          parentId,
+          displacementBwd
+        );
+      }
+    }
+    for (let edge = 0; edge < numEdges; edge++) {
+      const [parentId, childId] = PARENT_CHILD_EDGES[edge]!;
+      const source = instance[parentId];
+      if (source && !instance[childId]) {
+        instance[childId] = traverseToTarget(
+          edge,
+          source,
+          childId,
+          displacementFwd
+        );
+      }
+    }
+
+    const keypoints = POSENET_PART_NAMES.slice(0, numKeypoints).map(
+      (part, keypointId) =>
+        instance[keypointId] ?? { part, x: 0, y: 0, score: 0 }
+    );
+
+    // Keypoints already claimed by an earlier pose don't count
+    const score =
+      keypoints.reduce(
+        (sum, keypoint, keypointId) =>
+          isNearExistingPose(keypoint, keypointId) ? sum : sum + keypoint.score,
+        0
+      ) / numKeypoints;
+
+    poses.push({ keypoints, score });
+  }
+
+  return poses;
+}
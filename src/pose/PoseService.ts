@@ -1,42 +1,84 @@
 /**
- * PoseService - Handles pose estimation using TF.js
+ * PoseService - Handles pose estimation through a pluggable PoseBackend
  * Provides keypoint detection with confidence scores
  */
 
-import * as tf from '@tensorflow/tfjs';
 import {
   Pose,
   Keypoint,
   KeypointName,
+  KeypointSmoothingConfig,
   PoseConfig,
+  RegionOfInterest,
   AppError,
   ServiceResponse,
 } from '../types';
+import { KEYPOINT_NAMES } from '../config/constants';
+import {
+  DetectedKeypoint,
+  ImageInput,
+  PoseBackend,
+  PoseBackendCapabilities,
+  PoseBackendType,
+} from './backends/PoseBackend';
+import {
+  POSENET_MODEL_URL,
+  PoseNetBackend,
+  PoseNetConfig,
+} from './backends/PoseNetBackend';
+import { MOVENET_MODEL_URLS, MoveNetBackend } from './backends/MoveNetBackend';
+import {
+  BLAZEPOSE_MODEL_URL,
+  BlazePoseBackend,
+} from './backends/BlazePoseBackend';
+import { BundledModel } from './models/ModelManifest';
+import { BundledModelSource } from './models/BundledModelSource';
+import {
+  SubjectSelection,
+  SubjectTracker,
+  SubjectTrackerEvent,
+} from './SubjectTracker';
+import { KeypointFilter } from './KeypointFilter';
+import { KeypointImputer } from './KeypointImputer';
+import { FrameScheduler, FrameSchedulingPolicy } from './FrameScheduler';
 
 // Type definitions for browser globals in React Native environment
 declare const console: {
   error: (message?: unknown, ...optionalParams: unknown[]) => void;
 };
 
-// Image input types for pose estimation
-type ImageInput = any; // Will be properly typed when integrating with actual camera
-
-interface PoseNetConfig {
-  architecture: 'MobileNetV1' | 'ResNet50';
-  outputStride: 8 | 16 | 32;
-  inputResolution: number;
-  multiplier: 0.5 | 0.75 | 1.0 | 1.01;
-  quantBytes: 1 | 2 | 4;
-}
-
 export interface PoseServiceConfig extends PoseConfig {
-  modelUrl?: string;
+  backend: PoseBackendType;
+  bundledModel?: BundledModel; // Preferred: weights shipped in app assets
+  modelUrl?: string; // Explicit remote/local URL, used when nothing is bundled
+  allowRemoteModel: boolean; // Fall back to the backend's default hosted model
   poseNetConfig?: PoseNetConfig;
+  moveNetVariant?: 'lightning' | 'thunder';
+  blazePoseInputResolution?: number;
   enableSmoothing: boolean;
-  smoothingFactor: number;
+  keypointSmoothing: KeypointSmoothingConfig; // Defaults; stretches may override
+  enableImputation: boolean; // Estimate lost limb keypoints from segment lengths
   maxPoses: number;
   nmsRadius: number;
   scoreThreshold: number;
+  subjectSelection: SubjectSelection; // Who to coach when several people are seen
+  subjectLostTimeoutMs: number;
+  frameScheduling: FrameSchedulingPolicy; // What to do with frames that arrive mid-inference
+  maxQueuedFrames: number; // Only used by the 'queue' policy
+}
+
+/**
+ * Where a frame came from; keypoints of cropped frames are mapped back
+ * into full-frame coordinates
+ */
+export interface PoseFrameContext {
+  capturedAt?: number;
+  roi?: RegionOfInterest | undefined;
+}
+
+interface ScheduledImage {
+  imageData: ImageInput;
+  roi?: RegionOfInterest | undefined;
 }
 
 export interface PoseServiceState {
@@ -50,7 +92,14 @@ export interface PoseServiceState {
 }
 
 export class PoseService {
-  private model: tf.LayersModel | null = null;
+  private backend: PoseBackend;
+  private modelSource: BundledModelSource | null;
+  private hasCustomBackend: boolean;
+  private subjectTracker: SubjectTracker;
+  private keypointImputer: KeypointImputer;
+  private keypointFilter: KeypointFilter;
+  private frameScheduler: FrameScheduler<ScheduledImage, ServiceResponse<Pose>>;
+  private lastTrackId: number | undefined;
   private config: PoseServiceConfig;
   private state: PoseServiceState;
   private poseCallbacks: Set<(pose: Pose) => void> = new Set();
@@ -58,38 +107,22 @@ export class PoseService {
   private inferenceTimes: number[] = [];
   private readonly maxInferenceHistory = 10;
 
-  // Keypoint name mapping from PoseNet to our KeypointName type
-  private readonly keypointMapping: Record<string, KeypointName> = {
-    nose: 'nose',
-    leftEye: 'left_eye',
-    rightEye: 'right_eye',
-    leftEar: 'left_ear',
-    rightEar: 'right_ear',
-    leftShoulder: 'left_shoulder',
-    rightShoulder: 'right_shoulder',
-    leftElbow: 'left_elbow',
-    rightElbow: 'right_elbow',
-    leftWrist: 'left_wrist',
-    rightWrist: 'right_wrist',
-    leftHip: 'left_hip',
-    rightHip: 'right_hip',
-    leftKnee: 'left_knee',
-    rightKnee: 'right_knee',
-    leftAnkle: 'left_ankle',
-    rightAnkle: 'right_ankle',
-  };
-
-  constructor(config?: Partial<PoseServiceConfig>) {
+  constructor(config?: Partial<PoseServiceConfig>, backend?: PoseBackend) {
     this.config = {
+      backend: 'posenet',
+      allowRemoteModel: false,
       confidenceThreshold: 0.6,
       visibilityThreshold: 0.6,
-      maxPoses: 1,
+      maxPoses: 3,
       enableSmoothing: true,
-      smoothingFactor: 0.1,
+      keypointSmoothing: { minCutoff: 1.0, beta: 0.01, derivativeCutoff: 1.0 },
+      enableImputation: true,
       nmsRadius: 20,
       scoreThreshold: 0.3,
-      modelUrl:
-        'https://tfhub.dev/google/tfjs-model/posenet/mobilenet/float/050/1/default/1',
+      subjectSelection: 'largest',
+      subjectLostTimeoutMs: 1000,
+      frameScheduling: 'latest',
+      maxQueuedFrames: 2,
       poseNetConfig: {
         architecture: 'MobileNetV1',
         outputStride: 16,
@@ -97,9 +130,33 @@ export class PoseService {
         multiplier: 0.5,
         quantBytes: 2,
       },
+      moveNetVariant: 'lightning',
+      blazePoseInputResolution: 256,
       ...config,
     };
 
+    this.modelSource = this.config.bundledModel
+      ? new BundledModelSource(this.config.bundledModel)
+      : null;
+    this.hasCustomBackend = backend !== undefined;
+    this.backend = backend ?? this.createBackend();
+    this.subjectTracker = new SubjectTracker({
+      selection: this.config.subjectSelection,
+      lostTimeoutMs: this.config.subjectLostTimeoutMs,
+      minKeypointConfidence: this.config.scoreThreshold,
+    });
+    this.keypointImputer = new KeypointImputer({
+      minKeypointConfidence: this.config.visibilityThreshold,
+    });
+    this.keypointFilter = new KeypointFilter(this.config.keypointSmoothing);
+    this.frameScheduler = new FrameScheduler(
+      frame => this.runEstimation(frame),
+      {
+        policy: this.config.frameScheduling,
+        maxQueueSize: this.config.maxQueuedFrames,
+      }
+    );
+
     this.state = {
       isInitialized: false,
       isModelLoaded: false,
@@ -115,13 +172,19 @@ export class PoseService {
    */
   async initialize(): Promise<ServiceResponse<boolean>> {
     try {
+      // Make sure we load the model we think we are loading
+      const sourceResult = await this.verifyModelSource();
+      if (!sourceResult.success) {
+        return sourceResult;
+      }
       this.state.isInitialized = true;
 
-      // Load the PoseNet model
+      // Load the backend model
       const loadResult = await this.loadModel();
       if (!loadResult.success) {
         return loadResult;
       }
+      this.modelSource?.release();
 
       this.state.isModelLoaded = true;
       this.state.error = undefined;
@@ -152,22 +215,92 @@ export class PoseService {
   }
 
   /**
-   * Load the TensorFlow.js PoseNet model
+   * Create the built-in backend selected by config
+   */
+  private createBackend(): PoseBackend {
+    const model = this.modelSource?.ioHandler() ?? this.config.modelUrl;
+
+    switch (this.config.backend) {
+      case 'movenet': {
+        const variant = this.config.moveNetVariant ?? 'lightning';
+        return new MoveNetBackend({
+          model: model ?? MOVENET_MODEL_URLS[variant],
+          variant,
+        });
+      }
+      case 'blazepose':
+        return new BlazePoseBackend({
+          model: model ?? BLAZEPOSE_MODEL_URL,
+          inputResolution: this.config.blazePoseInputResolution ?? 256,
+        });
+      case 'posenet':
+      default:
+        return new PoseNetBackend({
+          model: model ?? POSENET_MODEL_URL,
+          poseNetConfig: this.config.poseNetConfig!,
+        });
+    }
+  }
+
+  /**
+   * Check the bundled model against its manifest, or that remote loading
+   * was explicitly allowed when nothing is bundled
+   */
+  private async verifyModelSource(): Promise<ServiceResponse<boolean>> {
+    if (!this.modelSource) {
+      if (
+        this.hasCustomBackend ||
+        this.config.modelUrl ||
+        this.config.allowRemoteModel
+      ) {
+        return { success: true, data: true, timestamp: Date.now() };
+      }
+
+      const error: AppError = {
+        type: 'pose_estimation_failed',
+        message: `No bundled pose model configured for backend '${this.config.backend}' and remote models are disabled`,
+        timestamp: Date.now(),
+        recoverable: false,
+        context: { backend: this.config.backend },
+      };
+
+      this.state.error = error;
+      this.notifyError(error);
+
+      return { success: false, error, timestamp: Date.now() };
+    }
+
+    const manifest = this.modelSource.getManifest();
+    const validation = await this.modelSource.verify({
+      name: this.backend.capabilities.modelName,
+      backend: this.config.backend,
+      inputResolution: this.backend.capabilities.inputResolution.width,
+    });
+
+    if (validation.isValid) {
+      return { success: true, data: true, timestamp: Date.now() };
+    }
+
+    const error: AppError = {
+      type: 'pose_estimation_failed',
+      message: `Bundled pose model ${manifest.name}@${manifest.version} does not match its manifest: ${validation.errors.join('; ')}`,
+      timestamp: Date.now(),
+      recoverable: false,
+      context: { manifest, errors: validation.errors },
+    };
+
+    this.state.error = error;
+    this.notifyError(error);
+
+    return { success: false, error, timestamp: Date.now() };
+  }
+
+  /**
+   * Load the backend model (includes warm-up)
    */
   private async loadModel(): Promise<ServiceResponse<boolean>> {
     try {
-      // Load PoseNet model
-      this.model = await tf.loadLayersModel(this.config.modelUrl!);
-
-      // Warm up the model with a dummy input
-      const dummyInput = tf.zeros([
-        1,
-        this.config.poseNetConfig!.inputResolution,
-        this.config.poseNetConfig!.inputResolution,
-        3,
-      ]);
-      await this.model.predict(dummyInput);
-      dummyInput.dispose();
+      await this.backend.load();
 
       return {
         success: true,
@@ -180,7 +313,11 @@ export class PoseService {
         message: `Failed to load pose model: ${error instanceof Error ? error.message : 'Unknown error'}`,
         timestamp: Date.now(),
         recoverable: true,
-        context: { originalError: error, modelUrl: this.config.modelUrl },
+        context: {
+          originalError: error,
+          backend: this.backend.capabilities.name,
+          modelUrl: this.config.modelUrl,
+        },
       };
 
       this.state.error = appError;
@@ -196,9 +333,14 @@ export class PoseService {
 
   /**
    * Estimate pose from image data
+   * Frames arriving mid-inference go through the frame scheduler; a dropped
+   * frame resolves successfully without data
    */
-  async estimatePose(imageData: ImageInput): Promise<ServiceResponse<Pose>> {
-    if (!this.state.isModelLoaded || !this.model) {
+  async estimatePose(
+    imageData: ImageInput,
+    context: PoseFrameContext = {}
+  ): Promise<ServiceResponse<Pose>> {
+    if (!this.state.isModelLoaded) {
       const error: AppError = {
         type: 'pose_estimation_failed',
         message: 'Pose model not loaded',
@@ -208,58 +350,70 @@ export class PoseService {
       return { success: false, error, timestamp: Date.now() };
     }
 
-    if (this.state.isProcessing) {
-      const error: AppError = {
-        type: 'pose_estimation_failed',
-        message: 'Pose estimation already in progress',
-        timestamp: Date.now(),
-        recoverable: true,
-      };
-      return { success: false, error, timestamp: Date.now() };
-    }
+    const result = await this.frameScheduler.submit(
+      { imageData, roi: context.roi },
+      context.capturedAt
+    );
+    return result ?? { success: true, timestamp: Date.now() };
+  }
 
+  /**
+   * Run the backend on one scheduled frame
+   */
+  private async runEstimation({
+    imageData,
+    roi,
+  }: ScheduledImage): Promise<ServiceResponse<Pose>> {
     try {
       this.state.isProcessing = true;
       const startTime = Date.now();
-
-      // Convert image to tensor
-      const imageTensor = tf.browser.fromPixels(imageData);
-      const resizedImage = tf.image.resizeBilinear(imageTensor, [
-        this.config.poseNetConfig!.inputResolution,
-        this.config.poseNetConfig!.inputResolution,
-      ]);
-      const normalizedImage = resizedImage.div(255.0);
-      const batchedImage = normalizedImage.expandDims(0);
+      const [imageHeight, imageWidth] = imageData.shape;
 
       // Run pose estimation
-      const predictions = (await this.model.predict(
-        batchedImage
-      )) as tf.Tensor[];
-
-      // Process predictions to extract keypoints
-      const keypoints = await this.processPredictions(
-        predictions,
-        imageData.width,
-        imageData.height
+      const detected = await this.backend.estimate(
+        imageData,
+        imageWidth,
+        imageHeight,
+        {
+          maxPoses: this.config.maxPoses,
+          scoreThreshold: this.config.scoreThreshold,
+          nmsRadius: this.config.nmsRadius,
+        }
       );
 
-      // Calculate visibility score
-      const visibilityScore = this.calculateVisibilityScore(keypoints);
-
-      // Create pose object
-      const pose: Pose = {
-        keypoints,
-        timestamp: Date.now(),
-        frameId: this.generateFrameId(),
-        visibilityScore,
-      };
+      const timestamp = Date.now();
+      const frameId = this.generateFrameId();
+      const candidates = detected.map(({ keypoints }) =>
+        this.buildPose(
+          roi
+            ? this.mapFromROI(keypoints, roi, imageWidth, imageHeight)
+            : keypoints,
+          timestamp,
+          frameId
+        )
+      );
 
-      // Clean up tensors
-      imageTensor.dispose();
-      resizedImage.dispose();
-      normalizedImage.dispose();
-      batchedImage.dispose();
-      predictions.forEach(tensor => tensor.dispose());
+      // Only the tracked subject is coached; anyone else is ignored
+      const subject =
+        this.subjectTracker.update(
+          candidates,
+          roi?.frameWidth ?? imageWidth,
+          roi?.frameHeight ?? imageHeight,
+          timestamp
+        ) ?? this.buildPose([], timestamp, frameId);
+
+      // A different person must not inherit learned limbs or filter history
+      if (subject.trackId !== this.lastTrackId) {
+        this.keypointImputer.reset();
+        this.keypointFilter.reset();
+        this.lastTrackId = subject.trackId;
+      }
+      const imputed = this.config.enableImputation
+        ? this.keypointImputer.apply(subject)
+        : subject;
+      const pose = this.config.enableSmoothing
+        ? this.keypointFilter.apply(imputed)
+        : imputed;
 
       // Update performance metrics
       const inferenceTime = Date.now() - startTime;
@@ -305,49 +459,52 @@ export class PoseService {
   }
 
   /**
-   * Process model predictions to extract keypoints
-   */
-  private async processPredictions(
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _predictions: tf.Tensor[],
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _imageWidth: number,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _imageHeight: number
-  ): Promise<Record<KeypointName, Keypoint>> {
-    // This is a simplified implementation
-    // In a real implementation, you would process the actual PoseNet output tensors
-    const keypoints: Record<KeypointName, Keypoint> = {} as Record<
-      KeypointName,
-      Keypoint
-    >;
-
-    // Initialize all keypoints with default values
-    const keypointNames: KeypointName[] = [
-      'nose',
-      'left_eye',
-      'right_eye',
-      'left_ear',
-      'right_ear',
-      'left_shoulder',
-      'right_shoulder',
-      'left_elbow',
-      'right_elbow',
-      'left_wrist',
-      'right_wrist',
-      'left_hip',
-      'right_hip',
-      'left_knee',
-      'right_knee',
-      'left_ankle',
-      'right_ankle',
-      'left_heel',
-      'right_heel',
-      'left_toe',
-      'right_toe',
-    ];
-
-    keypointNames.forEach(name => {
+   * Map keypoints from a cropped (and possibly resized) image back into
+   * full-frame coordinates
+   */
+  private mapFromROI(
+    keypoints: DetectedKeypoint[],
+    roi: RegionOfInterest,
+    imageWidth: number,
+    imageHeight: number
+  ): DetectedKeypoint[] {
+    const scaleX = roi.width / imageWidth;
+    const scaleY = roi.height / imageHeight;
+
+    return keypoints.map(keypoint => ({
+      ...keypoint,
+      x: roi.x + keypoint.x * scaleX,
+      y: roi.y + keypoint.y * scaleY,
+    }));
+  }
+
+  /**
+   * Create pose object from backend keypoints
+   */
+  private buildPose(
+    detected: DetectedKeypoint[],
+    timestamp: number,
+    frameId: string
+  ): Pose {
+    const keypoints = this.buildKeypoints(detected);
+
+    return {
+      keypoints,
+      timestamp,
+      frameId,
+      visibilityScore: this.calculateVisibilityScore(keypoints),
+    };
+  }
+
+  /**
+   * Build the full keypoint record from backend output
+   */
+  private buildKeypoints(
+    detected: DetectedKeypoint[]
+  ): Record<KeypointName, Keypoint> {
+    // Keypoints the backend does not produce stay not visible
+    const keypoints = {} as Record<KeypointName, Keypoint>;
+    KEYPOINT_NAMES.forEach(name => {
       keypoints[name] = {
         x: 0,
         y: 0,
@@ -356,11 +513,14 @@ export class PoseService {
       };
     });
 
-    // In a real implementation, you would:
-    // 1. Extract keypoint coordinates from the prediction tensors
-    // 2. Apply confidence thresholds
-    // 3. Map PoseNet keypoint names to our KeypointName type
-    // 4. Determine visibility based on confidence scores
+    detected.forEach(({ name, x, y, score }) => {
+      keypoints[name] = {
+        x,
+        y,
+        confidence: score,
+        visibility: this.getKeypointVisibility(score),
+      };
+    });
 
     return keypoints;
   }
@@ -430,6 +590,38 @@ export class PoseService {
     this.poseCallbacks.delete(callback);
   }
 
+  /**
+   * Lock onto the current subject (call when the user is in position)
+   */
+  lockSubject(): void {
+    this.subjectTracker.lock();
+  }
+
+  /**
+   * Release the subject lock so anyone in frame can be picked up again
+   */
+  releaseSubject(): void {
+    this.subjectTracker.release();
+  }
+
+  /**
+   * Add subject tracking callback (locked, lost, reacquired)
+   */
+  addSubjectEventCallback(
+    callback: (event: SubjectTrackerEvent) => void
+  ): void {
+    this.subjectTracker.addEventCallback(callback);
+  }
+
+  /**
+   * Remove subject tracking callback
+   */
+  removeSubjectEventCallback(
+    callback: (event: SubjectTrackerEvent) => void
+  ): void {
+    this.subjectTracker.removeEventCallback(callback);
+  }
+
   /**
    * Add error callback
    */
@@ -449,6 +641,30 @@ export class PoseService {
    */
   updateConfig(newConfig: Partial<PoseServiceConfig>): void {
     this.config = { ...this.config, ...newConfig };
+    this.subjectTracker.updateConfig({
+      selection: this.config.subjectSelection,
+      lostTimeoutMs: this.config.subjectLostTimeoutMs,
+      minKeypointConfidence: this.config.scoreThreshold,
+    });
+    this.keypointImputer.updateConfig({
+      minKeypointConfidence: this.config.visibilityThreshold,
+    });
+    this.keypointFilter.updateConfig(this.config.keypointSmoothing);
+    this.frameScheduler.updateConfig({
+      policy: this.config.frameScheduling,
+      maxQueueSize: this.config.maxQueuedFrames,
+    });
+  }
+
+  /**
+   * Apply a stretch's smoothing overrides on top of the service defaults
+   */
+  setStretchSmoothing(overrides?: Partial<KeypointSmoothingConfig>): void {
+    this.keypointFilter.updateConfig({
+      ...this.config.keypointSmoothing,
+      ...overrides,
+    });
+    this.keypointFilter.reset();
   }
 
   /**
@@ -465,6 +681,13 @@ export class PoseService {
     return { ...this.config };
   }
 
+  /**
+   * Get capabilities of the active backend
+   */
+  getBackendCapabilities(): PoseBackendCapabilities {
+    return this.backend.capabilities;
+  }
+
   /**
    * Check if service is ready
    */
@@ -478,11 +701,19 @@ export class PoseService {
    * Get performance metrics
    */
   getPerformanceMetrics() {
+    const scheduling = this.frameScheduler.getMetrics();
+
     return {
       lastInferenceTime: this.state.lastInferenceTime,
       averageInferenceTime: this.state.averageInferenceTime,
       totalInferences: this.state.totalInferences,
       isProcessing: this.state.isProcessing,
+      droppedFrames: scheduling.droppedFrames,
+      queuedFrames: scheduling.queuedFrames,
+      lastQueueLatency: scheduling.lastQueueLatency,
+      averageQueueLatency: scheduling.averageQueueLatency,
+      lastFrameLatency: scheduling.lastFrameLatency,
+      averageFrameLatency: scheduling.averageFrameLatency,
     };
   }
 
@@ -506,14 +737,56 @@ export class PoseService {
     });
   }
 
+  /**
+   * Release the model and drop waiting frames (app backgrounded)
+   * Callbacks are kept; resume() loads the model again
+   */
+  async suspend(): Promise<void> {
+    this.state.isModelLoaded = false;
+    this.frameScheduler.clear();
+    await this.frameScheduler.whenIdle();
+
+    this.backend.dispose();
+    this.subjectTracker.reset();
+    this.keypointImputer.reset();
+    this.keypointFilter.reset();
+    this.lastTrackId = undefined;
+  }
+
+  /**
+   * Reload and warm up the model after suspend()
+   */
+  async resume(): Promise<ServiceResponse<boolean>> {
+    if (!this.state.isInitialized || this.state.isModelLoaded) {
+      return {
+        success: true,
+        data: this.state.isModelLoaded,
+        timestamp: Date.now(),
+      };
+    }
+
+    const loadResult = await this.loadModel();
+    if (!loadResult.success) {
+      return loadResult;
+    }
+    this.modelSource?.release();
+
+    this.state.isModelLoaded = true;
+    this.state.error = undefined;
+
+    return { success: true, data: true, timestamp: Date.now() };
+  }
+
   /**
    * Cleanup resources
    */
   async cleanup(): Promise<void> {
-    if (this.model) {
-      this.model.dispose();
-      this.model = null;
-    }
+    this.frameScheduler.clear();
+    this.frameScheduler.resetMetrics();
+    this.backend.dispose();
+    this.subjectTracker.reset();
+    this.keypointImputer.reset();
+    this.keypointFilter.reset();
 
     this.poseCallbacks.clear();
     this.errorCallbacks.clear();
@@ -0,0 +1,303 @@
+/**
+ * SubjectTracker - Locks coaching onto one person when several are in frame
+ * Keeps a stable track ID through frames and ignores everyone else
+ */
+
+import { BoundingBox, Keypoint, KeypointName, Pose } from '../types';
+import {
+  boundingBoxIoU,
+  getPoseBoundingBox,
+  keypointSimilarity,
+} from './PoseGeometry';
+
+// Type definitions for browser globals in React Native environment
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+export type SubjectSelection = 'largest' | 'central';
+
+export type SubjectTrackerEventType =
+  | 'subject_locked'
+  | 'subject_lost'
+  | 'subject_reacquired';
+
+export interface SubjectTrackerEvent {
+  type: SubjectTrackerEventType;
+  trackId: number;
+  timestamp: number;
+}
+
+export interface SubjectTrackerConfig {
+  selection: SubjectSelection; // How to pick the primary subject
+  minSimilarity: number; // 0-1 match score needed to continue a track
+  lostTimeoutMs: number; // How long a locked subject may go unmatched
+  minKeypointConfidence: number; // Keypoints used for boxes and matching
+}
+
+interface Track {
+  id: number;
+  keypoints: Record<KeypointName, Keypoint>;
+  boundingBox: BoundingBox;
+  lastSeen: number;
+}
+
+interface Candidate {
+  pose: Pose;
+  boundingBox: BoundingBox;
+}
+
+export class SubjectTracker {
+  private config: SubjectTrackerConfig;
+  private track: Track | null = null;
+  private isLocked = false;
+  private lockRequested = false;
+  private isLost = false;
+  private nextTrackId = 1;
+  private eventCallbacks: Set<(event: SubjectTrackerEvent) => void> = new Set();
+
+  constructor(config?: Partial<SubjectTrackerConfig>) {
+    this.config = {
+      selection: 'largest',
+      minSimilarity: 0.3,
+      lostTimeoutMs: 1000,
+      minKeypointConfidence: 0.3,
+      ...config,
+    };
+  }
+
+  /**
+   * Pick the subject out of this frame's poses
+   * Returns null when the locked subject is not among them
+   */
+  update(
+    poses: Pose[],
+    frameWidth: number,
+    frameHeight: number,
+    timestamp: number
+  ): Pose | null {
+    const candidates: Candidate[] = [];
+    poses.forEach(pose => {
+      const boundingBox = getPoseBoundingBox(
+        pose.keypoints,
+        this.config.minKeypointConfidence
+      );
+      if (boundingBox) {
+        candidates.push({ pose, boundingBox });
+      }
+    });
+
+    if (!this.isLocked) {
+      const primary = this.selectPrimary(candidates, frameWidth, frameHeight);
+      if (!primary) {
+        return null;
+      }
+
+      const continues =
+        this.track !== null &&
+        this.similarity(primary, this.track) >= this.config.minSimilarity;
+      const pose = this.updateTrack(
+        primary,
+        continues ? this.track!.id : this.nextTrackId++,
+        timestamp
+      );
+
+      if (this.lockRequested) {
+        this.lockRequested = false;
+        this.isLocked = true;
+        this.emit('subject_locked', timestamp);
+      }
+
+      return pose;
+    }
+
+    const track = this.track!;
+    let best: Candidate | null = null;
+    let bestSimilarity = this.config.minSimilarity;
+    candidates.forEach(candidate => {
+      const similarity = this.similarity(candidate, track);
+      if (similarity >= bestSimilarity) {
+        best = candidate;
+        bestSimilarity = similarity;
+      }
+    });
+
+    if (best) {
+      const pose = this.updateTrack(best, track.id, timestamp);
+      if (this.isLost) {
+        this.isLost = false;
+        this.emit('subject_reacquired', timestamp);
+      }
+      return pose;
+    }
+
+    if (
+      !this.isLost &&
+      timestamp - track.lastSeen > this.config.lostTimeoutMs
+    ) {
+      this.isLost = true;
+      this.emit('subject_lost', timestamp);
+    }
+
+    return null;
+  }
+
+  /**
+   * Lock onto the current subject (or the next one seen)
+   * and ignore everyone else until released
+   */
+  lock(): void {
+    if (this.isLocked) {
+      return;
+    }
+
+    if (!this.track) {
+      this.lockRequested = true;
+      return;
+    }
+
+    this.isLocked = true;
+    this.isLost = false;
+    this.emit('subject_locked', this.track.lastSeen);
+  }
+
+  /**
+   * Stop ignoring other people; the track ID is kept if it still matches
+   */
+  release(): void {
+    this.isLocked = false;
+    this.lockRequested = false;
+    this.isLost = false;
+  }
+
+  /**
+   * Forget the current subject entirely
+   */
+  reset(): void {
+    this.release();
+    this.track = null;
+  }
+
+  /**
+   * Get the current track ID, if any
+   */
+  getTrackId(): number | null {
+    return this.track?.id ?? null;
+  }
+
+  /**
+   * Check if the tracker is locked on a subject
+   */
+  isSubjectLocked(): boolean {
+    return this.isLocked;
+  }
+
+  /**
+   * Add subject event callback
+   */
+  addEventCallback(callback: (event: SubjectTrackerEvent) => void): void {
+    this.eventCallbacks.add(callback);
+  }
+
+  /**
+   * Remove subject event callback
+   */
+  removeEventCallback(callback: (event: SubjectTrackerEvent) => void): void {
+    this.eventCallbacks.delete(callback);
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<SubjectTrackerConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Choose the largest or most central candidate
+   */
+  private selectPrimary(
+    candidates: Candidate[],
+    frameWidth: number,
+    frameHeight: number
+  ): Candidate | null {
+    let primary: Candidate | null = null;
+    let bestScore = -Infinity;
+
+    candidates.forEach(candidate => {
+      const box = candidate.boundingBox;
+      let score: number;
+
+      if (this.config.selection === 'central') {
+        const dx = (box.x + box.width / 2 - frameWidth / 2) / frameWidth;
+        const dy = (box.y + box.height / 2 - frameHeight / 2) / frameHeight;
+        score = -(dx * dx + dy * dy);
+      } else {
+        score = box.width * box.height;
+      }
+
+      if (score > bestScore) {
+        bestScore = score;
+        primary = candidate;
+      }
+    });
+
+    return primary;
+  }
+
+  /**
+   * Match score combining box overlap and keypoint agreement (0-1)
+   */
+  private similarity(candidate: Candidate, track: Track): number {
+    return (
+      0.5 * boundingBoxIoU(candidate.boundingBox, track.boundingBox) +
+      0.5 *
+        keypointSimilarity(
+          candidate.pose.keypoints,
+          track.keypoints,
+          track.boundingBox,
+          this.config.minKeypointConfidence
+        )
+    );
+  }
+
+  /**
+   * Move the track to the matched candidate
+   */
+  private updateTrack(
+    candidate: Candidate,
+    trackId: number,
+    timestamp: number
+  ): Pose {
+    this.track = {
+      id: trackId,
+      keypoints: candidate.pose.keypoints,
+      boundingBox: candidate.boundingBox,
+      lastSeen: timestamp,
+    };
+
+    return { ...candidate.pose, trackId };
+  }
+
+  /**
+   * Notify event callbacks
+   */
+  private emit(type: SubjectTrackerEventType, timestamp: number): void {
+    if (!this.track) {
+      return;
+    }
+
+    const event: SubjectTrackerEvent = {
+      type,
+      trackId: this.track.id,
+      timestamp,
+    };
+    this.eventCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Error in subject tracker callback:', error);
+      }
+    });
+  }
+}
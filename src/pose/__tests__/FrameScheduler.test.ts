@@ -0,0 +1,247 @@
+/**
+ * FrameScheduler tests
+ * Inference is a promise the test finishes by hand; Date is faked so
+ * latencies are exact
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import {
+  DetectedPose,
+  PoseBackend,
+  PoseBackendCapabilities,
+} from '../backends/PoseBackend';
+import { FrameScheduler, FrameSchedulerConfig } from '../FrameScheduler';
+import { PoseService } from '../PoseService';
+
+vi.mock('expo-asset', () => ({ Asset: {} }));
+vi.mock('expo-file-system', () => ({ deleteAsync: async () => undefined }));
+
+/**
+ * Processor whose calls wait until the test finishes them
+ */
+function createProcessor() {
+  const calls: { frame: string; finish: () => void }[] = [];
+  const process = (frame: string) =>
+    new Promise<string>(resolve =>
+      calls.push({ frame, finish: () => resolve(frame) })
+    );
+  return { calls, process };
+}
+
+/**
+ * Let the scheduler move on to its next frame
+ */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+/**
+ * Submit frames back to back and finish each inference after durationMs
+ */
+async function runBurst(
+  frames: string[],
+  config: Partial<FrameSchedulerConfig>,
+  durationMs = 50
+) {
+  const { calls, process } = createProcessor();
+  const scheduler = new FrameScheduler(process, config);
+  const results = frames.map(frame => scheduler.submit(frame));
+
+  for (let finished = 0; finished < calls.length; finished++) {
+    vi.advanceTimersByTime(durationMs);
+    calls[finished]!.finish();
+    await flush();
+  }
+
+  return {
+    results: await Promise.all(results),
+    processed: calls.map(call => call.frame),
+    metrics: scheduler.getMetrics(),
+  };
+}
+
+describe('FrameScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('processes a frame that arrives while idle straight away', async () => {
+    const { calls, process } = createProcessor();
+    const scheduler = new FrameScheduler(process);
+
+    const result = scheduler.submit('a');
+    expect(calls.map(call => call.frame)).toEqual(['a']);
+
+    calls[0]!.finish();
+    expect(await result).toBe('a');
+  });
+
+  describe('policies', () => {
+    it('keeps only the newest waiting frame with "latest"', async () => {
+      const { results, processed, metrics } = await runBurst(
+        ['a', 'b', 'c', 'd'],
+        { policy: 'latest' }
+      );
+
+      expect(processed).toEqual(['a', 'd']);
+      expect(results).toEqual(['a', null, null, 'd']);
+      expect(metrics).toMatchObject({
+        submittedFrames: 4,
+        processedFrames: 2,
+        droppedFrames: 2,
+        queuedFrames: 0,
+      });
+    });
+
+    it('discards every frame that arrives while busy with "drop"', async () => {
+      const { results, processed, metrics } = await runBurst(['a', 'b', 'c'], {
+        policy: 'drop',
+      });
+
+      expect(processed).toEqual(['a']);
+      expect(results).toEqual(['a', null, null]);
+      expect(metrics.droppedFrames).toBe(2);
+    });
+
+    it('queues up to maxQueueSize frames, dropping the oldest, with "queue"', async () => {
+      const { results, processed, metrics } = await runBurst(
+        ['a', 'b', 'c', 'd', 'e'],
+        { policy: 'queue', maxQueueSize: 3 }
+      );
+
+      expect(processed).toEqual(['a', 'c', 'd', 'e']);
+      expect(results).toEqual(['a', null, 'c', 'd', 'e']);
+      expect(metrics.droppedFrames).toBe(1);
+    });
+
+    it('drops the oldest queued frames when the queue shrinks', () => {
+      const { process } = createProcessor();
+      const scheduler = new FrameScheduler(process, {
+        policy: 'queue',
+        maxQueueSize: 3,
+      });
+      ['a', 'b', 'c', 'd'].forEach(frame => scheduler.submit(frame));
+      expect(scheduler.getMetrics().queuedFrames).toBe(3);
+
+      scheduler.updateConfig({ maxQueueSize: 1 });
+
+      expect(scheduler.getMetrics()).toMatchObject({
+        queuedFrames: 1,
+        droppedFrames: 2,
+      });
+    });
+  });
+
+  describe('metrics', () => {
+    it('measures how long frames wait and how long they take', async () => {
+      const { metrics } = await runBurst(
+        ['a', 'b', 'c'],
+        { policy: 'queue', maxQueueSize: 2 },
+        40
+      );
+
+      // Waits of 0, 40 and 80 ms; each result 40 ms after it started
+      expect(metrics).toMatchObject({
+        lastQueueLatency: 80,
+        averageQueueLatency: 40,
+        lastFrameLatency: 120,
+        averageFrameLatency: 80,
+      });
+    });
+
+    it('counts the wait from capture, not from submission', async () => {
+      const { calls, process } = createProcessor();
+      const scheduler = new FrameScheduler(process);
+
+      const result = scheduler.submit('a', Date.now() - 30);
+      vi.advanceTimersByTime(20);
+      calls[0]!.finish();
+      await result;
+
+      expect(scheduler.getMetrics()).toMatchObject({
+        lastQueueLatency: 30,
+        lastFrameLatency: 50,
+      });
+    });
+
+    it('starts the counts and history over on resetMetrics', async () => {
+      const { calls, process } = createProcessor();
+      const scheduler = new FrameScheduler(process, { policy: 'drop' });
+      const result = scheduler.submit('a', Date.now() - 30);
+      scheduler.submit('b');
+      calls[0]!.finish();
+      await result;
+
+      scheduler.resetMetrics();
+
+      expect(scheduler.getMetrics()).toEqual({
+        submittedFrames: 0,
+        processedFrames: 0,
+        droppedFrames: 0,
+        queuedFrames: 0,
+        lastQueueLatency: 0,
+        averageQueueLatency: 0,
+        lastFrameLatency: 0,
+        averageFrameLatency: 0,
+      });
+    });
+  });
+
+  describe('through PoseService', () => {
+    /**
+     * Backend whose inferences wait until the test finishes them
+     */
+    class SlowBackend implements PoseBackend {
+      readonly capabilities: PoseBackendCapabilities = {
+        name: 'slow',
+        modelName: 'slow',
+        runtime: 'native',
+        keypoints: KEYPOINT_NAMES,
+        inputResolution: { width: 640, height: 480 },
+        supportsMultiPose: false,
+      };
+      pending: (() => void)[] = [];
+
+      async load(): Promise<void> {}
+
+      estimate(): Promise<DetectedPose[]> {
+        return new Promise(resolve => this.pending.push(() => resolve([])));
+      }
+
+      dispose(): void {}
+    }
+
+    it('reports dropped frames and queue latency', async () => {
+      const backend = new SlowBackend();
+      const poseService = new PoseService({}, backend);
+      await poseService.initialize();
+      const image = tf.zeros([480, 640, 3]) as tf.Tensor3D;
+
+      const first = poseService.estimatePose(image);
+      const dropped = poseService.estimatePose(image);
+      const last = poseService.estimatePose(image);
+      expect(await dropped).toMatchObject({ success: true });
+
+      vi.advanceTimersByTime(60);
+      backend.pending[0]!();
+      await first;
+      backend.pending[1]!();
+      await last;
+
+      expect(poseService.getPerformanceMetrics()).toMatchObject({
+        droppedFrames: 1,
+        queuedFrames: 0,
+        lastQueueLatency: 60,
+        averageQueueLatency: 30,
+      });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * KeypointFilter tests
+ * Jitter against lag on a noisy synthetic plank whose hips sag mid-trace
+ */
+
+import { describe, expect, it } from 'vitest';
+import { plankConfig } from '../../fsm/config/plank';
+import { SyntheticPoseGenerator } from '../../trace/SyntheticPoseGenerator';
+import { Keypoint, KeypointSmoothingConfig, Pose } from '../../types';
+import { KeypointFilter } from '../KeypointFilter';
+
+const SAG_START_MS = 5000;
+
+/**
+ * Plank at 10 FPS; the hips sag 20 degrees from SAG_START_MS
+ */
+function generate(noisePx: number): Pose[] {
+  return new SyntheticPoseGenerator({
+    stretchType: 'plank',
+    fps: 10,
+    noisePx,
+    seed: 3,
+    faults: [{ type: 'hip_sag', magnitude: 20, startMs: SAG_START_MS }],
+  }).generate(8000);
+}
+
+/**
+ * Hip error against the noise-free trace while still, and how long after
+ * the sag starts the filtered hip gets within 2 px of where it ends up
+ */
+function measure(smoothing: Partial<KeypointSmoothingConfig> | null) {
+  const clean = generate(0);
+  const noisy = generate(2);
+  const filter = new KeypointFilter(smoothing ?? {});
+  const output = noisy.map(pose => (smoothing ? filter.apply(pose) : pose));
+  const hipY = (pose: Pose) => pose.keypoints.left_hip.y;
+  const finalY = hipY(clean[clean.length - 1]!);
+
+  const stillErrors = output.flatMap((pose, i) =>
+    pose.timestamp >= 1000 && pose.timestamp < SAG_START_MS
+      ? [hipY(pose) - hipY(clean[i]!)]
+      : []
+  );
+  const settled = output.find(
+    pose => pose.timestamp > SAG_START_MS && Math.abs(hipY(pose) - finalY) < 2
+  );
+
+  return {
+    jitter: Math.sqrt(
+      stillErrors.reduce((sum, error) => sum + error ** 2, 0) /
+        stillErrors.length
+    ),
+    lagMs: settled ? settled.timestamp - SAG_START_MS : Infinity,
+  };
+}
+
+/**
+ * Pose 100 ms after the previous one with the left hip changed
+ */
+function moveHip(pose: Pose, changes: Partial<Keypoint>): Pose {
+  return {
+    ...pose,
+    keypoints: {
+      ...pose.keypoints,
+      left_hip: { ...pose.keypoints.left_hip, ...changes },
+    },
+    timestamp: pose.timestamp + 100,
+  };
+}
+
+describe('KeypointFilter', () => {
+  it('cuts jitter while still', () => {
+    const raw = measure(null);
+    const filtered = measure({});
+
+    expect(filtered.jitter).toBeLessThan(raw.jitter * 0.6);
+  });
+
+  it('follows a movement within two frames of the raw keypoints', () => {
+    const raw = measure(null);
+    const defaults = measure({});
+
+    expect(defaults.lagMs - raw.lagMs).toBeLessThanOrEqual(200);
+  });
+
+  it('trades a little lag for less jitter with the plank settings', () => {
+    const defaults = measure({});
+    const plank = measure(plankConfig.smoothing!);
+
+    expect(plank.jitter).toBeLessThan(defaults.jitter * 0.85);
+    expect(plank.lagMs).toBeGreaterThan(defaults.lagMs);
+    // The sag itself takes 500 ms to ramp in
+    expect(plank.lagMs).toBeLessThanOrEqual(1200);
+  });
+
+  it('passes the first sample of a keypoint through', () => {
+    const [pose] = generate(2);
+    const filtered = new KeypointFilter().apply(pose!);
+
+    expect(filtered.keypoints.left_hip).toEqual(pose!.keypoints.left_hip);
+  });
+
+  it('moves less for low-confidence samples', () => {
+    const [pose] = generate(0);
+    const { x } = pose!.keypoints.left_hip;
+    const moved = (confidence: number) => {
+      const filter = new KeypointFilter();
+      filter.apply(pose!);
+      return (
+        filter.apply(moveHip(pose!, { x: x + 20, confidence })).keypoints
+          .left_hip.x - x
+      );
+    };
+
+    expect(moved(0.3)).toBeLessThan(moved(0.9));
+    expect(moved(0.3)).toBeGreaterThan(0);
+    expect(moved(0)).toBe(0);
+  });
+
+  it('starts over once a keypoint is lost', () => {
+    const [pose] = generate(0);
+    const { x } = pose!.keypoints.left_hip;
+    const filter = new KeypointFilter();
+    filter.apply(pose!);
+
+    const lost = moveHip(pose!, { visibility: 'not_visible', confidence: 0 });
+    expect(filter.apply(lost).keypoints.left_hip).toEqual(
+      lost.keypoints.left_hip
+    );
+
+    // Back somewhere else: passed through, not pulled towards the old spot
+    const back = moveHip(lost, { x: x + 50, visibility: 'visible' });
+    expect(filter.apply(back).keypoints.left_hip.x).toBe(x + 50);
+  });
+});
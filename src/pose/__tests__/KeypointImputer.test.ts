@@ -0,0 +1,149 @@
+/**
+ * KeypointImputer tests
+ * A side-on leg and arm with a 100 px thigh, seen clearly until parts of it
+ * are lost; frames are 100 ms apart
+ */
+
+import { describe, expect, it } from 'vitest';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import { FeatureEngine } from '../../features/FeatureEngine';
+import { KeypointName, Pose } from '../../types';
+import { KeypointImputer } from '../KeypointImputer';
+
+type Points = Partial<Record<KeypointName, [number, number]>>;
+
+// Knee bent 90 degrees, shin pointing forward
+const LEG: Points = {
+  left_shoulder: [300, 100],
+  left_hip: [300, 200],
+  left_knee: [300, 300],
+  left_ankle: [400, 300],
+  left_elbow: [300, 150],
+  left_wrist: [350, 150],
+};
+
+/**
+ * Pose with the given keypoints seen at 0.95, except the lost ones
+ */
+function createPose(
+  points: Points,
+  timestamp: number,
+  lost: KeypointName[] = []
+): Pose {
+  const keypoints = {} as Pose['keypoints'];
+  KEYPOINT_NAMES.forEach(name => {
+    const point = points[name];
+    keypoints[name] =
+      point && !lost.includes(name)
+        ? { x: point[0], y: point[1], confidence: 0.95, visibility: 'visible' }
+        : { x: 0, y: 0, confidence: 0, visibility: 'not_visible' };
+  });
+  return {
+    keypoints,
+    timestamp,
+    frameId: `frame_${timestamp}`,
+    visibilityScore: 1,
+  };
+}
+
+/**
+ * Imputer that has seen the whole leg for a number of frames
+ */
+function createTrained(frames = 5): KeypointImputer {
+  const imputer = new KeypointImputer();
+  for (let frame = 0; frame < frames; frame++) {
+    imputer.apply(createPose(LEG, frame * 100));
+  }
+  return imputer;
+}
+
+describe('KeypointImputer', () => {
+  it('places a lost ankle at its last seen bend and length', () => {
+    const imputer = createTrained();
+
+    const { left_ankle } = imputer.apply(
+      createPose(LEG, 500, ['left_ankle'])
+    ).keypoints;
+
+    expect(left_ankle.x).toBeCloseTo(400);
+    expect(left_ankle.y).toBeCloseTo(300);
+    expect(left_ankle.visibility).toBe('occluded');
+    expect(left_ankle.confidence).toBeCloseTo(0.95 * 0.8);
+  });
+
+  it('keeps the bend as the thigh moves', () => {
+    const imputer = createTrained();
+
+    // Thigh swung forward to horizontal: the shin now points down
+    const { left_ankle } = imputer.apply(
+      createPose({ ...LEG, left_knee: [400, 200] }, 500, ['left_ankle'])
+    ).keypoints;
+
+    expect(left_ankle.x).toBeCloseTo(400);
+    expect(left_ankle.y).toBeCloseTo(100);
+  });
+
+  it('leaves seen keypoints alone', () => {
+    const imputer = createTrained();
+    const pose = createPose(LEG, 500);
+
+    expect(imputer.apply(pose).keypoints).toEqual(pose.keypoints);
+  });
+
+  it('waits for enough clear frames before imputing', () => {
+    const imputer = createTrained(4);
+
+    const { left_ankle } = imputer.apply(
+      createPose(LEG, 400, ['left_ankle'])
+    ).keypoints;
+
+    expect(left_ankle.visibility).toBe('not_visible');
+  });
+
+  it('stops imputing once the last sight is too old', () => {
+    const imputer = createTrained();
+
+    expect(
+      imputer.apply(createPose(LEG, 3400, ['left_ankle'])).keypoints.left_ankle
+        .visibility
+    ).toBe('occluded');
+    expect(
+      imputer.apply(createPose(LEG, 3500, ['left_ankle'])).keypoints.left_ankle
+        .visibility
+    ).toBe('not_visible');
+  });
+
+  it('forgets the limbs on reset', () => {
+    const imputer = createTrained();
+    imputer.reset();
+
+    expect(
+      imputer.apply(createPose(LEG, 500, ['left_wrist'])).keypoints.left_wrist
+        .visibility
+    ).toBe('not_visible');
+  });
+
+  it('imputes from seen joints only', () => {
+    const pose = createTrained().apply(
+      createPose(LEG, 500, ['left_knee', 'left_ankle'])
+    );
+
+    expect(pose.keypoints.left_knee.visibility).toBe('occluded');
+    expect(pose.keypoints.left_ankle.visibility).toBe('not_visible');
+  });
+
+  it('imputes keypoints the features can measure', () => {
+    const kneeAngle = (pose: Pose) =>
+      new FeatureEngine().calculateFeatures(pose).data!.angles.leftKnee;
+    const imputer = createTrained();
+
+    expect(
+      kneeAngle(imputer.apply(createPose(LEG, 500, ['left_knee'])))
+    ).toBeCloseTo(90);
+
+    // A knee seen at 0.8 still places an ankle above the visibility threshold
+    const faintKnee = createPose(LEG, 600, ['left_ankle']);
+    faintKnee.keypoints.left_knee.confidence = 0.8;
+    expect(kneeAngle(imputer.apply(faintKnee))).toBeCloseTo(90);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * PoseNetDecoder tests
+ * Hand-built heatmap and offset buffers with known answers, decoded directly
+ * and through PoseService
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { describe, expect, it, vi } from 'vitest';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import { KeypointName } from '../../types';
+import {
+  DetectedPose,
+  PoseBackend,
+  PoseBackendCapabilities,
+} from '../backends/PoseBackend';
+import {
+  decodeMultiplePoses,
+  decodeSinglePose,
+  identifyPoseNetOutputs,
+  POSENET_NUM_KEYPOINTS,
+  POSENET_PART_NAMES,
+  scaleKeypoints,
+} from '../PoseNetDecoder';
+import { PoseService } from '../PoseService';
+
+vi.mock('expo-asset', () => ({ Asset: {} }));
+vi.mock('expo-file-system', () => ({ deleteAsync: async () => undefined }));
+
+const HEIGHT = 5;
+const WIDTH = 6;
+const STRIDE = 16;
+
+/**
+ * Heatmaps filled with a low score, offsets filled with zeros
+ */
+function createBuffers(fill = -5) {
+  const heatmaps = tf.buffer<tf.Rank.R3>(
+    [HEIGHT, WIDTH, POSENET_NUM_KEYPOINTS],
+    'float32',
+    new Float32Array(HEIGHT * WIDTH * POSENET_NUM_KEYPOINTS).fill(fill)
+  );
+  const offsets = tf.buffer<tf.Rank.R3>(
+    [HEIGHT, WIDTH, POSENET_NUM_KEYPOINTS * 2],
+    'float32'
+  );
+  return { heatmaps, offsets };
+}
+
+describe('decodeSinglePose', () => {
+  it('picks the strongest heatmap cell of each keypoint', () => {
+    const { heatmaps, offsets } = createBuffers();
+    POSENET_PART_NAMES.forEach((_, keypointId) => {
+      const y = keypointId % HEIGHT;
+      const x = keypointId % WIDTH;
+      heatmaps.set(2, y, x, keypointId);
+      // A weaker cell elsewhere must lose
+      heatmaps.set(1, (y + 1) % HEIGHT, (x + 2) % WIDTH, keypointId);
+    });
+
+    const keypoints = decodeSinglePose(heatmaps, offsets, STRIDE);
+
+    expect(keypoints).toHaveLength(POSENET_NUM_KEYPOINTS);
+    keypoints.forEach((keypoint, keypointId) => {
+      expect(keypoint.part).toBe(POSENET_PART_NAMES[keypointId]);
+      expect(keypoint.y).toBe((keypointId % HEIGHT) * STRIDE);
+      expect(keypoint.x).toBe((keypointId % WIDTH) * STRIDE);
+      expect(keypoint.score).toBe(2);
+    });
+  });
+
+  it('refines the cell with y offsets then x offsets', () => {
+    const { heatmaps, offsets } = createBuffers();
+    const leftKnee = POSENET_PART_NAMES.indexOf('leftKnee');
+    heatmaps.set(3, 4, 1, leftKnee);
+    offsets.set(-5.5, 4, 1, leftKnee);
+    offsets.set(7.25, 4, 1, leftKnee + POSENET_NUM_KEYPOINTS);
+    // Offsets of other cells are ignored
+    offsets.set(100, 0, 0, leftKnee);
+
+    const keypoint = decodeSinglePose(heatmaps, offsets, STRIDE)[leftKnee]!;
+
+    expect(keypoint.y).toBeCloseTo(4 * STRIDE - 5.5);
+    expect(keypoint.x).toBeCloseTo(1 * STRIDE + 7.25);
+  });
+
+  it('scales cells by the output stride', () => {
+    const { heatmaps, offsets } = createBuffers();
+    heatmaps.set(1, 3, 5, 0);
+
+    expect(decodeSinglePose(heatmaps, offsets, 8)[0]).toMatchObject({
+      x: 40,
+      y: 24,
+    });
+    expect(decodeSinglePose(heatmaps, offsets, 32)[0]).toMatchObject({
+      x: 160,
+      y: 96,
+    });
+  });
+
+  it('keeps the first cell when scores tie', () => {
+    const { heatmaps, offsets } = createBuffers(0);
+
+    const keypoint = decodeSinglePose(heatmaps, offsets, STRIDE)[0]!;
+
+    expect(keypoint).toMatchObject({ x: 0, y: 0, score: 0 });
+  });
+});
+
+describe('scaleKeypoints', () => {
+  it('maps model input coordinates onto the image and clamps them', () => {
+    const scaled = scaleKeypoints(
+      [
+        { part: 'nose', x: 128, y: 64, score: 0.9 },
+        { part: 'leftEye', x: -10, y: 300, score: 0.5 },
+      ],
+      257,
+      514,
+      771
+    );
+
+    expect(scaled[0]).toMatchObject({ x: 256, y: 192, score: 0.9 });
+    expect(scaled[1]).toMatchObject({ x: 0, y: 771 });
+  });
+});
+
+describe('identifyPoseNetOutputs', () => {
+  it('sorts outputs by channel count and drops the batch dimension', () => {
+    const heatmaps = tf.zeros([1, HEIGHT, WIDTH, POSENET_NUM_KEYPOINTS]);
+    const offsets = tf.zeros([1, HEIGHT, WIDTH, POSENET_NUM_KEYPOINTS * 2]);
+    const displacementFwd = tf.zeros([1, HEIGHT, WIDTH, 32]);
+    const displacementBwd = tf.zeros([1, HEIGHT, WIDTH, 32]);
+
+    const outputs = identifyPoseNetOutputs([
+      offsets,
+      displacementFwd,
+      heatmaps,
+      displacementBwd,
+    ]);
+
+    expect(outputs.heatmaps.shape).toEqual([
+      HEIGHT,
+      WIDTH,
+      POSENET_NUM_KEYPOINTS,
+    ]);
+    expect(outputs.offsets.shape).toEqual([
+      HEIGHT,
+      WIDTH,
+      POSENET_NUM_KEYPOINTS * 2,
+    ]);
+    expect(outputs.displacementFwd?.shape).toEqual([HEIGHT, WIDTH, 32]);
+    tf.dispose([heatmaps, offsets, displacementFwd, displacementBwd]);
+  });
+
+  it('rejects outputs without heatmaps', () => {
+    const offsets = tf.zeros([HEIGHT, WIDTH, POSENET_NUM_KEYPOINTS * 2]);
+
+    expect(() => identifyPoseNetOutputs([offsets])).toThrow(
+      /Unexpected PoseNet outputs/
+    );
+    offsets.dispose();
+  });
+});
+
+describe('decodeMultiplePoses', () => {
+  it('decodes a root part and skips candidates inside the NMS radius', () => {
+    const { heatmaps, offsets } = createBuffers();
+    const numEdges = 16;
+    const displacementFwd = tf.buffer<tf.Rank.R3>(
+      [HEIGHT, WIDTH, numEdges * 2],
+      'float32'
+    );
+    const displacementBwd = tf.buffer<tf.Rank.R3>(
+      [HEIGHT, WIDTH, numEdges * 2],
+      'float32'
+    );
+    heatmaps.set(0.9, 2, 3, 0);
+    // Neighbouring maximum of the same pose, closer than the NMS radius
+    heatmaps.set(0.8, 2, 4, 1);
+
+    const poses = decodeMultiplePoses(
+      heatmaps,
+      offsets,
+      displacementFwd,
+      displacementBwd,
+      { outputStride: STRIDE, maxPoses: 5, scoreThreshold: 0.5, nmsRadius: 20 }
+    );
+
+    expect(poses).toHaveLength(1);
+    expect(poses[0]!.keypoints[0]).toMatchObject({
+      part: 'nose',
+      x: 3 * STRIDE,
+      y: 2 * STRIDE,
+      score: expect.closeTo(0.9),
+    });
+  });
+});
+
+describe('through PoseService', () => {
+  const INPUT_RESOLUTION = WIDTH * STRIDE;
+
+  /**
+   * leftKnee -> left_knee
+   */
+  function toKeypointName(part: string): KeypointName {
+    return part.replace(
+      /[A-Z]/g,
+      letter => `_${letter.toLowerCase()}`
+    ) as KeypointName;
+  }
+
+  /**
+   * Backend that decodes fixed buffers the way PoseNetBackend decodes the
+   * model outputs
+   */
+  class BufferBackend implements PoseBackend {
+    readonly capabilities: PoseBackendCapabilities = {
+      name: 'buffers',
+      modelName: 'buffers',
+      runtime: 'tfjs',
+      keypoints: POSENET_PART_NAMES.map(toKeypointName),
+      inputResolution: { width: INPUT_RESOLUTION, height: INPUT_RESOLUTION },
+      supportsMultiPose: false,
+    };
+
+    private buffers: ReturnType<typeof createBuffers>;
+
+    constructor(buffers: ReturnType<typeof createBuffers>) {
+      this.buffers = buffers;
+    }
+
+    async load(): Promise<void> {}
+
+    async estimate(
+      _image: tf.Tensor3D,
+      imageWidth: number,
+      imageHeight: number
+    ): Promise<DetectedPose[]> {
+      const keypoints = scaleKeypoints(
+        decodeSinglePose(this.buffers.heatmaps, this.buffers.offsets, STRIDE),
+        INPUT_RESOLUTION,
+        imageWidth,
+        imageHeight
+      );
+      return [
+        {
+          keypoints: keypoints.map(({ part, x, y, score }) => ({
+            name: toKeypointName(part),
+            x,
+            y,
+            score,
+          })),
+          score: 1,
+        },
+      ];
+    }
+
+    dispose(): void {}
+  }
+
+  it('returns every keypoint by name in frame coordinates', async () => {
+    const buffers = createBuffers(0.3);
+    const leftKnee = POSENET_PART_NAMES.indexOf('leftKnee');
+    buffers.heatmaps.set(0.9, 4, 1, leftKnee);
+    buffers.offsets.set(-5.5, 4, 1, leftKnee);
+    buffers.offsets.set(7.25, 4, 1, leftKnee + POSENET_NUM_KEYPOINTS);
+    const poseService = new PoseService(
+      { enableSmoothing: false, enableImputation: false },
+      new BufferBackend(buffers)
+    );
+    await poseService.initialize();
+
+    const result = await poseService.estimatePose(
+      tf.zeros([480, 640, 3]) as tf.Tensor3D
+    );
+    const keypoints = result.data!.keypoints;
+
+    expect(Object.keys(keypoints).sort()).toEqual([...KEYPOINT_NAMES].sort());
+    // Model input is 96 pixels square
+    expect(keypoints.left_knee).toEqual({
+      x: expect.closeTo(((1 * STRIDE + 7.25) * 640) / INPUT_RESOLUTION),
+      y: expect.closeTo(((4 * STRIDE - 5.5) * 480) / INPUT_RESOLUTION),
+      confidence: expect.closeTo(0.9),
+      visibility: 'visible',
+    });
+    expect(keypoints.right_knee).toMatchObject({
+      x: 0,
+      y: 0,
+      confidence: expect.closeTo(0.3),
+      visibility: 'not_visible',
+    });
+    // PoseNet has no feet
+    expect(keypoints.left_toe).toEqual({
+      x: 0,
+      y: 0,
+      confidence: 0,
+      visibility: 'not_visible',
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * SubjectTracker tests
+ * The subject holds a quad stretch in the middle of a 640x480 frame while a
+ * smaller passer-by walks across behind them; frames are 100 ms apart
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { SyntheticPoseGenerator } from '../../trace/SyntheticPoseGenerator';
+import { Pose } from '../../types';
+import { SubjectTracker, SubjectTrackerEvent } from '../SubjectTracker';
+
+const FRAME_WIDTH = 640;
+const FRAME_HEIGHT = 480;
+
+/**
+ * Pose moved sideways by dx pixels
+ */
+function shift(pose: Pose, dx: number): Pose {
+  const keypoints = { ...pose.keypoints };
+  Object.values(keypoints).forEach(keypoint => {
+    keypoint.x += dx;
+  });
+  return { ...pose, keypoints };
+}
+
+describe('SubjectTracker', () => {
+  let subject: SyntheticPoseGenerator;
+  let passerBy: SyntheticPoseGenerator;
+  let tracker: SubjectTracker;
+  let events: SubjectTrackerEvent[];
+
+  const update = (poses: Pose[], timestamp: number) =>
+    tracker.update(poses, FRAME_WIDTH, FRAME_HEIGHT, timestamp);
+
+  /**
+   * Lock onto the subject at time 0
+   */
+  const lockSubject = () => {
+    update([subject.next()], 0);
+    tracker.lock();
+  };
+
+  beforeEach(() => {
+    subject = new SyntheticPoseGenerator({ stretchType: 'quad' });
+    passerBy = new SyntheticPoseGenerator({
+      stretchType: 'shoulder_cross',
+      bodyHeight: 250,
+      seed: 2,
+    });
+    tracker = new SubjectTracker();
+    events = [];
+    tracker.addEventCallback(event => events.push(event));
+  });
+
+  it('follows the largest person until locked', () => {
+    const subjectPose = subject.next();
+    const pose = update([shift(passerBy.next(), 200), subjectPose], 0);
+
+    expect(pose).toEqual({ ...subjectPose, trackId: 1 });
+    expect(tracker.isSubjectLocked()).toBe(false);
+  });
+
+  it('locks onto the next person seen when nobody is yet', () => {
+    tracker.lock();
+    expect(events).toEqual([]);
+
+    update([subject.next()], 100);
+
+    expect(tracker.isSubjectLocked()).toBe(true);
+    expect(events).toEqual([
+      { type: 'subject_locked', trackId: 1, timestamp: 100 },
+    ]);
+  });
+
+  it('stays on the locked subject while someone crosses behind them', () => {
+    lockSubject();
+
+    // Right to left across the whole frame, through the subject
+    for (let frame = 1; frame <= 30; frame++) {
+      const subjectPose = subject.next();
+      const pose = update(
+        [shift(passerBy.next(), 300 - frame * 20), subjectPose],
+        frame * 100
+      );
+
+      expect(pose).toEqual({ ...subjectPose, trackId: 1 });
+    }
+    expect(events.map(event => event.type)).toEqual(['subject_locked']);
+  });
+
+  it('ignores everyone else while the subject is briefly missing', () => {
+    lockSubject();
+
+    for (let frame = 1; frame <= 10; frame++) {
+      expect(update([passerBy.next()], frame * 100)).toBeNull();
+    }
+    const pose = update([passerBy.next(), subject.next()], 1100);
+
+    expect(pose?.trackId).toBe(1);
+    expect(events.map(event => event.type)).toEqual(['subject_locked']);
+  });
+
+  it('reports the subject lost after lostTimeoutMs, and back again', () => {
+    lockSubject();
+
+    update([], 1000);
+    expect(events.map(event => event.type)).toEqual(['subject_locked']);
+    update([], 1100);
+    update([], 1200);
+
+    expect(events.slice(1)).toEqual([
+      { type: 'subject_lost', trackId: 1, timestamp: 1100 },
+    ]);
+    expect(tracker.isSubjectLocked()).toBe(true);
+
+    expect(update([subject.next()], 1300)?.trackId).toBe(1);
+    expect(events.slice(2)).toEqual([
+      { type: 'subject_reacquired', trackId: 1, timestamp: 1300 },
+    ]);
+  });
+
+  it('picks up someone else once the lock of a lost subject is released', () => {
+    lockSubject();
+    update([passerBy.next()], 1100);
+    expect(update([passerBy.next()], 1200)).toBeNull();
+
+    // After the session's grace period
+    tracker.release();
+
+    const pose = update([passerBy.next()], 1300);
+    expect(pose?.trackId).toBe(2);
+    expect(tracker.isSubjectLocked()).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * BlazePoseBackend - BlazePose landmark model running on TF.js
+ * The only backend that tracks heels and toes
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { KeypointName } from '../../types';
+import {
+  DetectedPose,
+  ImageInput,
+  PoseBackend,
+  PoseBackendCapabilities,
+} from './PoseBackend';
+
+export const BLAZEPOSE_MODEL_URL =
+  'https://tfhub.dev/mediapipe/tfjs-model/blazepose_3d/landmark/full/2';
+
+export interface BlazePoseBackendConfig {
+  model: string | tf.io.IOHandler; // URL or bundled-asset IO handler
+  inputResolution: number;
+}
+
+// Values per landmark in the output tensor: x, y, z, visibility, presence
+const LANDMARK_STRIDE = 5;
+const NUM_LANDMARKS = 33;
+const NUM_LANDMARKS_WITH_AUXILIARY = 39;
+
+// BlazePose landmark index for each keypoint we track
+// Mouth, inner/outer eye and hand landmarks are dropped
+const LANDMARK_INDEX: Record<KeypointName, number> = {
+  nose: 0,
+  left_eye: 2,
+  right_eye: 5,
+  left_ear: 7,
+  right_ear: 8,
+  left_shoulder: 11,
+  right_shoulder: 12,
+  left_elbow: 13,
+  right_elbow: 14,
+  left_wrist: 15,
+  right_wrist: 16,
+  left_hip: 23,
+  right_hip: 24,
+  left_knee: 25,
+  right_knee: 26,
+  left_ankle: 27,
+  right_ankle: 28,
+  left_heel: 29,
+  right_heel: 30,
+  left_toe: 31, // left_foot_index
+  right_toe: 32, // right_foot_index
+};
+
+export class BlazePoseBackend implements PoseBackend {
+  readonly capabilities: PoseBackendCapabilities;
+  private model: tf.GraphModel | null = null;
+  private config: BlazePoseBackendConfig;
+
+  constructor(config: BlazePoseBackendConfig) {
+    this.config = config;
+    this.capabilities = {
+      name: 'blazepose',
+      modelName: 'blazepose-full',
+      runtime: 'tfjs',
+      keypoints: Object.keys(LANDMARK_INDEX) as KeypointName[],
+      inputResolution: {
+        width: config.inputResolution,
+        height: config.inputResolution,
+      },
+      supportsMultiPose: false,
+    };
+  }
+
+  /**
+   * Load the landmark model and warm it up with a dummy input
+   */
+  async load(): Promise<void> {
+    this.model = await tf.loadGraphModel(this.config.model, {
+      fromTFHub:
+        typeof this.config.model === 'string' &&
+        this.config.model.includes('tfhub.dev'),
+    });
+
+    const { inputResolution } = this.config;
+    const dummyInput = tf.zeros([1, inputResolution, inputResolution, 3]);
+    const warmup = this.model.execute(dummyInput);
+    (Array.isArray(warmup) ? warmup : [warmup]).forEach(tensor =>
+      tensor.dispose()
+    );
+    dummyInput.dispose();
+  }
+
+  /**
+   * Run the landmark model on the full frame
+   * Without the detector stage the subject should fill most of the frame
+   */
+  async estimate(
+    image: ImageInput,
+    imageWidth: number,
+    imageHeight: number
+  ): Promise<DetectedPose[]> {
+    if (!this.model) {
+      throw new Error('BlazePose model not loaded');
+    }
+
+    const { inputResolution } = this.config;
+    const model = this.model;
+
+    const outputs = tf.tidy(() => {
+      const resizedImage = tf.image.resizeBilinear(image, [
+        inputResolution,
+        inputResolution,
+      ]);
+      const output = model.execute(resizedImage.div(255.0).expandDims(0));
+      return Array.isArray(output) ? output : [output];
+    });
+
+    try {
+      // The landmark tensor is the one sized for 33 or 39 landmark rows
+      const landmarks = outputs.find(
+        tensor =>
+          tensor.size === NUM_LANDMARKS * LANDMARK_STRIDE ||
+          tensor.size === NUM_LANDMARKS_WITH_AUXILIARY * LANDMARK_STRIDE
+      );
+      if (!landmarks) {
+        throw new Error('BlazePose landmark output not found');
+      }
+
+      const values = await landmarks.data();
+      const scaleX = imageWidth / inputResolution;
+      const scaleY = imageHeight / inputResolution;
+
+      const keypoints = this.capabilities.keypoints.map(name => {
+        const offset = LANDMARK_INDEX[name] * LANDMARK_STRIDE;
+        const visibility = values[offset + 3] ?? -Infinity;
+
+        return {
+          name,
+          x: (values[offset] ?? 0) * scaleX,
+          y: (values[offset + 1] ?? 0) * scaleY,
+          score: 1 / (1 + Math.exp(-visibility)),
+        };
+      });
+
+      return [
+        {
+          keypoints,
+          score:
+            keypoints.reduce((sum, keypoint) => sum + keypoint.score, 0) /
+            keypoints.length,
+        },
+      ];
+    } finally {
+      outputs.forEach(tensor => tensor.dispose());
+    }
+  }
+
+  /**
+   * Release model resources
+   */
+  dispose(): void {
+    if (this.model) {
+      this.model.dispose();
+      this.model = null;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * MoveNetBackend - MoveNet SinglePose running on TF.js
+ * Faster than PoseNet with the same 17 COCO keypoints
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { KeypointName } from '../../types';
+import {
+  DetectedPose,
+  ImageInput,
+  PoseBackend,
+  PoseBackendCapabilities,
+} from './PoseBackend';
+
+export const MOVENET_MODEL_URLS = {
+  lightning:
+    'https://tfhub.dev/google/tfjs-model/movenet/singlepose/lightning/4',
+  thunder: 'https://tfhub.dev/google/tfjs-model/movenet/singlepose/thunder/4',
+} as const;
+
+export interface MoveNetBackendConfig {
+  model: string | tf.io.IOHandler; // URL or bundled-asset IO handler
+  variant: 'lightning' | 'thunder';
+}
+
+// MoveNet output order (COCO)
+const MOVENET_KEYPOINTS: readonly KeypointName[] = [
+  'nose',
+  'left_eye',
+  'right_eye',
+  'left_ear',
+  'right_ear',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+];
+
+const INPUT_RESOLUTION = { lightning: 192, thunder: 256 } as const;
+
+export class MoveNetBackend implements PoseBackend {
+  readonly capabilities: PoseBackendCapabilities;
+  private model: tf.GraphModel | null = null;
+  private config: MoveNetBackendConfig;
+
+  constructor(config: MoveNetBackendConfig) {
+    this.config = config;
+
+    const resolution = INPUT_RESOLUTION[config.variant];
+    this.capabilities = {
+      name: 'movenet',
+      modelName: `movenet-${config.variant}`,
+      runtime: 'tfjs',
+      keypoints: MOVENET_KEYPOINTS,
+      inputResolution: { width: resolution, height: resolution },
+      supportsMultiPose: false,
+    };
+  }
+
+  /**
+   * Load the MoveNet graph model and warm it up with a dummy input
+   */
+  async load(): Promise<void> {
+    this.model = await tf.loadGraphModel(this.config.model, {
+      fromTFHub:
+        typeof this.config.model === 'string' &&
+        this.config.model.includes('tfhub.dev'),
+    });
+
+    const { width, height } = this.capabilities.inputResolution;
+    const dummyInput = tf.zeros([1, height, width, 3], 'int32');
+    const warmup = this.model.execute(dummyInput) as tf.Tensor;
+    warmup.dispose();
+    dummyInput.dispose();
+  }
+
+  /**
+   * Run MoveNet; output is [1, 1, 17, 3] of normalized (y, x, score)
+   */
+  async estimate(
+    image: ImageInput,
+    imageWidth: number,
+    imageHeight: number
+  ): Promise<DetectedPose[]> {
+    if (!this.model) {
+      throw new Error('MoveNet model not loaded');
+    }
+
+    const { width, height } = this.capabilities.inputResolution;
+    const model = this.model;
+
+    const output = tf.tidy(() => {
+      const resizedImage = tf.image.resizeBilinear(image, [height, width]);
+      return model.execute(resizedImage.toInt().expandDims(0)) as tf.Tensor;
+    });
+
+    try {
+      const values = await output.data();
+
+      const keypoints = MOVENET_KEYPOINTS.map((name, index) => ({
+        name,
+        x: (values[index * 3 + 1] ?? 0) * imageWidth,
+        y: (values[index * 3] ?? 0) * imageHeight,
+        score: values[index * 3 + 2] ?? 0,
+      }));
+
+      return [
+        {
+          keypoints,
+          score:
+            keypoints.reduce((sum, keypoint) => sum + keypoint.score, 0) /
+            keypoints.length,
+        },
+      ];
+    } finally {
+      output.dispose();
+    }
+  }
+
+  /**
+   * Release model resources
+   */
+  dispose(): void {
+    if (this.model) {
+      this.model.dispose();
+      this.model = null;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * PoseBackend - Common interface for pose estimation runtimes
+ * Lets PoseService swap TF.js models for a native pose library
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { KeypointName } from '../../types';
+
+// RGB pixels as [height, width, 3]; owned (and disposed) by the caller
+export type ImageInput = tf.Tensor3D;
+
+export type PoseBackendType = 'posenet' | 'movenet' | 'blazepose';
+
+export type PoseBackendRuntime = 'tfjs' | 'native';
+
+/**
+ * What a backend can produce and how it runs
+ */
+export interface PoseBackendCapabilities {
+  name: string;
+  modelName: string; // Model variant loaded; bundled manifests must match it
+  runtime: PoseBackendRuntime;
+  keypoints: readonly KeypointName[]; // Keypoints the model actually outputs
+  inputResolution: {
+    width: number;
+    height: number;
+  };
+  supportsMultiPose: boolean;
+}
+
+/**
+ * Keypoint as reported by a backend, in source frame coordinates
+ */
+export interface DetectedKeypoint {
+  name: KeypointName;
+  x: number;
+  y: number;
+  score: number; // 0-1
+}
+
+/**
+ * One person found in a frame
+ */
+export interface DetectedPose {
+  keypoints: DetectedKeypoint[];
+  score: number; // 0-1 instance score
+}
+
+/**
+ * Per-call decoding options
+ */
+export interface EstimateOptions {
+  maxPoses: number;
+  scoreThreshold: number;
+  nmsRadius: number; // In model input pixels
+}
+
+export interface PoseBackend {
+  readonly capabilities: PoseBackendCapabilities;
+
+  /**
+   * Load model weights and warm up the runtime
+   */
+  load(): Promise<void>;
+
+  /**
+   * Run inference on a single frame; single-pose models return one entry
+   */
+  estimate(
+    image: ImageInput,
+    imageWidth: number,
+    imageHeight: number,
+    options: EstimateOptions
+  ): Promise<DetectedPose[]>;
+
+  /**
+   * Release model resources
+   */
+  dispose(): void;
+}
@@ -0,0 +1,202 @@
+/**
+ * PoseNetBackend - PoseNet MobileNetV1 running on TF.js
+ * Produces the 17 COCO keypoints via heatmap/offset decoding
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { KeypointName } from '../../types';
+import {
+  DecodedKeypoint,
+  PoseNetPartName,
+  decodeMultiplePoses,
+  decodeSinglePose,
+  identifyPoseNetOutputs,
+  scaleKeypoints,
+} from '../PoseNetDecoder';
+import {
+  DetectedKeypoint,
+  DetectedPose,
+  EstimateOptions,
+  ImageInput,
+  PoseBackend,
+  PoseBackendCapabilities,
+} from './PoseBackend';
+
+export const POSENET_MODEL_URL =
+  'https://tfhub.dev/google/tfjs-model/posenet/mobilenet/float/050/1/default/1';
+
+export interface PoseNetConfig {
+  architecture: 'MobileNetV1' | 'ResNet50';
+  outputStride: 8 | 16 | 32;
+  inputResolution: number;
+  multiplier: 0.5 | 0.75 | 1.0 | 1.01;
+  quantBytes: 1 | 2 | 4;
+}
+
+export interface PoseNetBackendConfig {
+  model: string | tf.io.IOHandler; // URL or bundled-asset IO handler
+  poseNetConfig: PoseNetConfig;
+}
+
+// Keypoint name mapping from PoseNet to our KeypointName type
+const KEYPOINT_MAPPING: Record<PoseNetPartName, KeypointName> = {
+  nose: 'nose',
+  leftEye: 'left_eye',
+  rightEye: 'right_eye',
+  leftEar: 'left_ear',
+  rightEar: 'right_ear',
+  leftShoulder: 'left_shoulder',
+  rightShoulder: 'right_shoulder',
+  leftElbow: 'left_elbow',
+  rightElbow: 'right_elbow',
+  leftWrist: 'left_wrist',
+  rightWrist: 'right_wrist',
+  leftHip: 'left_hip',
+  rightHip: 'right_hip',
+  leftKnee: 'left_knee',
+  rightKnee: 'right_knee',
+  leftAnkle: 'left_ankle',
+  rightAnkle: 'right_ankle',
+};
+
+export class PoseNetBackend implements PoseBackend {
+  readonly capabilities: PoseBackendCapabilities;
+  private model: tf.LayersModel | null = null;
+  private config: PoseNetBackendConfig;
+
+  constructor(config: PoseNetBackendConfig) {
+    this.config = config;
+
+    const { architecture, inputResolution, multiplier } = config.poseNetConfig;
+    const depth = String(Math.round(multiplier * 100)).padStart(3, '0');
+    this.capabilities = {
+      name: 'posenet',
+      modelName: `posenet-${architecture === 'ResNet50' ? 'resnet50' : 'mobilenet'}-${depth}`,
+      runtime: 'tfjs',
+      keypoints: Object.values(KEYPOINT_MAPPING),
+      inputResolution: { width: inputResolution, height: inputResolution },
+      supportsMultiPose: true,
+    };
+  }
+
+  /**
+   * Load the PoseNet model and warm it up with a dummy input
+   */
+  async load(): Promise<void> {
+    this.model = await tf.loadLayersModel(this.config.model);
+
+    const { inputResolution } = this.config.poseNetConfig;
+    const dummyInput = tf.zeros([1, inputResolution, inputResolution, 3]);
+    const warmup = this.model.predict(dummyInput);
+    (Array.isArray(warmup) ? warmup : [warmup]).forEach(tensor =>
+      tensor.dispose()
+    );
+    dummyInput.dispose();
+  }
+
+  /**
+   * Run PoseNet; decodes several poses when asked for more than one
+   */
+  async estimate(
+    image: ImageInput,
+    imageWidth: number,
+    imageHeight: number,
+    options: EstimateOptions
+  ): Promise<DetectedPose[]> {
+    if (!this.model) {
+      throw new Error('PoseNet model not loaded');
+    }
+
+    const { inputResolution, outputStride } = this.config.poseNetConfig;
+    const model = this.model;
+
+    const predictions = tf.tidy(() => {
+      const resizedImage = tf.image.resizeBilinear(image, [
+        inputResolution,
+        inputResolution,
+      ]);
+      const batchedImage = resizedImage.div(255.0).expandDims(0);
+      const output = model.predict(batchedImage);
+      return Array.isArray(output) ? output : [output];
+    });
+
+    try {
+      const outputs = identifyPoseNetOutputs(predictions);
+
+      const multiPose =
+        options.maxPoses > 1 &&
+        outputs.displacementFwd !== undefined &&
+        outputs.displacementBwd !== undefined;
+
+      // Heatmaps come out as logits
+      const heatmapScores = tf.sigmoid(outputs.heatmaps) as tf.Tensor3D;
+      const [heatmapBuffer, offsetBuffer, fwdBuffer, bwdBuffer] =
+        await Promise.all([
+          heatmapScores.buffer(),
+          outputs.offsets.buffer(),
+          multiPose ? outputs.displacementFwd!.buffer() : null,
+          multiPose ? outputs.displacementBwd!.buffer() : null,
+        ]);
+      heatmapScores.dispose();
+      [
+        outputs.heatmaps,
+        outputs.offsets,
+        outputs.displacementFwd,
+        outputs.displacementBwd,
+      ].forEach(tensor => {
+        if (tensor && !predictions.includes(tensor)) {
+          tensor.dispose();
+        }
+      });
+
+      const toDetected = (keypoints: DecodedKeypoint[]): DetectedKeypoint[] =>
+        scaleKeypoints(keypoints, inputResolution, imageWidth, imageHeight).map(
+          ({ part, x, y, score }) => ({
+            name: KEYPOINT_MAPPING[part],
+            x,
+            y,
+            score,
+          })
+        );
+
+      if (fwdBuffer && bwdBuffer) {
+        return decodeMultiplePoses(
+          heatmapBuffer,
+          offsetBuffer,
+          fwdBuffer,
+          bwdBuffer,
+          { outputStride, ...options }
+        ).map(pose => ({
+          keypoints: toDetected(pose.keypoints),
+          score: pose.score,
+        }));
+      }
+
+      const keypoints = decodeSinglePose(
+        heatmapBuffer,
+        offsetBuffer,
+        outputStride
+      );
+      return [
+        {
+          keypoints: toDetected(keypoints),
+          score:
+            keypoints.reduce((sum, keypoint) => sum + keypoint.score, 0) /
+            keypoints.length,
+        },
+      ];
+    } finally {
+      predictions.forEach(tensor => tensor.dispose());
+    }
+  }
+
+  /**
+   * Release model resources
+   */
+  dispose(): void {
+    if (this.model) {
+      this.model.dispose();
+      this.model = null;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * BundledModelSource - Loads pose model weights from app assets
+ * Exposes a TF.js IO handler so no network is needed at startup
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { Asset } from 'expo-asset';
+import { ValidationResult } from '../../types';
+import { PoseBackendType } from '../backends/PoseBackend';
+import {
+  BundledModel,
+  computeChecksum,
+  validateManifest,
+} from './ModelManifest';
+
+// Type definitions for browser globals in React Native environment
+declare const fetch: (
+  url: string
+) => Promise<{ arrayBuffer: () => Promise<ArrayBuffer> }>;
+
+/**
+ * Read a bundled asset into memory
+ */
+export async function readAssetBytes(moduleId: number): Promise<ArrayBuffer> {
+  const asset = Asset.fromModule(moduleId);
+  await asset.downloadAsync();
+
+  const response = await fetch(asset.localUri ?? asset.uri);
+  return response.arrayBuffer();
+}
+
+export class BundledModelSource {
+  private model: BundledModel;
+  private readAsset: (moduleId: number) => Promise<ArrayBuffer>;
+  private weights: Promise<ArrayBuffer[]> | null = null;
+  private verifiedWeights: ArrayBuffer[] | null = null; // Passed the checksum
+
+  constructor(
+    model: BundledModel,
+    readAsset: (moduleId: number) => Promise<ArrayBuffer> = readAssetBytes
+  ) {
+    this.model = model;
+    this.readAsset = readAsset;
+  }
+
+  /**
+   * Check the manifest and weight checksum before handing them to TF.js
+   */
+  async verify(expected: {
+    name: string;
+    backend: PoseBackendType;
+    inputResolution: number;
+  }): Promise<ValidationResult> {
+    const weights = await this.readWeights();
+    const checksum = computeChecksum(weights);
+    if (checksum === this.model.manifest.checksum.toLowerCase()) {
+      this.verifiedWeights = weights;
+    }
+
+    return validateManifest(this.model.manifest, { ...expected, checksum });
+  }
+
+  /**
+   * IO handler for tf.loadLayersModel / tf.loadGraphModel
+   */
+  ioHandler(): tf.io.IOHandler {
+    return {
+      load: () =>
+        tf.io.getModelArtifactsForJSON(
+          this.model.modelJson,
+          async weightsManifest => {
+            const weightSpecs = weightsManifest.flatMap(group => group.weights);
+            const weights = await this.readWeights();
+            // Weights read again after release() haven't been checked yet
+            if (weights !== this.verifiedWeights) {
+              this.checkWeights(weights);
+            }
+            return [weightSpecs, tf.io.concatenateArrayBuffers(weights)];
+          }
+        ),
+    };
+  }
+
+  /**
+   * Get the manifest of the bundled model
+   */
+  getManifest() {
+    return { ...this.model.manifest };
+  }
+
+  /**
+   * Drop cached weight buffers once the model is in memory
+   */
+  release(): void {
+    this.weights = null;
+    this.verifiedWeights = null;
+  }
+
+  /**
+   * Throw unless the weights match the manifest checksum
+   */
+  private checkWeights(weights: ArrayBuffer[]): void {
+    const { name, version, checksum } = this.model.manifest;
+    const actual = computeChecksum(weights);
+    if (actual !== checksum.toLowerCase()) {
+      throw new Error(
+        `Weights of ${name}@${version} have checksum ${actual}, manifest says ${checksum}`
+      );
+    }
+    this.verifiedWeights = weights;
+  }
+
+  /**
+   * Read all weight files once and reuse them for verify and load
+   * A failed read isn't kept, so the next call tries again
+   */
+  private readWeights(): Promise<ArrayBuffer[]> {
+    if (!this.weights) {
+      const weights = Promise.all(
+        this.model.weightAssets.map(moduleId => this.readAsset(moduleId))
+      );
+      this.weights = weights;
+      weights.catch(() => {
+        if (this.weights === weights) {
+          this.weights = null;
+        }
+      });
+    }
+    return this.weights;
+  }
+}
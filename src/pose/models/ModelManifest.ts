@@ -0,0 +1,88 @@
+/**
+ * ModelManifest - Versioned description of a bundled pose model
+ * Checked at startup so a stale or corrupt bundle fails loudly
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { ValidationResult } from '../../types';
+import { PoseBackendType } from '../backends/PoseBackend';
+
+export const SUPPORTED_MANIFEST_VERSION = 1;
+
+export interface ModelManifest {
+  manifestVersion: number; // Format of this file
+  name: string; // e.g. 'posenet-mobilenet-050'
+  version: string; // Version of the bundled weights
+  backend: PoseBackendType;
+  inputResolution: number;
+  checksum: string; // FNV-1a 32-bit hex of all weight files, in manifest order
+}
+
+/**
+ * A model shipped with the app instead of fetched at runtime
+ */
+export interface BundledModel {
+  manifest: ModelManifest;
+  modelJson: tf.io.ModelJSON;
+  weightAssets: number[]; // require()'d .bin modules, in weightsManifest order
+}
+
+/**
+ * Compute the FNV-1a 32-bit checksum of the given buffers
+ */
+export function computeChecksum(buffers: ArrayBuffer[]): string {
+  let hash = 0x811c9dc5;
+
+  buffers.forEach(buffer => {
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < bytes.length; i++) {
+      hash ^= bytes[i]!;
+      hash = Math.imul(hash, 0x01000193);
+    }
+  });
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Compare a manifest against what the app expects to load
+ */
+export function validateManifest(
+  manifest: ModelManifest,
+  expected: {
+    name: string;
+    backend: PoseBackendType;
+    inputResolution: number;
+    checksum: string;
+  }
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (manifest.manifestVersion !== SUPPORTED_MANIFEST_VERSION) {
+    errors.push(
+      `manifest version ${manifest.manifestVersion} is not supported (expected ${SUPPORTED_MANIFEST_VERSION})`
+    );
+  }
+  if (manifest.name !== expected.name) {
+    errors.push(
+      `model is '${manifest.name}', configured model is '${expected.name}'`
+    );
+  }
+  if (manifest.backend !== expected.backend) {
+    errors.push(
+      `model is for backend '${manifest.backend}', configured backend is '${expected.backend}'`
+    );
+  }
+  if (manifest.inputResolution !== expected.inputResolution) {
+    errors.push(
+      `model input resolution is ${manifest.inputResolution}, backend expects ${expected.inputResolution}`
+    );
+  }
+  if (manifest.checksum.toLowerCase() !== expected.checksum) {
+    errors.push(
+      `weights checksum is ${expected.checksum}, manifest says ${manifest.checksum}`
+    );
+  }
+
+  return { isValid: errors.length === 0, errors, warnings: [] };
+}
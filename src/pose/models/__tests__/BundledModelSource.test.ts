@@ -0,0 +1,197 @@
+/**
+ * BundledModelSource and manifest validation tests
+ * Weights come from an in-memory reader instead of app assets
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { KEYPOINT_NAMES } from '../../../config/constants';
+import { PoseBackend } from '../../backends/PoseBackend';
+import { PoseService } from '../../PoseService';
+import { BundledModelSource } from '../BundledModelSource';
+import {
+  BundledModel,
+  computeChecksum,
+  ModelManifest,
+  validateManifest,
+} from '../ModelManifest';
+
+vi.mock('expo-asset', () => ({
+  Asset: {
+    fromModule: () => ({
+      downloadAsync: async () => undefined,
+      localUri: 'file:///assets/group1-shard1of1.bin',
+    }),
+  },
+}));
+vi.mock('expo-file-system', () => ({ deleteAsync: async () => undefined }));
+
+const WEIGHTS = new Float32Array([1, 2, 3, 4]).buffer;
+
+const MANIFEST: ModelManifest = {
+  manifestVersion: 1,
+  name: 'posenet-mobilenet-050',
+  version: '1.0.0',
+  backend: 'posenet',
+  inputResolution: 257,
+  checksum: computeChecksum([WEIGHTS]),
+};
+
+const EXPECTED = {
+  name: 'posenet-mobilenet-050',
+  backend: 'posenet' as const,
+  inputResolution: 257,
+};
+
+function createModel(): BundledModel {
+  return {
+    manifest: MANIFEST,
+    modelJson: {
+      modelTopology: {},
+      weightsManifest: [
+        {
+          paths: ['group1-shard1of1.bin'],
+          weights: [{ name: 'w', shape: [4], dtype: 'float32' }],
+        },
+      ],
+    },
+    weightAssets: [1],
+  };
+}
+
+describe('validateManifest', () => {
+  it('accepts a manifest matching the configured model', () => {
+    expect(
+      validateManifest(MANIFEST, { ...EXPECTED, checksum: MANIFEST.checksum })
+    ).toEqual({ isValid: true, errors: [], warnings: [] });
+  });
+
+  it('rejects a manifest for a different model', () => {
+    const result = validateManifest(MANIFEST, {
+      ...EXPECTED,
+      name: 'posenet-mobilenet-100',
+      checksum: MANIFEST.checksum,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      "model is 'posenet-mobilenet-050', configured model is 'posenet-mobilenet-100'",
+    ]);
+  });
+});
+
+describe('BundledModelSource', () => {
+  it('reads the weights once for verify and load', async () => {
+    const readAsset = vi.fn(async () => WEIGHTS);
+    const source = new BundledModelSource(createModel(), readAsset);
+
+    expect((await source.verify(EXPECTED)).isValid).toBe(true);
+    const artifacts = await source.ioHandler().load!();
+
+    expect(readAsset).toHaveBeenCalledTimes(1);
+    expect(artifacts.weightData).toBeDefined();
+  });
+
+  it('re-checks weights read again after release', async () => {
+    const corrupt = new Float32Array([1, 2, 3, 5]).buffer;
+    const readAsset = vi
+      .fn<(moduleId: number) => Promise<ArrayBuffer>>()
+      .mockResolvedValueOnce(WEIGHTS)
+      .mockResolvedValueOnce(corrupt);
+    const source = new BundledModelSource(createModel(), readAsset);
+
+    expect((await source.verify(EXPECTED)).isValid).toBe(true);
+    await source.ioHandler().load!();
+    source.release();
+
+    await expect(source.ioHandler().load!()).rejects.toThrow(
+      `Weights of posenet-mobilenet-050@1.0.0 have checksum ${computeChecksum([corrupt])}, manifest says ${MANIFEST.checksum}`
+    );
+    expect(readAsset).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads the weights again after a failed read', async () => {
+    const readAsset = vi
+      .fn<(moduleId: number) => Promise<ArrayBuffer>>()
+      .mockRejectedValueOnce(new Error('Asset not downloaded'))
+      .mockResolvedValueOnce(WEIGHTS);
+    const source = new BundledModelSource(createModel(), readAsset);
+
+    await expect(source.verify(EXPECTED)).rejects.toThrow(
+      'Asset not downloaded'
+    );
+
+    expect((await source.verify(EXPECTED)).isValid).toBe(true);
+    expect(readAsset).toHaveBeenCalledTimes(2);
+  });
+
+  it('loads weights read again after release when they still match', async () => {
+    const readAsset = vi.fn(async () => WEIGHTS);
+    const source = new BundledModelSource(createModel(), readAsset);
+
+    await source.verify(EXPECTED);
+    source.release();
+    const artifacts = await source.ioHandler().load!();
+
+    expect(
+      Array.from(new Float32Array(artifacts.weightData as ArrayBuffer))
+    ).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('PoseService with a bundled model', () => {
+  /**
+   * Backend for the bundled model that needs no weights to load
+   */
+  const createBackend = (): PoseBackend => ({
+    capabilities: {
+      name: 'posenet',
+      modelName: 'posenet-mobilenet-050',
+      runtime: 'tfjs',
+      keypoints: KEYPOINT_NAMES,
+      inputResolution: { width: 257, height: 257 },
+      supportsMultiPose: true,
+    },
+    load: async () => undefined,
+    estimate: async () => [],
+    dispose: () => undefined,
+  });
+
+  const stubWeights = (...responses: (ArrayBuffer | Error)[]) => {
+    const fetch = vi.fn();
+    responses.forEach(response =>
+      response instanceof Error
+        ? fetch.mockRejectedValueOnce(response)
+        : fetch.mockResolvedValueOnce({ arrayBuffer: async () => response })
+    );
+    vi.stubGlobal('fetch', fetch);
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('is not initialized when the weights fail verification', async () => {
+    stubWeights(new Float32Array([1, 2, 3, 5]).buffer);
+    const poseService = new PoseService(
+      { bundledModel: createModel() },
+      createBackend()
+    );
+
+    expect((await poseService.initialize()).success).toBe(false);
+    expect(poseService.getState().isInitialized).toBe(false);
+  });
+
+  it('initializes on a retry after the weights could not be read', async () => {
+    stubWeights(new Error('Network request failed'), WEIGHTS);
+    const poseService = new PoseService(
+      { bundledModel: createModel() },
+      createBackend()
+    );
+
+    expect((await poseService.initialize()).success).toBe(false);
+    expect(poseService.getState().isInitialized).toBe(false);
+
+    expect((await poseService.initialize()).success).toBe(true);
+    expect(poseService.isReady()).toBe(true);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * AppLifecycleCoordinator - Suspends capture and inference in the background
+ * Pauses the active session on AppState changes and restores it on return
+ */
+
+import {
+  AppState,
+  AppStateStatus,
+  NativeEventSubscription,
+} from 'react-native';
+import { CameraService } from '../camera/CameraService';
+import { FeatureEngine } from '../features/FeatureEngine';
+import { PoseService } from '../pose/PoseService';
+import { AppError, CoachingSession, ServiceResponse } from '../types';
+
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+export type AppLifecyclePhase = 'foreground' | 'background';
+
+export interface AppLifecycleConfig {
+  suspendOnInactive: boolean; // Also suspend for 'inactive' (iOS app switcher)
+}
+
+export class AppLifecycleCoordinator {
+  private camera: CameraService;
+  private poseService: PoseService;
+  private featureEngine: FeatureEngine;
+  private config: AppLifecycleConfig;
+  private session: CoachingSession | null = null;
+  private phase: AppLifecyclePhase = 'foreground';
+  private subscription: NativeEventSubscription | null = null;
+  private wasCapturing = false;
+  private pausedSession = false;
+  private transition: Promise<unknown> = Promise.resolve();
+  private phaseCallbacks: Set<(phase: AppLifecyclePhase) => void> = new Set();
+  private errorCallbacks: Set<(error: AppError) => void> = new Set();
+
+  private readonly handleAppStateChange = (status: AppStateStatus) => {
+    const isBackground =
+      status === 'background' ||
+      (status === 'inactive' && this.config.suspendOnInactive);
+
+    if (isBackground) {
+      this.report(this.suspend(), 'suspend');
+    } else if (status === 'active') {
+      this.report(this.resume(), 'resume');
+    }
+  };
+
+  constructor(
+    camera: CameraService,
+    poseService: PoseService,
+    featureEngine: FeatureEngine,
+    config?: Partial<AppLifecycleConfig>
+  ) {
+    this.camera = camera;
+    this.poseService = poseService;
+    this.featureEngine = featureEngine;
+    this.config = {
+      suspendOnInactive: false,
+      ...config,
+    };
+  }
+
+  /**
+   * Start listening to AppState changes
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    this.subscription = AppState.addEventListener(
+      'change',
+      this.handleAppStateChange
+    );
+  }
+
+  /**
+   * Stop listening to AppState changes
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * Session to pause and resume with the app (null when none is running)
+   */
+  setSession(session: CoachingSession | null): void {
+    this.session = session;
+    this.pausedSession = false;
+  }
+
+  /**
+   * Stop capture, release the model and pause the active session
+   * Transitions run one after another, so quick app switches stay ordered
+   */
+  suspend(): Promise<ServiceResponse<boolean>> {
+    return this.enqueue(async () => {
+      if (this.phase === 'background') {
+        return { success: true, data: false, timestamp: Date.now() };
+      }
+      this.phase = 'background';
+
+      // A camera that won't stop is reported, but the model is still freed
+      this.wasCapturing = this.camera.getState().isActive;
+      const cameraResult: ServiceResponse<boolean> = this.wasCapturing
+        ? await this.camera.stopCapture()
+        : { success: true, data: true, timestamp: Date.now() };
+      await this.poseService.suspend();
+
+      if (this.session?.state === 'active') {
+        this.session.state = 'paused';
+        this.pausedSession = true;
+      }
+
+      this.notifyPhase();
+      if (!cameraResult.success) {
+        return cameraResult;
+      }
+      return { success: true, data: true, timestamp: Date.now() };
+    });
+  }
+
+  /**
+   * Warm the model up again, restart capture and resume the session
+   */
+  resume(): Promise<ServiceResponse<boolean>> {
+    return this.enqueue(async () => {
+      if (this.phase === 'foreground') {
+        return { success: true, data: false, timestamp: Date.now() };
+      }
+
+      const poseResult = await this.poseService.resume();
+      if (!poseResult.success) {
+        return poseResult;
+      }
+
+      // Frames from before the gap would turn into a velocity spike
+      this.featureEngine.reset();
+
+      if (this.wasCapturing) {
+        const cameraResult = await this.camera.startCapture();
+        if (!cameraResult.success) {
+          return cameraResult;
+        }
+        this.wasCapturing = false;
+      }
+
+      // Only resume a session we paused, not one the user paused
+      if (this.pausedSession && this.session?.state === 'paused') {
+        this.session.state = 'active';
+      }
+      this.pausedSession = false;
+
+      // Set last so a failed resume is retried on the next 'active' event
+      this.phase = 'foreground';
+      this.notifyPhase();
+      return { success: true, data: true, timestamp: Date.now() };
+    });
+  }
+
+  /**
+   * Run a transition after the previous one has finished
+   */
+  private enqueue(
+    run: () => Promise<ServiceResponse<boolean>>
+  ): Promise<ServiceResponse<boolean>> {
+    const next = this.transition.then(run);
+    this.transition = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Report a transition nobody awaits: its failure or its rejection
+   */
+  private report(
+    transition: Promise<ServiceResponse<boolean>>,
+    action: 'suspend' | 'resume'
+  ): void {
+    transition
+      .then(result => {
+        if (!result.success && result.error) {
+          this.notifyError(result.error);
+        }
+      })
+      .catch(error => {
+        this.notifyError({
+          type: 'unknown',
+          message: `Failed to ${action} the app: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          timestamp: Date.now(),
+          recoverable: true,
+          context: { originalError: error },
+        });
+      });
+  }
+
+  /**
+   * Current app phase
+   */
+  getPhase(): AppLifecyclePhase {
+    return this.phase;
+  }
+
+  /**
+   * Add phase change callback
+   */
+  addPhaseCallback(callback: (phase: AppLifecyclePhase) => void): void {
+    this.phaseCallbacks.add(callback);
+  }
+
+  /**
+   * Remove phase change callback
+   */
+  removePhaseCallback(callback: (phase: AppLifecyclePhase) => void): void {
+    this.phaseCallbacks.delete(callback);
+  }
+
+  /**
+   * Add error callback (suspend or resume failed after an AppState change)
+   */
+  addErrorCallback(callback: (error: AppError) => void): void {
+    this.errorCallbacks.add(callback);
+  }
+
+  /**
+   * Remove error callback
+   */
+  removeErrorCallback(callback: (error: AppError) => void): void {
+    this.errorCallbacks.delete(callback);
+  }
+
+  /**
+   * Notify error callbacks
+   */
+  private notifyError(error: AppError): void {
+    this.errorCallbacks.forEach(callback => {
+      try {
+        callback(error);
+      } catch (callbackError) {
+        console.error('Error in error callback:', callbackError);
+      }
+    });
+  }
+
+  /**
+   * Notify phase callbacks
+   */
+  private notifyPhase(): void {
+    this.phaseCallbacks.forEach(callback => {
+      try {
+        callback(this.phase);
+      } catch (error) {
+        console.error('Error in phase callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<AppLifecycleConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+}
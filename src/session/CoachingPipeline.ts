@@ -0,0 +1,334 @@
+/**
+ * CoachingPipeline - Runs each pose through features, motion analysis, the
+ * FSM, framing and the coach
+ * Shared by SessionController and the headless TraceRunner, so golden
+ * transcripts test what the app runs
+ */
+
+import {
+  CameraTiltCalibration,
+  Features,
+  FSMState,
+  FSMTransitionEvent,
+  Pose,
+  StretchConfig,
+  StretchType,
+  WorkingSideChange,
+} from '../types';
+import { CameraTiltCalibrator } from '../camera/CameraTiltCalibrator';
+import { FramingAnalyzer } from '../camera/FramingAnalyzer';
+import { CoachService } from '../coach/CoachService';
+import { FeatureEngine } from '../features/FeatureEngine';
+import { WorkingSideDetector } from '../features/WorkingSideDetector';
+import { STRETCH_CONFIGS } from '../fsm/config';
+import { StretchFSM } from '../fsm/StretchFSM';
+import { FatigueDetector } from '../motion/FatigueDetector';
+import { MotionBuffer } from '../motion/MotionBuffer';
+
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+export interface CoachingPipelineConfig {
+  motionBufferSize: number; // Frames of features kept for motion analysis
+}
+
+/**
+ * Size of the frame the poses were detected in, for framing guidance
+ */
+export interface PipelineFrameSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Pipeline state of the stretch being coached
+ */
+interface ActiveStretch {
+  config: StretchConfig;
+  fsm: StretchFSM;
+  sideDetector: WorkingSideDetector;
+  fatigueDetector: FatigueDetector;
+}
+
+export class CoachingPipeline {
+  private featureEngine: FeatureEngine;
+  private coach: CoachService;
+  private config: CoachingPipelineConfig;
+  private framingAnalyzer = new FramingAnalyzer();
+  private tiltCalibrator = new CameraTiltCalibrator(); // Kept across stretches
+  private motionBuffer: MotionBuffer;
+  private active: ActiveStretch | null = null;
+  private transitionCallbacks: Set<(event: FSMTransitionEvent) => void> =
+    new Set();
+  private sideChangeCallbacks: Set<(change: WorkingSideChange) => void> =
+    new Set();
+  private tiltCallbacks: Set<(calibration: CameraTiltCalibration) => void> =
+    new Set();
+
+  private readonly handleSideChange = (change: WorkingSideChange) => {
+    this.sideChangeCallbacks.forEach(callback => {
+      try {
+        callback(change);
+      } catch (error) {
+        console.error('Error in side change callback:', error);
+      }
+    });
+    this.coach.handleSideChange(change);
+  };
+
+  constructor(
+    featureEngine: FeatureEngine,
+    coach: CoachService,
+    config?: Partial<CoachingPipelineConfig>
+  ) {
+    this.featureEngine = featureEngine;
+    this.coach = coach;
+    this.config = {
+      motionBufferSize: 60, // 2 s at 30 FPS
+      ...config,
+    };
+    this.motionBuffer = new MotionBuffer({
+      maxSize: this.config.motionBufferSize,
+    });
+  }
+
+  /**
+   * Start coaching a stretch, replacing the one being coached, if any
+   */
+  startStretch(stretchType: StretchType, startTime: number): void {
+    this.stopStretch();
+
+    const config = STRETCH_CONFIGS[stretchType];
+    const sideDetector = new WorkingSideDetector(stretchType);
+    sideDetector.addChangeCallback(this.handleSideChange);
+    this.active = {
+      config,
+      fsm: new StretchFSM(config, this.motionBuffer, startTime),
+      sideDetector,
+      fatigueDetector: new FatigueDetector(stretchType),
+    };
+
+    this.featureEngine.reset();
+    this.featureEngine.setBodyLineSide(null);
+    this.motionBuffer.reset();
+  }
+
+  /**
+   * Stop coaching the stretch
+   */
+  stopStretch(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.active.sideDetector.removeChangeCallback(this.handleSideChange);
+    this.active = null;
+  }
+
+  /**
+   * Run one pose through the pipeline
+   * Returns the pose's features, or null when no stretch is being coached or
+   * they couldn't be calculated
+   */
+  processPose(pose: Pose, frameSize: PipelineFrameSize): Features | null {
+    const active = this.active;
+    if (!active) {
+      return null;
+    }
+
+    this.coach.flush(pose.timestamp);
+
+    if (active.config.thresholds.bodyLineAngle.alongSupportLeg) {
+      this.featureEngine.setBodyLineSide(active.sideDetector.getSupportSide());
+    }
+
+    if (
+      !this.tiltCalibrator.getCalibration() &&
+      active.fsm.getState().currentState === 'READY'
+    ) {
+      this.calibrateTilt(pose, active.config);
+    }
+
+    const result = this.featureEngine.calculateFeatures(pose);
+    if (!result.success || !result.data) {
+      return null;
+    }
+    const features = result.data;
+    this.coach.handleView(features, active.config);
+
+    // Judge the limb being stretched, not whichever looks best
+    active.fsm.setWorkingSide(active.sideDetector.update(pose, features).side);
+
+    this.motionBuffer.push(features);
+    active.fsm.setFatigue(active.fatigueDetector.update(this.motionBuffer));
+
+    active.fsm
+      .update(features)
+      .forEach(transition => this.handleTransition(transition, active));
+
+    // Until the user is in position, help them into frame
+    if (active.fsm.getState().currentState === 'WAITING') {
+      const calibration = this.tiltCalibrator.getCalibration();
+      this.coach.handleFraming(
+        this.framingAnalyzer.analyze(pose, active.config, {
+          frameWidth: frameSize.width,
+          frameHeight: frameSize.height,
+          ...(calibration && { tiltDeg: calibration.tiltDeg }),
+        })
+      );
+    }
+
+    return features;
+  }
+
+  /**
+   * In position and settling: the floor under the user shows the camera roll
+   * Levels the features once there are enough reference poses
+   */
+  private calibrateTilt(pose: Pose, config: StretchConfig): void {
+    this.tiltCalibrator.addReferencePose(pose, config.floorContacts);
+    const calibration = this.tiltCalibrator.getCalibration();
+    if (calibration) {
+      this.applyTilt(calibration);
+    }
+  }
+
+  /**
+   * Use a device orientation reading as the camera roll, in place of the
+   * floor line
+   * Same sign convention as CameraTiltCalibration.tiltDeg
+   */
+  setDeviceTilt(tiltDeg: number): void {
+    this.tiltCalibrator.setDeviceTilt(tiltDeg);
+    const calibration = this.tiltCalibrator.getCalibration();
+    if (calibration) {
+      this.applyTilt(calibration);
+    }
+  }
+
+  /**
+   * Level the features by a calibration and report it
+   */
+  private applyTilt(calibration: CameraTiltCalibration): void {
+    this.featureEngine.updateConfig({ cameraTiltDeg: calibration.tiltDeg });
+    this.tiltCallbacks.forEach(callback => {
+      try {
+        callback(calibration);
+      } catch (error) {
+        console.error('Error in tilt callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Forget the camera tilt (the camera may have been moved)
+   */
+  resetTilt(): void {
+    this.tiltCalibrator.reset();
+    this.featureEngine.updateConfig({ cameraTiltDeg: 0 });
+  }
+
+  /**
+   * Forget recent motion; features from before a gap would read as motion
+   */
+  resetMotion(): void {
+    this.motionBuffer.reset();
+    this.active?.fatigueDetector.reset();
+  }
+
+  /**
+   * Report a transition, then coach it
+   */
+  private handleTransition(
+    transition: FSMTransitionEvent,
+    active: ActiveStretch
+  ): void {
+    // Drift counts within the hold, not while getting into position
+    if (transition.event === 'STABLE_HOLD') {
+      active.fatigueDetector.reset();
+    }
+
+    this.transitionCallbacks.forEach(callback => {
+      try {
+        callback(transition);
+      } catch (error) {
+        console.error('Error in transition callback:', error);
+      }
+    });
+
+    this.coach.handleEvent(transition, active.config);
+  }
+
+  /**
+   * State of the stretch being coached, null when none is
+   */
+  getFSMState(): FSMState | null {
+    return this.active?.fsm.getState().currentState ?? null;
+  }
+
+  /**
+   * Add FSM transition callback (called before the transition is coached)
+   */
+  addTransitionCallback(callback: (event: FSMTransitionEvent) => void): void {
+    this.transitionCallbacks.add(callback);
+  }
+
+  /**
+   * Remove FSM transition callback
+   */
+  removeTransitionCallback(
+    callback: (event: FSMTransitionEvent) => void
+  ): void {
+    this.transitionCallbacks.delete(callback);
+  }
+
+  /**
+   * Add working side change callback (called before the change is coached)
+   */
+  addSideChangeCallback(callback: (change: WorkingSideChange) => void): void {
+    this.sideChangeCallbacks.add(callback);
+  }
+
+  /**
+   * Remove working side change callback
+   */
+  removeSideChangeCallback(
+    callback: (change: WorkingSideChange) => void
+  ): void {
+    this.sideChangeCallbacks.delete(callback);
+  }
+
+  /**
+   * Add camera tilt callback (new calibrations the features are levelled by)
+   */
+  addTiltCallback(
+    callback: (calibration: CameraTiltCalibration) => void
+  ): void {
+    this.tiltCallbacks.add(callback);
+  }
+
+  /**
+   * Remove camera tilt callback
+   */
+  removeTiltCallback(
+    callback: (calibration: CameraTiltCalibration) => void
+  ): void {
+    this.tiltCallbacks.delete(callback);
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<CoachingPipelineConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.motionBuffer.updateConfig({ maxSize: this.config.motionBufferSize });
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): CoachingPipelineConfig {
+    return { ...this.config };
+  }
+}
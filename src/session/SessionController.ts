@@ -3,6 +3,504 @@
  * Manages per-stretch flow and side-specific flows
  */
 
+import {
+  AppError,
+  CameraTiltCalibration,
+  CoachingCue,
+  CoachingSession,
+  Features,
+  FrameQualityCondition,
+  FSMState,
+  FSMTransitionEvent,
+  Pose,
+  StretchType,
+  WorkingSideChange,
+} from '../types';
+import { AutoROI } from '../camera/AutoROI';
+import { CameraService } from '../camera/CameraService';
+import { FramePipeline } from '../camera/FramePipeline';
+import { FrameQualityAnalyzer } from '../camera/FrameQualityAnalyzer';
+import { FrameRateGovernor } from '../camera/FrameRateGovernor';
+import { CoachService } from '../coach/CoachService';
+import { FeatureEngine } from '../features/FeatureEngine';
+import { STRETCH_CONFIGS } from '../fsm/config';
+import { PoseService } from '../pose/PoseService';
+import { SubjectTrackerEvent } from '../pose/SubjectTracker';
+import {
+  AppLifecycleCoordinator,
+  AppLifecyclePhase,
+} from './AppLifecycleCoordinator';
+import { CoachingPipeline } from './CoachingPipeline';
+import { SymmetryAnalyzer } from './SymmetryAnalyzer';
+
+declare const setTimeout: (callback: () => void, ms: number) => number;
+declare const clearTimeout: (id: number) => void;
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+export interface SessionControllerConfig {
+  motionBufferSize: number; // Frames of features kept for motion analysis
+  subjectLostGraceMs: number; // A lost subject keeps the lock this long
+}
+
+/**
+ * Frames of the current stretch session held in position
+ */
+interface HoldTally {
+  frames: number;
+  goodFormFrames: number;
+  stabilitySum: number;
+}
+
+// States where the user is holding the stretch
+const HELD_STATES: FSMState[] = ['HOLDING', 'COACH_ISSUE', 'COOLDOWN'];
+
 export class SessionController {
-  // TODO: Implement session controller
+  private camera: CameraService;
+  private poseService: PoseService;
+  private framePipeline: FramePipeline;
+  private autoROI: AutoROI;
+  private frameRateGovernor: FrameRateGovernor;
+  private lifecycle: AppLifecycleCoordinator;
+  private featureEngine: FeatureEngine;
+  private coach: CoachService;
+  private pipeline: CoachingPipeline;
+  private symmetryAnalyzer = new SymmetryAnalyzer();
+  private config: SessionControllerConfig;
+  private session: CoachingSession | null = null;
+  private tally: HoldTally = { frames: 0, goodFormFrames: 0, stabilitySum: 0 };
+  private isCoaching = false;
+  private releaseTimer: number | null = null;
+  private errorCallbacks: Set<(error: AppError) => void> = new Set();
+
+  private readonly handlePose = (pose: Pose) => {
+    this.processPose(pose);
+  };
+
+  private readonly handleTransition = (transition: FSMTransitionEvent) => {
+    if (transition.to === 'READY' && transition.from !== 'READY') {
+      // Someone walking past mid-hold must not take over
+      this.poseService.lockSubject();
+    }
+
+    if (transition.event === 'ISSUE_DETECTED' && this.session?.currentStretch) {
+      this.session.currentStretch.totalIssues++;
+    }
+
+    this.frameRateGovernor.setFSMState(transition.to);
+  };
+
+  private readonly handleSideChange = (change: WorkingSideChange) => {
+    const stretch = this.session?.currentStretch;
+    if (!stretch) {
+      return;
+    }
+
+    if (change.from === null) {
+      stretch.side = change.to;
+    } else {
+      // Each side is a session of its own, so the two can be compared
+      this.completeStretch();
+      this.beginStretch(stretch.stretchType, change.to);
+    }
+  };
+
+  private readonly handleCue = (cue: CoachingCue) => {
+    if (cue.type === 'adjustment') {
+      this.session?.currentStretch?.issues.push(cue);
+    }
+  };
+
+  private readonly handleTilt = (calibration: CameraTiltCalibration) => {
+    // Kept with the session, as the camera stays put between stretches
+    if (this.session) {
+      this.session.cameraTilt = calibration;
+    }
+  };
+
+  private readonly handleFrameQuality = (condition: FrameQualityCondition) => {
+    this.coach.handleFrameQuality(condition);
+  };
+
+  private readonly handlePhase = (phase: AppLifecyclePhase) => {
+    if (phase === 'foreground') {
+      // Features from before the gap would read as motion
+      this.pipeline.resetMotion();
+    }
+    this.frameRateGovernor.setSessionState(
+      phase === 'background' ? 'paused' : this.isCoaching ? 'active' : 'idle'
+    );
+  };
+
+  private readonly handleSubjectEvent = (event: SubjectTrackerEvent) => {
+    if (event.type === 'subject_lost') {
+      // A locked subject who walked off would shut everyone else out for
+      // good, but one briefly out of view (adjusting the phone) comes back
+      this.cancelSubjectRelease();
+      this.releaseTimer = setTimeout(() => {
+        this.releaseTimer = null;
+        this.poseService.releaseSubject();
+      }, this.config.subjectLostGraceMs);
+    } else {
+      this.cancelSubjectRelease();
+    }
+  };
+
+  constructor(
+    camera: CameraService,
+    poseService: PoseService,
+    config?: Partial<SessionControllerConfig>
+  ) {
+    this.camera = camera;
+    this.poseService = poseService;
+    const qualityAnalyzer = new FrameQualityAnalyzer();
+    qualityAnalyzer.addConditionCallback(this.handleFrameQuality);
+    qualityAnalyzer.addErrorCallback(error => this.notifyError(error));
+    this.framePipeline = new FramePipeline(
+      camera,
+      poseService,
+      qualityAnalyzer
+    );
+    this.framePipeline.addErrorCallback(error => this.notifyError(error));
+    this.autoROI = new AutoROI(camera, poseService);
+    this.frameRateGovernor = new FrameRateGovernor(camera);
+    this.frameRateGovernor.setSessionState('idle');
+    this.config = {
+      motionBufferSize: 60, // 2 s at 30 FPS
+      subjectLostGraceMs: 4000,
+      ...config,
+    };
+    this.featureEngine = new FeatureEngine();
+    this.coach = new CoachService();
+    this.pipeline = new CoachingPipeline(this.featureEngine, this.coach, {
+      motionBufferSize: this.config.motionBufferSize,
+    });
+    this.pipeline.addTransitionCallback(this.handleTransition);
+    this.pipeline.addSideChangeCallback(this.handleSideChange);
+    this.pipeline.addTiltCallback(this.handleTilt);
+    this.coach.addCueCallback(this.handleCue);
+
+    // Capture and inference stop while the app is in the background
+    this.lifecycle = new AppLifecycleCoordinator(
+      camera,
+      poseService,
+      this.featureEngine
+    );
+    this.lifecycle.addPhaseCallback(this.handlePhase);
+    this.lifecycle.addErrorCallback(error => this.notifyError(error));
+    this.lifecycle.start();
+  }
+
+  /**
+   * Start a coaching session, ending the one running, if any
+   * The session is paused while the app is in the background
+   */
+  startSession(): CoachingSession {
+    this.endSession();
+
+    // The camera may have been moved since the last session
+    this.pipeline.resetTilt();
+
+    const now = Date.now();
+    this.session = {
+      id: `session_${now}`,
+      startTime: now,
+      state: 'active',
+      stretches: [],
+      totalDuration: 0,
+      totalIssues: 0,
+      overallScore: 0,
+    };
+    this.lifecycle.setSession(this.session);
+    return this.session;
+  }
+
+  /**
+   * Stop coaching and complete the session, comparing the sides of stretches
+   * done on both; null when none was running
+   */
+  endSession(): CoachingSession | null {
+    this.stopStretch();
+    const session = this.session;
+    if (!session) {
+      return null;
+    }
+
+    const now = Date.now();
+    session.endTime = now;
+    session.totalDuration = now - session.startTime;
+    session.state = 'completed';
+    session.sideComparisons = this.symmetryAnalyzer.summarize(session);
+    this.lifecycle.setSession(null);
+    this.session = null;
+    return session;
+  }
+
+  /**
+   * Use a device orientation reading as the camera roll, in place of the
+   * floor line; starts a session if none is running
+   * Same sign convention as CameraTiltCalibration.tiltDeg
+   */
+  setDeviceTilt(tiltDeg: number): void {
+    if (!this.session) {
+      this.startSession();
+    }
+
+    this.pipeline.setDeviceTilt(tiltDeg);
+  }
+
+  /**
+   * Session running, null when none is
+   */
+  getSession(): CoachingSession | null {
+    return this.session;
+  }
+
+  /**
+   * Start coaching a stretch on the poses from the pose service
+   * Replaces the stretch being coached, if any, and starts a session if
+   * none is running
+   */
+  startStretch(stretchType: StretchType): void {
+    this.stopStretch();
+    if (!this.session) {
+      this.startSession();
+    }
+
+    this.pipeline.startStretch(stretchType, Date.now());
+    this.beginStretch(stretchType);
+    this.isCoaching = true;
+
+    this.poseService.setStretchSmoothing(
+      STRETCH_CONFIGS[stretchType].smoothing
+    );
+    this.poseService.addPoseCallback(this.handlePose);
+    this.poseService.addSubjectEventCallback(this.handleSubjectEvent);
+    // Spend the model's input resolution on the person, not the room
+    this.autoROI.start();
+    this.framePipeline.start();
+    this.frameRateGovernor.setFSMState(
+      this.pipeline.getFSMState() ?? 'WAITING'
+    );
+    this.frameRateGovernor.setSessionState('active');
+  }
+
+  /**
+   * Stop coaching and let anyone in frame be picked up again
+   */
+  stopStretch(): void {
+    if (!this.isCoaching) {
+      return;
+    }
+
+    this.framePipeline.stop();
+    this.poseService.removePoseCallback(this.handlePose);
+    this.poseService.removeSubjectEventCallback(this.handleSubjectEvent);
+    this.cancelSubjectRelease();
+    this.poseService.releaseSubject();
+    this.autoROI.stop();
+    this.frameRateGovernor.setSessionState('idle');
+    this.poseService.setStretchSmoothing();
+    this.pipeline.stopStretch();
+    this.completeStretch();
+    this.isCoaching = false;
+  }
+
+  /**
+   * Start recording a stretch session; the side is filled in once detected
+   */
+  private beginStretch(
+    stretchType: StretchType,
+    side?: 'left' | 'right'
+  ): void {
+    if (!this.session) {
+      return;
+    }
+
+    const now = Date.now();
+    this.session.currentStretch = {
+      id: `stretch_${now}`,
+      stretchType,
+      ...(side && { side }),
+      startTime: now,
+      duration: 0,
+      issues: [],
+      totalIssues: 0,
+      averageStability: 0,
+      completionRate: 0,
+    };
+    this.tally = { frames: 0, goodFormFrames: 0, stabilitySum: 0 };
+  }
+
+  /**
+   * Fold a held frame into the stretch session being recorded
+   */
+  private recordHold(features: Features): void {
+    const session = this.session;
+    const stretch = session?.currentStretch;
+    const state = this.pipeline.getFSMState();
+    if (!session || !stretch || !state || !HELD_STATES.includes(state)) {
+      return;
+    }
+
+    this.tally.frames++;
+    this.tally.stabilitySum += features.stability.stabilityScore;
+    if (state !== 'COACH_ISSUE') {
+      this.tally.goodFormFrames++;
+    }
+
+    session.currentStretch = {
+      ...this.symmetryAnalyzer.trackRange(stretch, features),
+      averageStability: this.tally.stabilitySum / this.tally.frames,
+      completionRate: (100 * this.tally.goodFormFrames) / this.tally.frames,
+    };
+  }
+
+  /**
+   * Finish the stretch session being recorded and add it to the session
+   */
+  private completeStretch(): void {
+    const session = this.session;
+    const stretch = session?.currentStretch;
+    if (!session || !stretch) {
+      return;
+    }
+
+    const now = Date.now();
+    session.stretches.push({
+      ...stretch,
+      endTime: now,
+      duration: now - stretch.startTime,
+    });
+    session.totalIssues += stretch.totalIssues;
+    delete session.currentStretch;
+  }
+
+  /**
+   * Run one pose through the coaching pipeline, record the hold and let the
+   * frame rate follow the motion it shows
+   */
+  private processPose(pose: Pose): void {
+    const features = this.pipeline.processPose(
+      pose,
+      this.camera.getConfig().resolution
+    );
+    if (!features) {
+      return;
+    }
+
+    this.recordHold(features);
+    this.frameRateGovernor.updateFeatures(features);
+    this.frameRateGovernor.updateInferenceTime(
+      this.poseService.getPerformanceMetrics().lastInferenceTime
+    );
+  }
+
+  /**
+   * Keep the lock on a subject who came back
+   */
+  private cancelSubjectRelease(): void {
+    if (this.releaseTimer !== null) {
+      clearTimeout(this.releaseTimer);
+      this.releaseTimer = null;
+    }
+  }
+
+  /**
+   * State of the stretch being coached, null when none is
+   */
+  getFSMState(): FSMState | null {
+    return this.pipeline.getFSMState();
+  }
+
+  /**
+   * Add cue callback (every cue the coach delivers)
+   */
+  addCueCallback(callback: (cue: CoachingCue) => void): void {
+    this.coach.addCueCallback(callback);
+  }
+
+  /**
+   * Remove cue callback
+   */
+  removeCueCallback(callback: (cue: CoachingCue) => void): void {
+    this.coach.removeCueCallback(callback);
+  }
+
+  /**
+   * Add FSM transition callback
+   */
+  addTransitionCallback(callback: (event: FSMTransitionEvent) => void): void {
+    this.pipeline.addTransitionCallback(callback);
+  }
+
+  /**
+   * Remove FSM transition callback
+   */
+  removeTransitionCallback(
+    callback: (event: FSMTransitionEvent) => void
+  ): void {
+    this.pipeline.removeTransitionCallback(callback);
+  }
+
+  /**
+   * Add error callback (failed or poor frames, suspends and resumes)
+   */
+  addErrorCallback(callback: (error: AppError) => void): void {
+    this.errorCallbacks.add(callback);
+  }
+
+  /**
+   * Remove error callback
+   */
+  removeErrorCallback(callback: (error: AppError) => void): void {
+    this.errorCallbacks.delete(callback);
+  }
+
+  /**
+   * Notify error callbacks
+   */
+  private notifyError(error: AppError): void {
+    this.errorCallbacks.forEach(callback => {
+      try {
+        callback(error);
+      } catch (callbackError) {
+        console.error('Error in error callback:', callbackError);
+      }
+    });
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<SessionControllerConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.pipeline.updateConfig({
+      motionBufferSize: this.config.motionBufferSize,
+    });
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): SessionControllerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * End the session and forget cue history
+   */
+  reset(): void {
+    this.endSession();
+    this.coach.reset();
+  }
+
+  /**
+   * End the session and stop following the app lifecycle
+   */
+  cleanup(): void {
+    this.endSession();
+    this.lifecycle.stop();
+  }
 }
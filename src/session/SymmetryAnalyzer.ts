@@ -0,0 +1,187 @@
+/**
+ * SymmetryAnalyzer - Compares the left and right sides of one-sided stretches
+ * Tracks the range each side reaches and reports which side is tighter
+ */
+
+import {
+  CoachingSession,
+  Features,
+  SideComparison,
+  SideMeasure,
+  StretchSession,
+  StretchType,
+} from '../types';
+
+export interface SymmetryAnalyzerConfig {
+  minRangeDifference: number; // Degrees of range before one side counts as tighter
+}
+
+type RangeMeasure = (
+  features: Features,
+  side: 'left' | 'right'
+) => number | null;
+
+// How far each stretch goes on the working side; more is more range
+const RANGE_MEASURES: Partial<Record<StretchType, RangeMeasure>> = {
+  // Hip hinge over the straight leg
+  hamstring: features => features.posture.pelvisTilt,
+  // Knee flexion as the heel comes to the glutes
+  quad: (features, side) => {
+    const knee = features.angles[side === 'left' ? 'leftKnee' : 'rightKnee'];
+    return knee === null ? null : 180 - knee;
+  },
+  // Shin over the toes with the heel down
+  calf: (features, side) =>
+    features.posture[
+      side === 'left' ? 'leftDorsiflexion' : 'rightDorsiflexion'
+    ],
+};
+
+// Muscle named in the summary
+const STRETCH_MUSCLES: Partial<Record<StretchType, string>> = {
+  hamstring: 'hamstring',
+  quad: 'quad',
+  calf: 'calf',
+};
+
+export class SymmetryAnalyzer {
+  private config: SymmetryAnalyzerConfig;
+
+  constructor(config?: Partial<SymmetryAnalyzerConfig>) {
+    this.config = {
+      minRangeDifference: 5,
+      ...config,
+    };
+  }
+
+  /**
+   * Range one frame reaches on the given side, null if it can't be measured
+   */
+  measureRange(
+    stretchType: StretchType,
+    features: Features,
+    side: 'left' | 'right'
+  ): number | null {
+    return RANGE_MEASURES[stretchType]?.(features, side) ?? null;
+  }
+
+  /**
+   * Fold one frame into a stretch session's furthest range
+   * Sessions without a left or right side are returned unchanged
+   */
+  trackRange(session: StretchSession, features: Features): StretchSession {
+    if (session.side !== 'left' && session.side !== 'right') {
+      return session;
+    }
+
+    const range = this.measureRange(
+      session.stretchType,
+      features,
+      session.side
+    );
+    if (range === null || range <= (session.rangeReached ?? -Infinity)) {
+      return session;
+    }
+    return { ...session, rangeReached: range };
+  }
+
+  /**
+   * Compare the left and right sessions of the same stretch
+   * Returns null unless the sessions pair up that way
+   */
+  compare(left: StretchSession, right: StretchSession): SideComparison | null {
+    if (
+      left.side !== 'left' ||
+      right.side !== 'right' ||
+      left.stretchType !== right.stretchType
+    ) {
+      return null;
+    }
+
+    const rangeReached =
+      left.rangeReached !== undefined && right.rangeReached !== undefined
+        ? this.measure(left.rangeReached, right.rangeReached)
+        : null;
+
+    let tighterSide: SideComparison['tighterSide'] = null;
+    if (
+      rangeReached &&
+      Math.abs(rangeReached.difference) >= this.config.minRangeDifference
+    ) {
+      tighterSide = rangeReached.difference < 0 ? 'left' : 'right';
+    }
+
+    return {
+      stretchType: left.stretchType,
+      holdQuality: this.measure(left.averageStability, right.averageStability),
+      timeInGoodForm: this.measure(left.completionRate, right.completionRate),
+      rangeReached,
+      tighterSide,
+      summary: this.buildSummary(left.stretchType, tighterSide),
+    };
+  }
+
+  /**
+   * Compare sides for every stretch done on both sides in a session
+   * The latest session of each side is used when a side was repeated
+   */
+  summarize(session: CoachingSession): SideComparison[] {
+    const sides: Partial<
+      Record<StretchType, Partial<Record<'left' | 'right', StretchSession>>>
+    > = {};
+
+    session.stretches.forEach(stretch => {
+      if (stretch.side === 'left' || stretch.side === 'right') {
+        sides[stretch.stretchType] = {
+          ...sides[stretch.stretchType],
+          [stretch.side]: stretch,
+        };
+      }
+    });
+
+    return Object.values(sides).flatMap(pair => {
+      if (!pair?.left || !pair.right) {
+        return [];
+      }
+      const comparison = this.compare(pair.left, pair.right);
+      return comparison ? [comparison] : [];
+    });
+  }
+
+  /**
+   * Pair up one measure from each side
+   */
+  private measure(left: number, right: number): SideMeasure {
+    return { left, right, difference: left - right };
+  }
+
+  /**
+   * Sentence for the user, or null when there's no imbalance worth telling
+   */
+  private buildSummary(
+    stretchType: StretchType,
+    tighterSide: SideComparison['tighterSide']
+  ): string | null {
+    const muscle = STRETCH_MUSCLES[stretchType];
+    if (!muscle || tighterSide === null) {
+      return null;
+    }
+
+    const otherSide = tighterSide === 'left' ? 'right' : 'left';
+    return `Your ${tighterSide} ${muscle} is tighter than your ${otherSide}`;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<SymmetryAnalyzerConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): SymmetryAnalyzerConfig {
+    return { ...this.config };
+  }
+}
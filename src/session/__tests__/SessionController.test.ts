@@ -0,0 +1,485 @@
+/**
+ * SessionController tests
+ * Synthetic poses go through a real PoseService behind a scripted backend
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CameraService } from '../../camera/CameraService';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import { PoseService } from '../../pose/PoseService';
+import {
+  DetectedPose,
+  PoseBackend,
+  PoseBackendCapabilities,
+} from '../../pose/backends/PoseBackend';
+import { SubjectTrackerEvent } from '../../pose/SubjectTracker';
+import { SyntheticPoseGenerator } from '../../trace/SyntheticPoseGenerator';
+import { AppError, FSMTransitionEvent, Pose } from '../../types';
+import { SessionController } from '../SessionController';
+
+vi.mock('expo-asset', () => ({ Asset: {} }));
+vi.mock('expo-camera', () => ({ Camera: {} }));
+vi.mock('expo-file-system', () => ({ deleteAsync: async () => undefined }));
+
+const appState = vi.hoisted(() => ({
+  listeners: new Set<(status: string) => void>(),
+}));
+vi.mock('react-native', () => ({
+  AppState: {
+    addEventListener: (_type: string, listener: (status: string) => void) => {
+      appState.listeners.add(listener);
+      return { remove: () => appState.listeners.delete(listener) };
+    },
+  },
+}));
+
+function setAppState(status: string): void {
+  appState.listeners.forEach(listener => listener(status));
+}
+
+/**
+ * Backend that reports whatever poses the test queued for the next frame
+ */
+class ScriptedBackend implements PoseBackend {
+  readonly capabilities: PoseBackendCapabilities = {
+    name: 'scripted',
+    modelName: 'scripted',
+    runtime: 'native',
+    keypoints: KEYPOINT_NAMES,
+    inputResolution: { width: 640, height: 480 },
+    supportsMultiPose: true,
+  };
+  next: DetectedPose[] = [];
+
+  async load(): Promise<void> {}
+
+  async estimate(): Promise<DetectedPose[]> {
+    return this.next;
+  }
+
+  dispose(): void {}
+}
+
+function detect(pose: Pose, shiftX = 0): DetectedPose {
+  return {
+    keypoints: KEYPOINT_NAMES.map(name => ({
+      name,
+      x: pose.keypoints[name].x + shiftX,
+      y: pose.keypoints[name].y,
+      score: pose.keypoints[name].confidence,
+    })),
+    score: 0.9,
+  };
+}
+
+// PoseNet and MoveNet: no heels or toes
+const COCO_KEYPOINTS = KEYPOINT_NAMES.filter(
+  name => !name.endsWith('_heel') && !name.endsWith('_toe')
+);
+
+/**
+ * Someone standing at the edge of the frame, nothing like a plank
+ */
+function createPasserBy(): Pose {
+  return new SyntheticPoseGenerator({
+    stretchType: 'quad',
+    frameWidth: 1000,
+  }).next();
+}
+
+describe('SessionController', () => {
+  const image = tf.zeros([480, 640, 3]) as tf.Tensor3D;
+  let backend: ScriptedBackend;
+  let camera: CameraService;
+  let poseService: PoseService;
+  let subjectEvents: SubjectTrackerEvent['type'][];
+
+  const sendFrame = async (poses: DetectedPose[], advanceMs = 100) => {
+    vi.advanceTimersByTime(advanceMs);
+    backend.next = poses;
+    return (await poseService.estimatePose(image)).data;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+    backend = new ScriptedBackend();
+    camera = new CameraService();
+    poseService = new PoseService({ enableSmoothing: false }, backend);
+    await poseService.initialize();
+    subjectEvents = [];
+    poseService.addSubjectEventCallback(event =>
+      subjectEvents.push(event.type)
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    appState.listeners.clear();
+  });
+
+  it('locks onto the subject once they are in position', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({ stretchType: 'plank' });
+    controller.startStretch('plank');
+
+    await sendFrame([detect(generator.next())]);
+
+    expect(controller.getFSMState()).toBe('READY');
+    expect(subjectEvents).toEqual(['subject_locked']);
+  });
+
+  it('releases a subject who has gone so the next one can be locked', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({ stretchType: 'plank' });
+    const pose = generator.next();
+    const passerBy = createPasserBy();
+    controller.startStretch('plank');
+
+    await sendFrame([detect(pose)]);
+    await sendFrame([], 1500);
+    await sendFrame([], 1500);
+    expect(subjectEvents).toEqual(['subject_locked', 'subject_lost']);
+
+    // The lock is held for a while in case the subject comes back
+    expect((await sendFrame([detect(passerBy)]))?.trackId).toBeUndefined();
+    await sendFrame([], 4000);
+
+    // Someone else gets into position further along the mat; a single
+    // frame isn't enough to be seen
+    for (let i = 0; i < 3; i++) {
+      await sendFrame([detect(pose, 200)]);
+    }
+
+    expect(controller.getFSMState()).toBe('READY');
+    expect(subjectEvents).toEqual([
+      'subject_locked',
+      'subject_lost',
+      'subject_locked',
+    ]);
+  });
+
+  it('keeps the lock on a subject who comes back in time', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({ stretchType: 'plank' });
+    const pose = generator.next();
+    const releaseSubject = vi.spyOn(poseService, 'releaseSubject');
+    controller.startStretch('plank');
+
+    await sendFrame([detect(pose)]);
+    await sendFrame([], 1500);
+    await sendFrame([], 1500);
+    await sendFrame([detect(pose)], 2000);
+    for (let i = 0; i < 5; i++) {
+      await sendFrame([detect(pose)], 1000);
+    }
+
+    expect(subjectEvents).toEqual([
+      'subject_locked',
+      'subject_lost',
+      'subject_reacquired',
+    ]);
+    expect(releaseSubject).not.toHaveBeenCalled();
+  });
+
+  it("applies the stretch's keypoint smoothing while it is coached", () => {
+    const controller = new SessionController(camera, poseService);
+    const setStretchSmoothing = vi.spyOn(poseService, 'setStretchSmoothing');
+
+    controller.startStretch('plank');
+    controller.stopStretch();
+
+    expect(setStretchSmoothing.mock.calls).toEqual([[{ minCutoff: 0.5 }], []]);
+  });
+
+  it('lets go of the subject when the stretch stops', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({ stretchType: 'plank' });
+    controller.startStretch('plank');
+    await sendFrame([detect(generator.next())]);
+
+    controller.stopStretch();
+    const other = detect(generator.next(), 300);
+    const pose = await sendFrame([other]);
+
+    expect(controller.getFSMState()).toBeNull();
+    expect(pose?.keypoints.nose.x).toBeCloseTo(other.keypoints[0]!.x);
+  });
+
+  it('crops the camera to the subject while coaching', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({ stretchType: 'quad' });
+    controller.startStretch('quad');
+
+    await sendFrame([detect(generator.next())]);
+    const roi = camera.getConfig().roi;
+
+    expect(camera.getConfig().enableCropping).toBe(true);
+    expect(roi?.width).toBeLessThan(640);
+    expect(roi?.height).toBeLessThanOrEqual(480);
+
+    // Nobody in frame: back to the full frame
+    await sendFrame([]);
+    expect(camera.getConfig().enableCropping).toBe(false);
+
+    await sendFrame([detect(generator.next())]);
+    controller.stopStretch();
+    expect(camera.getConfig().roi).toBeUndefined();
+  });
+
+  it('captures fast while getting into position and slowly when idle', async () => {
+    const setFrameRate = vi.spyOn(camera, 'setFrameRate');
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({ stretchType: 'plank' });
+
+    controller.startStretch('plank');
+    await sendFrame([detect(generator.next())]);
+    controller.stopStretch();
+
+    expect(setFrameRate.mock.calls).toEqual([[2], [12], [2]]);
+  });
+
+  it('suspends pose estimation in the background and resumes it', async () => {
+    const controller = new SessionController(camera, poseService);
+    controller.startStretch('plank');
+
+    setAppState('background');
+    await vi.waitFor(() => expect(poseService.isReady()).toBe(false));
+    setAppState('active');
+    await vi.waitFor(() => expect(poseService.isReady()).toBe(true));
+
+    controller.cleanup();
+    expect(appState.listeners.size).toBe(0);
+  });
+
+  it('pauses the session in the background and resumes it', async () => {
+    const controller = new SessionController(camera, poseService);
+    const session = controller.startSession();
+    controller.startStretch('plank');
+
+    setAppState('background');
+    await vi.waitFor(() => expect(session.state).toBe('paused'));
+    setAppState('active');
+    await vi.waitFor(() => expect(session.state).toBe('active'));
+
+    vi.advanceTimersByTime(5000);
+    expect(controller.endSession()).toBe(session);
+    expect(session.state).toBe('completed');
+    expect(session.totalDuration).toBeGreaterThanOrEqual(5000);
+    expect(controller.getSession()).toBeNull();
+  });
+
+  it('reports a camera that would not stop in the background', async () => {
+    const controller = new SessionController(camera, poseService);
+    const errors: AppError[] = [];
+    controller.addErrorCallback(error => errors.push(error));
+    const error: AppError = {
+      type: 'camera_unavailable',
+      message: 'Failed to stop camera capture: busy',
+      timestamp: 0,
+      recoverable: true,
+    };
+    vi.spyOn(camera, 'getState').mockReturnValue({
+      ...camera.getState(),
+      isActive: true,
+    });
+    vi.spyOn(camera, 'stopCapture').mockResolvedValue({
+      success: false,
+      error,
+      timestamp: 0,
+    });
+    controller.startStretch('plank');
+
+    setAppState('background');
+
+    await vi.waitFor(() => expect(errors).toEqual([error]));
+    expect(poseService.isReady()).toBe(false);
+  });
+
+  it('reports a suspend that failed', async () => {
+    const controller = new SessionController(camera, poseService);
+    const errors: AppError[] = [];
+    controller.addErrorCallback(error => errors.push(error));
+    vi.spyOn(poseService, 'suspend').mockRejectedValue(new Error('busy'));
+
+    setAppState('background');
+
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0]).toMatchObject({
+      type: 'unknown',
+      message: 'Failed to suspend the app: busy',
+    });
+  });
+
+  it('reports frames too poor for pose estimation', async () => {
+    const addFrameCallback = vi.spyOn(camera, 'addFrameCallback');
+    const controller = new SessionController(camera, poseService);
+    const errors: AppError[] = [];
+    controller.addErrorCallback(error => errors.push(error));
+    controller.startStretch('plank');
+    const sendCameraFrame = addFrameCallback.mock.calls[0]![0];
+
+    for (let i = 0; i < 3; i++) {
+      sendCameraFrame({
+        width: 160,
+        height: 120,
+        pixels: new Uint8Array(160 * 120 * 4),
+        timestamp: 1000 + i * 1000,
+        frameId: `frame_${i}`,
+      });
+    }
+
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0]).toMatchObject({
+      type: 'poor_frame_quality',
+      message: 'Camera frames are too dark',
+    });
+  });
+
+  it('asks the user into frame until they are in position', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({ stretchType: 'plank' });
+    const cues: string[] = [];
+    controller.addCueCallback(cue => cues.push(cue.message));
+    controller.startStretch('plank');
+
+    await sendFrame([]);
+    await sendFrame([detect(generator.next())], 2500);
+
+    expect(cues).toEqual([
+      'Step into the frame so I can see you',
+      'Good, now hold still',
+    ]);
+  });
+
+  it('levels the features for a rolled camera while in position', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      cameraTiltDeg: 8,
+    });
+    const events: FSMTransitionEvent['event'][] = [];
+    controller.addTransitionCallback(transition =>
+      events.push(transition.event)
+    );
+    controller.startStretch('plank');
+
+    for (let i = 0; i < 40; i++) {
+      await sendFrame([detect(generator.next())]);
+    }
+
+    expect(events).toEqual(['IN_POSITION', 'STABLE_HOLD']);
+    expect(controller.getSession()?.cameraTilt).toMatchObject({
+      tiltDeg: expect.closeTo(8),
+      source: 'floor_line',
+    });
+  });
+
+  it('levels a rolled camera from the forearms without foot keypoints', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      view: 'three_quarter',
+      cameraTiltDeg: 8,
+      keypoints: COCO_KEYPOINTS,
+      noisePx: 1,
+    });
+    const events: FSMTransitionEvent['event'][] = [];
+    controller.addTransitionCallback(transition =>
+      events.push(transition.event)
+    );
+    controller.startStretch('plank');
+
+    for (let i = 0; i < 40; i++) {
+      await sendFrame([detect(generator.next())]);
+    }
+
+    expect(events).toEqual(['IN_POSITION', 'STABLE_HOLD']);
+    expect(controller.getSession()?.cameraTilt).toMatchObject({
+      tiltDeg: expect.closeTo(8, 0),
+      source: 'floor_line',
+    });
+  });
+
+  it('leaves a side-on plank level without foot keypoints', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      keypoints: COCO_KEYPOINTS,
+      noisePx: 1,
+    });
+    const events: FSMTransitionEvent['event'][] = [];
+    controller.addTransitionCallback(transition =>
+      events.push(transition.event)
+    );
+    controller.startStretch('plank');
+
+    for (let i = 0; i < 40; i++) {
+      await sendFrame([detect(generator.next())]);
+    }
+
+    // The raised ankles are no floor line to measure
+    expect(events).toEqual(['IN_POSITION', 'STABLE_HOLD']);
+    expect(controller.getSession()?.cameraTilt).toBeUndefined();
+  });
+
+  it('levels the features by a device tilt reading', async () => {
+    const controller = new SessionController(camera, poseService);
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      cameraTiltDeg: 8,
+    });
+    const events: FSMTransitionEvent['event'][] = [];
+    controller.addTransitionCallback(transition =>
+      events.push(transition.event)
+    );
+    controller.setDeviceTilt(8);
+    controller.startStretch('plank');
+
+    for (let i = 0; i < 40; i++) {
+      await sendFrame([detect(generator.next())]);
+    }
+
+    expect(events).toEqual(['IN_POSITION', 'STABLE_HOLD']);
+    expect(controller.getSession()?.cameraTilt).toMatchObject({
+      tiltDeg: 8,
+      source: 'device',
+    });
+  });
+
+  it('measures the camera tilt again for a new session', async () => {
+    const controller = new SessionController(camera, poseService);
+    controller.setDeviceTilt(8);
+
+    const session = controller.startSession();
+
+    expect(session.cameraTilt).toBeUndefined();
+  });
+
+  it('records each side of a stretch and compares them when the session ends', async () => {
+    const controller = new SessionController(camera, poseService);
+    const left = new SyntheticPoseGenerator({ stretchType: 'quad' });
+    const right = new SyntheticPoseGenerator({
+      stretchType: 'quad',
+      side: 'right',
+      faults: [{ type: 'knee_bend', magnitude: -15, startMs: 0 }],
+    });
+    controller.startStretch('quad');
+
+    for (let i = 0; i < 30; i++) {
+      await sendFrame([detect(left.next())]);
+    }
+    for (let i = 0; i < 40; i++) {
+      await sendFrame([detect(right.next())]);
+    }
+    const session = controller.endSession();
+
+    expect(session?.stretches.map(stretch => stretch.side)).toEqual([
+      'left',
+      'right',
+    ]);
+    expect(session?.sideComparisons).toEqual([
+      expect.objectContaining({ stretchType: 'quad', tighterSide: 'right' }),
+    ]);
+  });
+});
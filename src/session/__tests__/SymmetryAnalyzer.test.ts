@@ -0,0 +1,146 @@
+/**
+ * SymmetryAnalyzer tests
+ * Only the features the range measures read are filled in
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  CoachingSession,
+  Features,
+  StretchSession,
+  StretchType,
+} from '../../types';
+import { SymmetryAnalyzer } from '../SymmetryAnalyzer';
+
+function createStretch(
+  stretchType: StretchType,
+  side: StretchSession['side'],
+  changes: Partial<StretchSession> = {}
+): StretchSession {
+  return {
+    id: `${stretchType}_${side}`,
+    stretchType,
+    ...(side && { side }),
+    startTime: 0,
+    duration: 30000,
+    issues: [],
+    totalIssues: 0,
+    averageStability: 0.9,
+    completionRate: 80,
+    ...changes,
+  };
+}
+
+function kneeFeatures(leftKnee: number, rightKnee: number): Features {
+  return { angles: { leftKnee, rightKnee } } as unknown as Features;
+}
+
+function createSession(stretches: StretchSession[]): CoachingSession {
+  return {
+    id: 'session',
+    startTime: 0,
+    state: 'completed',
+    stretches,
+    totalDuration: 0,
+    totalIssues: 0,
+    overallScore: 0,
+  };
+}
+
+describe('SymmetryAnalyzer', () => {
+  const analyzer = new SymmetryAnalyzer();
+
+  describe('trackRange', () => {
+    it("keeps the furthest range the session's side reaches", () => {
+      let stretch = createStretch('quad', 'right');
+      [
+        kneeFeatures(40, 80),
+        kneeFeatures(40, 50),
+        kneeFeatures(40, 70),
+      ].forEach(features => {
+        stretch = analyzer.trackRange(stretch, features);
+      });
+
+      expect(stretch.rangeReached).toBe(130);
+    });
+
+    it('leaves sessions without a single side alone', () => {
+      const both = createStretch('quad', 'both');
+      const plank = createStretch('plank', 'left');
+
+      expect(analyzer.trackRange(both, kneeFeatures(40, 40))).toBe(both);
+      expect(analyzer.trackRange(plank, kneeFeatures(40, 40))).toBe(plank);
+    });
+  });
+
+  describe('compare', () => {
+    it('names the side with less range as tighter', () => {
+      const comparison = analyzer.compare(
+        createStretch('hamstring', 'left', { rangeReached: 40 }),
+        createStretch('hamstring', 'right', { rangeReached: 30 })
+      );
+
+      expect(comparison).toMatchObject({
+        rangeReached: { left: 40, right: 30, difference: 10 },
+        tighterSide: 'right',
+        summary: 'Your right hamstring is tighter than your left',
+      });
+    });
+
+    it('calls a small range difference even', () => {
+      const comparison = analyzer.compare(
+        createStretch('calf', 'left', { rangeReached: 20 }),
+        createStretch('calf', 'right', { rangeReached: 23 })
+      );
+
+      expect(comparison?.tighterSide).toBeNull();
+      expect(comparison?.summary).toBeNull();
+    });
+
+    it('compares hold quality even without a range', () => {
+      const comparison = analyzer.compare(
+        createStretch('quad', 'left', { averageStability: 0.9 }),
+        createStretch('quad', 'right', { averageStability: 0.7 })
+      );
+
+      expect(comparison?.rangeReached).toBeNull();
+      expect(comparison?.holdQuality.difference).toBeCloseTo(0.2);
+    });
+
+    it('only pairs a left and a right session of the same stretch', () => {
+      expect(
+        analyzer.compare(
+          createStretch('quad', 'right'),
+          createStretch('quad', 'left')
+        )
+      ).toBeNull();
+      expect(
+        analyzer.compare(
+          createStretch('quad', 'left'),
+          createStretch('calf', 'right')
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('summarize', () => {
+    it('compares the latest session of each side of each stretch', () => {
+      const session = createSession([
+        createStretch('quad', 'left', { rangeReached: 100 }),
+        createStretch('quad', 'right', { rangeReached: 110 }),
+        createStretch('quad', 'left', { rangeReached: 120 }),
+        createStretch('calf', 'left', { rangeReached: 20 }),
+        createStretch('plank', undefined),
+      ]);
+
+      const comparisons = analyzer.summarize(session);
+
+      expect(comparisons).toHaveLength(1);
+      expect(comparisons[0]).toMatchObject({
+        stretchType: 'quad',
+        rangeReached: { left: 120, right: 110 },
+        tighterSide: 'right',
+      });
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * PoseTrace - Versioned JSONL format for recorded pose streams
+ * Stores keypoints and session metadata only, never images
+ */
+
+import { BodySide, Keypoint, KeypointName, Pose, StretchType } from '../types';
+import { KEYPOINT_NAMES } from '../config/constants';
+
+export const POSE_TRACE_VERSION = 1;
+
+/**
+ * Session metadata written as the first line of a trace
+ */
+export interface PoseTraceMetadata {
+  stretchType?: StretchType;
+  side?: BodySide;
+  backend?: string; // Pose backend name
+  frameWidth: number;
+  frameHeight: number;
+  cameraTiltDeg?: number; // Calibrated camera roll used for the session
+  appVersion?: string;
+  notes?: string;
+}
+
+export interface PoseTraceHeader {
+  type: 'header';
+  version: number;
+  createdAt: number;
+  keypoints: KeypointName[]; // Column order of each pose line
+  metadata: PoseTraceMetadata;
+}
+
+/**
+ * One recorded pose; keypoints are [x, y, confidence, visibility] rows
+ */
+export interface PoseTraceFrame {
+  type: 'pose';
+  t: number; // pose.timestamp
+  f: string; // pose.frameId
+  v: number; // pose.visibilityScore
+  id?: number; // pose.trackId
+  k: [number, number, number, number][];
+}
+
+export interface PoseTrace {
+  header: PoseTraceHeader;
+  poses: Pose[];
+}
+
+const VISIBILITY_CODES: Keypoint['visibility'][] = [
+  'visible',
+  'occluded',
+  'not_visible',
+];
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Build the header line for a new trace
+ */
+export function createTraceHeader(
+  metadata: PoseTraceMetadata,
+  createdAt: number
+): PoseTraceHeader {
+  return {
+    type: 'header',
+    version: POSE_TRACE_VERSION,
+    createdAt,
+    keypoints: [...KEYPOINT_NAMES],
+    metadata,
+  };
+}
+
+/**
+ * Encode a pose as a compact trace line
+ */
+export function encodeTraceFrame(pose: Pose): PoseTraceFrame {
+  const frame: PoseTraceFrame = {
+    type: 'pose',
+    t: pose.timestamp,
+    f: pose.frameId,
+    v: round(pose.visibilityScore, 3),
+    k: KEYPOINT_NAMES.map(name => {
+      const keypoint = pose.keypoints[name];
+      return [
+        round(keypoint.x, 1),
+        round(keypoint.y, 1),
+        round(keypoint.confidence, 3),
+        Math.max(VISIBILITY_CODES.indexOf(keypoint.visibility ?? 'visible'), 0),
+      ];
+    }),
+  };
+
+  if (pose.trackId !== undefined) {
+    frame.id = pose.trackId;
+  }
+
+  return frame;
+}
+
+/**
+ * Decode a trace line back into a pose
+ */
+export function decodeTraceFrame(
+  frame: PoseTraceFrame,
+  keypointOrder: KeypointName[]
+): Pose {
+  const keypoints = {} as Record<KeypointName, Keypoint>;
+
+  // Keypoints added after the trace was recorded read as not visible
+  KEYPOINT_NAMES.forEach(name => {
+    keypoints[name] = { x: 0, y: 0, confidence: 0, visibility: 'not_visible' };
+  });
+
+  keypointOrder.forEach((name, index) => {
+    const row = frame.k[index];
+    if (row) {
+      const [x, y, confidence, visibility] = row;
+      keypoints[name] = {
+        x,
+        y,
+        confidence,
+        visibility: VISIBILITY_CODES[visibility] ?? 'not_visible',
+      };
+    }
+  });
+
+  const pose: Pose = {
+    keypoints,
+    timestamp: frame.t,
+    frameId: frame.f,
+    visibilityScore: frame.v,
+  };
+  if (frame.id !== undefined) {
+    pose.trackId = frame.id;
+  }
+
+  return pose;
+}
+
+/**
+ * Serialize a trace to JSONL
+ */
+export function serializeTrace(
+  header: PoseTraceHeader,
+  frames: PoseTraceFrame[]
+): string {
+  return (
+    [header, ...frames].map(line => JSON.stringify(line)).join('\n') + '\n'
+  );
+}
+
+/**
+ * Parse a JSONL trace, rejecting unknown versions
+ */
+export function parseTrace(jsonl: string): PoseTrace {
+  const lines = jsonl
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  const header = JSON.parse(lines[0] ?? 'null') as PoseTraceHeader | null;
+  if (!header || header.type !== 'header') {
+    throw new Error('Pose trace is missing its header line');
+  }
+  if (header.version !== POSE_TRACE_VERSION) {
+    throw new Error(
+      `Unsupported pose trace version ${header.version} (expected ${POSE_TRACE_VERSION})`
+    );
+  }
+
+  const poses = lines.slice(1).map((line, index) => {
+    const frame = JSON.parse(line) as PoseTraceFrame;
+    if (frame.type !== 'pose') {
+      throw new Error(`Unexpected pose trace line ${index + 2}: ${line}`);
+    }
+    return decodeTraceFrame(frame, header.keypoints);
+  });
+
+  return { header, poses };
+}
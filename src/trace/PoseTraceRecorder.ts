@@ -0,0 +1,101 @@
+/**
+ * PoseTraceRecorder - Records what the pose pipeline saw
+ * Hooks into PoseService pose callbacks and produces a JSONL trace
+ */
+
+import { Pose } from '../types';
+import { PoseService } from '../pose/PoseService';
+import {
+  PoseTraceFrame,
+  PoseTraceHeader,
+  PoseTraceMetadata,
+  createTraceHeader,
+  encodeTraceFrame,
+  serializeTrace,
+} from './PoseTrace';
+
+export interface PoseTraceRecorderConfig {
+  maxFrames: number; // Oldest frames are dropped beyond this
+}
+
+export class PoseTraceRecorder {
+  private poseService: PoseService;
+  private config: PoseTraceRecorderConfig;
+  private header: PoseTraceHeader | null = null;
+  private frames: PoseTraceFrame[] = [];
+  private isRecording = false;
+  private droppedFrames = 0;
+
+  private readonly handlePose = (pose: Pose) => {
+    this.frames.push(encodeTraceFrame(pose));
+    if (this.frames.length > this.config.maxFrames) {
+      this.frames.shift();
+      this.droppedFrames++;
+    }
+  };
+
+  constructor(
+    poseService: PoseService,
+    config?: Partial<PoseTraceRecorderConfig>
+  ) {
+    this.poseService = poseService;
+    this.config = {
+      maxFrames: 12 * 60 * 10, // 10 minutes at 12 FPS
+      ...config,
+    };
+  }
+
+  /**
+   * Start a new recording
+   */
+  start(metadata: PoseTraceMetadata): void {
+    if (this.isRecording) {
+      this.stop();
+    }
+
+    this.header = createTraceHeader(
+      {
+        backend: this.poseService.getBackendCapabilities().name,
+        ...metadata,
+      },
+      Date.now()
+    );
+    this.frames = [];
+    this.droppedFrames = 0;
+    this.isRecording = true;
+    this.poseService.addPoseCallback(this.handlePose);
+  }
+
+  /**
+   * Stop recording; the captured frames are kept until the next start
+   */
+  stop(): void {
+    if (!this.isRecording) {
+      return;
+    }
+
+    this.poseService.removePoseCallback(this.handlePose);
+    this.isRecording = false;
+  }
+
+  /**
+   * Serialize the current recording to JSONL
+   */
+  toJSONL(): string | null {
+    if (!this.header) {
+      return null;
+    }
+    return serializeTrace(this.header, this.frames);
+  }
+
+  /**
+   * Get recording statistics
+   */
+  getStats() {
+    return {
+      isRecording: this.isRecording,
+      frameCount: this.frames.length,
+      droppedFrames: this.droppedFrames,
+    };
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * PoseTraceReplaySource - Plays a recorded pose trace back into the pipeline
+ * Emits poses like PoseService so FeatureEngine and downstream are unchanged
+ */
+
+import { Pose } from '../types';
+import { PoseTrace } from './PoseTrace';
+
+// Type definitions for Node.js globals in React Native environment
+declare const setTimeout: (callback: () => void, ms: number) => number;
+declare const clearTimeout: (id: number) => void;
+declare const console: {
+  error: (message?: unknown, ...optionalParams: unknown[]) => void;
+};
+
+export type ReplayTiming = 'realtime' | 'fast';
+
+export interface ReplayOptions {
+  timing: ReplayTiming; // Original frame spacing, or as fast as possible
+  speed: number; // Playback rate multiplier for realtime timing
+}
+
+export class PoseTraceReplaySource {
+  private trace: PoseTrace;
+  private poseCallbacks: Set<(pose: Pose) => void> = new Set();
+  private timer: number | null = null;
+  private isPlaying = false;
+  private position = 0;
+  private finish: (() => void) | null = null;
+
+  constructor(trace: PoseTrace) {
+    this.trace = trace;
+  }
+
+  /**
+   * Play the trace from the current position
+   * Resolves when the last pose is emitted or playback is stopped
+   */
+  play(options?: Partial<ReplayOptions>): Promise<void> {
+    const { timing, speed }: ReplayOptions = {
+      timing: 'realtime',
+      speed: 1,
+      ...options,
+    };
+
+    if (this.isPlaying) {
+      this.stop();
+    }
+    this.isPlaying = true;
+
+    if (timing === 'fast') {
+      while (this.isPlaying && this.position < this.trace.poses.length) {
+        this.emit(this.trace.poses[this.position++]!);
+      }
+      this.isPlaying = false;
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.finish = resolve;
+
+      const step = () => {
+        const pose = this.trace.poses[this.position];
+        if (!this.isPlaying || !pose) {
+          this.complete();
+          return;
+        }
+
+        this.emit(pose);
+        this.position++;
+
+        const next = this.trace.poses[this.position];
+        if (!next) {
+          this.complete();
+          return;
+        }
+
+        const delay = Math.max(0, (next.timestamp - pose.timestamp) / speed);
+        this.timer = setTimeout(step, delay);
+      };
+
+      step();
+    });
+  }
+
+  /**
+   * Stop playback, keeping the current position
+   */
+  stop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.isPlaying = false;
+    this.complete();
+  }
+
+  /**
+   * Rewind to the first pose
+   */
+  rewind(): void {
+    this.stop();
+    this.position = 0;
+  }
+
+  /**
+   * Add pose callback
+   */
+  addPoseCallback(callback: (pose: Pose) => void): void {
+    this.poseCallbacks.add(callback);
+  }
+
+  /**
+   * Remove pose callback
+   */
+  removePoseCallback(callback: (pose: Pose) => void): void {
+    this.poseCallbacks.delete(callback);
+  }
+
+  /**
+   * Get playback progress
+   */
+  getProgress() {
+    return {
+      isPlaying: this.isPlaying,
+      position: this.position,
+      totalPoses: this.trace.poses.length,
+    };
+  }
+
+  /**
+   * Notify pose callbacks
+   */
+  private emit(pose: Pose): void {
+    this.poseCallbacks.forEach(callback => {
+      try {
+        callback(pose);
+      } catch (error) {
+        console.error('Error in pose callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Resolve the pending play() promise
+   */
+  private complete(): void {
+    this.isPlaying = false;
+    this.timer = null;
+    const finish = this.finish;
+    this.finish = null;
+    finish?.();
+  }
+}
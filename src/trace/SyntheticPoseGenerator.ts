@@ -0,0 +1,760 @@
+/**
+ * SyntheticPoseGenerator - Kinematic skeleton that emits Pose streams
+ * Every stretch from any camera view, with scripted faults, noise and dropouts
+ */
+
+import {
+  BodySide,
+  CameraView,
+  Keypoint,
+  KeypointName,
+  Pose,
+  StretchType,
+} from '../types';
+import { KEYPOINT_NAMES, POSE_CONFIG } from '../config/constants';
+import { STRETCH_CONFIGS } from '../fsm/config';
+import { createTraceHeader, PoseTrace } from './PoseTrace';
+
+export type SyntheticFaultType =
+  | 'hip_sag' // Hips drop out of the shoulder-ankle line
+  | 'hip_pike' // Hips rise out of the shoulder-ankle line
+  | 'torso_lean' // Trunk tips further forward
+  | 'knee_bend' // Knee flexes
+  | 'knee_forward' // Whole leg swings forward from the hip
+  | 'heel_lift' // Heel leaves the floor
+  | 'shoulder_shrug'; // Shoulder rises towards the ear
+
+/**
+ * Time span in milliseconds since the first frame; open-ended without endMs
+ */
+export interface SyntheticWindow {
+  startMs: number;
+  endMs?: number;
+}
+
+export interface SyntheticFault extends SyntheticWindow {
+  type: SyntheticFaultType;
+  magnitude: number; // Degrees
+  side?: BodySide; // Limb faults default to the working side
+  rampMs?: number; // Time to ease in and out
+}
+
+export interface SyntheticOcclusion extends SyntheticWindow {
+  keypoints: KeypointName[];
+  confidence?: number; // Reported confidence while hidden
+}
+
+export interface SyntheticPoseConfig {
+  stretchType: StretchType;
+  side: 'left' | 'right'; // Working side (the limb doing the stretch)
+  cameraSide: 'left' | 'right'; // Side of the body turned towards the camera
+  view?: CameraView; // Defaults to the stretch's preferred view
+  fps: number;
+  startTime: number; // Timestamp of the first frame
+  frameWidth: number;
+  frameHeight: number;
+  bodyHeight: number; // Standing height in pixels
+  cameraTiltDeg: number; // Camera roll; positive turns the floor clockwise
+  swayDeg: number; // Natural postural sway amplitude
+  faults: SyntheticFault[];
+  occlusions: SyntheticOcclusion[];
+  dropouts: SyntheticWindow[]; // Spans where the subject is lost entirely
+  dropoutRate: number; // Chance any frame loses the subject
+  keypointDropoutRate: number; // Chance a keypoint is missed in a frame
+  keypoints: readonly KeypointName[]; // Keypoints the model tracks; others come back empty
+  noisePx: number; // Position noise standard deviation
+  confidence: number; // Confidence of keypoints facing the camera
+  farSideConfidence: number; // Confidence of keypoints on the far side
+  confidenceNoise: number; // Confidence noise standard deviation
+  visibilityThreshold: number;
+  confidenceThreshold: number;
+  seed: number;
+}
+
+type Side = 'left' | 'right';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Side-on point plus z, its offset across the body (positive to its left)
+interface BodyPoint extends Point {
+  z: number;
+}
+
+// Segment angles in degrees from straight down, positive towards the facing direction
+interface LimbAngles {
+  upperArm: number;
+  forearm: number;
+  across?: number; // Arm swung in front of the chest, towards the other side
+  thigh: number;
+  shin: number;
+  foot: number; // Ankle to toe; 90 is flat
+}
+
+interface Posture {
+  torso: number; // Hip to shoulder, degrees forward of vertical
+  head: number; // Shoulder to ear, degrees forward of vertical
+  shrug: Record<Side, number>;
+  heelLift: Record<Side, number>;
+  limbs: Record<Side, LimbAngles>;
+}
+
+interface StretchPosture {
+  torso: number;
+  head: number;
+  working: LimbAngles;
+  support: LimbAngles;
+  contacts: ('wrist' | 'heel' | 'toe')[]; // Points resting on the floor
+}
+
+// Segment lengths as a fraction of standing height (Drillis & Contini)
+const SEGMENT = {
+  torso: 0.288,
+  upperArm: 0.186,
+  forearm: 0.146,
+  thigh: 0.245,
+  shin: 0.246,
+  toe: 0.13,
+  heel: 0.04,
+  sole: 0.035, // Ankle height above the sole
+  shoulderRise: 0.1, // Clavicle lever for shrugs
+  ear: 0.11,
+  eyeForward: 0.045,
+  eyeUp: 0.015,
+  noseForward: 0.065,
+} as const;
+
+// Half the front-on span of each left/right pair, as a fraction of height
+const HALF_WIDTH = {
+  shoulder: 0.115,
+  hip: 0.0575,
+  ear: 0.043,
+  eye: 0.018,
+} as const;
+
+// How much of the forward and across-the-body directions the camera sees
+const VIEW_PROJECTION: Record<CameraView, { forward: number; across: number }> =
+  {
+    front: { forward: 0, across: 1 },
+    three_quarter: { forward: Math.SQRT1_2, across: Math.SQRT1_2 },
+    side: { forward: 1, across: 0 },
+  };
+
+const STRETCH_POSTURES: Record<StretchType, StretchPosture> = {
+  // Forearm plank: elbows under shoulders, body in one line
+  plank: {
+    torso: 86,
+    head: 86,
+    working: { upperArm: 0, forearm: 90, thigh: -86, shin: -86, foot: 4 },
+    support: { upperArm: 0, forearm: 90, thigh: -86, shin: -86, foot: 4 },
+    contacts: ['wrist', 'toe'],
+  },
+  // Working leg forward on its heel, support knee soft, hinged at the hips
+  hamstring: {
+    torso: 45,
+    head: 40,
+    working: { upperArm: 30, forearm: 40, thigh: 18, shin: 18, foot: 120 },
+    support: { upperArm: 30, forearm: 40, thigh: 10, shin: -10, foot: 90 },
+    contacts: ['heel', 'toe'],
+  },
+  // Standing tall, working heel pulled to the glutes by the same-side hand
+  quad: {
+    torso: 0,
+    head: 0,
+    working: { upperArm: -25, forearm: 5, thigh: 0, shin: -165, foot: -170 },
+    support: { upperArm: 0, forearm: 5, thigh: 0, shin: 0, foot: 90 },
+    contacts: ['heel', 'toe'],
+  },
+  // Working arm across the chest, other hand holding it at the elbow
+  shoulder_cross: {
+    torso: 0,
+    head: 0,
+    working: {
+      upperArm: 75,
+      forearm: -100,
+      across: 70,
+      thigh: 0,
+      shin: 0,
+      foot: 90,
+    },
+    support: { upperArm: 10, forearm: 130, thigh: 0, shin: 0, foot: 90 },
+    contacts: ['heel', 'toe'],
+  },
+  // Leaning into a wall, working leg straight behind with the heel down
+  calf: {
+    torso: 25,
+    head: 20,
+    working: { upperArm: 75, forearm: 85, thigh: -25, shin: -25, foot: 90 },
+    support: { upperArm: 75, forearm: 85, thigh: 35, shin: 5, foot: 90 },
+    contacts: ['heel', 'toe'],
+  },
+};
+
+const BODY_FAULTS: SyntheticFaultType[] = ['hip_sag', 'hip_pike', 'torso_lean'];
+const DEFAULT_RAMP_MS = 500;
+const DEFAULT_OCCLUDED_CONFIDENCE = 0.1;
+const SWAY_PERIOD_MS = 4000;
+const FLOOR_LINE = 0.92; // Floor height as a fraction of frame height
+
+const EMPTY_KEYPOINT: Keypoint = {
+  x: 0,
+  y: 0,
+  confidence: 0,
+  visibility: 'not_visible',
+};
+
+/**
+ * Small seeded PRNG so every stream is reproducible (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const isInWindow = (window: SyntheticWindow, elapsedMs: number) =>
+  elapsedMs >= window.startMs &&
+  (window.endMs === undefined || elapsedMs < window.endMs);
+
+/**
+ * Fault strength from 0 to 1, easing in after startMs and out before endMs
+ */
+function faultLevel(fault: SyntheticFault, elapsedMs: number): number {
+  if (elapsedMs < fault.startMs) {
+    return 0;
+  }
+
+  const rampMs = fault.rampMs ?? DEFAULT_RAMP_MS;
+  const ramp = (ms: number) =>
+    rampMs > 0 ? Math.min(Math.max(ms / rampMs, 0), 1) : ms >= 0 ? 1 : 0;
+
+  const rampIn = ramp(elapsedMs - fault.startMs);
+  return fault.endMs === undefined
+    ? rampIn
+    : Math.min(rampIn, ramp(fault.endMs - elapsedMs));
+}
+
+export class SyntheticPoseGenerator {
+  private config: SyntheticPoseConfig;
+  private random: () => number;
+  private frameIndex = 0;
+  private offsetX = 0;
+
+  constructor(config?: Partial<SyntheticPoseConfig>) {
+    const side = config?.side ?? 'left';
+    this.config = {
+      stretchType: 'plank',
+      side,
+      cameraSide: side,
+      fps: 30,
+      startTime: 0,
+      frameWidth: 640,
+      frameHeight: 480,
+      bodyHeight: 360,
+      cameraTiltDeg: 0,
+      swayDeg: 0.5,
+      faults: [],
+      occlusions: [],
+      dropouts: [],
+      dropoutRate: 0,
+      keypointDropoutRate: 0,
+      keypoints: KEYPOINT_NAMES,
+      noisePx: 0,
+      confidence: 0.9,
+      farSideConfidence: 0.75,
+      confidenceNoise: 0,
+      visibilityThreshold: POSE_CONFIG.VISIBILITY_THRESHOLD,
+      confidenceThreshold: POSE_CONFIG.CONFIDENCE_THRESHOLD,
+      seed: 1,
+      ...config,
+    };
+    this.random = createRandom(this.config.seed);
+    this.offsetX = this.calculateOffsetX();
+  }
+
+  /**
+   * Produce the next frame of the stream
+   */
+  next(): Pose {
+    const elapsedMs = (this.frameIndex * 1000) / this.config.fps;
+    const pose = this.buildPose(
+      elapsedMs,
+      `synthetic_${this.config.seed}_${this.frameIndex}`
+    );
+    this.frameIndex++;
+    return pose;
+  }
+
+  /**
+   * Produce every frame for the next durationMs
+   */
+  generate(durationMs: number): Pose[] {
+    const count = Math.floor((durationMs * this.config.fps) / 1000);
+    return Array.from({ length: count }, () => this.next());
+  }
+
+  /**
+   * Produce a trace that can be serialized or fed to runTrace
+   */
+  generateTrace(durationMs: number): PoseTrace {
+    const { stretchType, side, frameWidth, frameHeight, startTime, faults } =
+      this.config;
+    const header = createTraceHeader(
+      {
+        stretchType,
+        side,
+        backend: 'synthetic',
+        frameWidth,
+        frameHeight,
+        notes: faults
+          .map(
+            fault => `${fault.type} ${fault.magnitude}deg@${fault.startMs}ms`
+          )
+          .join(', '),
+      },
+      startTime
+    );
+
+    return { header, poses: this.generate(durationMs) };
+  }
+
+  /**
+   * Build the pose at a point in time
+   */
+  private buildPose(elapsedMs: number, frameId: string): Pose {
+    const timestamp = this.config.startTime + Math.round(elapsedMs);
+    const points = this.tiltSkeleton(
+      this.placeSkeleton(this.getPosture(elapsedMs))
+    );
+
+    // Draw from the PRNG in a fixed order so streams stay reproducible
+    const isDropped =
+      this.random() < this.config.dropoutRate ||
+      this.config.dropouts.some(window => isInWindow(window, elapsedMs));
+
+    const keypoints = {} as Record<KeypointName, Keypoint>;
+    KEYPOINT_NAMES.forEach(name => {
+      const keypoint = this.buildKeypoint(name, points[name], elapsedMs);
+      const isTracked = this.config.keypoints.includes(name);
+      keypoints[name] =
+        isDropped || !isTracked ? { ...EMPTY_KEYPOINT } : keypoint;
+    });
+
+    const visibleCount = KEYPOINT_NAMES.filter(
+      name => keypoints[name].confidence >= this.config.visibilityThreshold
+    ).length;
+
+    return {
+      keypoints,
+      timestamp,
+      frameId,
+      visibilityScore: visibleCount / KEYPOINT_NAMES.length,
+    };
+  }
+
+  /**
+   * Rotate the placed skeleton about the frame centre like a rolled camera
+   */
+  private tiltSkeleton(
+    points: Record<KeypointName, Point>
+  ): Record<KeypointName, Point> {
+    const { cameraTiltDeg, frameWidth, frameHeight } = this.config;
+    if (cameraTiltDeg === 0) {
+      return points;
+    }
+
+    const radians = (cameraTiltDeg * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const centerX = frameWidth / 2;
+    const centerY = frameHeight / 2;
+
+    const tilted = {} as Record<KeypointName, Point>;
+    KEYPOINT_NAMES.forEach(name => {
+      const dx = points[name].x - centerX;
+      const dy = points[name].y - centerY;
+      tilted[name] = {
+        x: centerX + dx * cos - dy * sin,
+        y: centerY + dx * sin + dy * cos,
+      };
+    });
+    return tilted;
+  }
+
+  /**
+   * Add noise, occlusion and dropouts to one skeleton point
+   */
+  private buildKeypoint(
+    name: KeypointName,
+    point: Point,
+    elapsedMs: number
+  ): Keypoint {
+    const { frameWidth, frameHeight, noisePx, confidenceNoise } = this.config;
+    const x = point.x + this.gaussian() * noisePx;
+    const y = point.y + this.gaussian() * noisePx;
+
+    const occlusion = this.config.occlusions.find(
+      window => window.keypoints.includes(name) && isInWindow(window, elapsedMs)
+    );
+    const { confidence: nearConfidence, farSideConfidence } = this.config;
+    // The far side is only hidden as far as the body is turned away
+    const hiding = VIEW_PROJECTION[this.getView()].forward;
+    const baseConfidence = occlusion
+      ? (occlusion.confidence ?? DEFAULT_OCCLUDED_CONFIDENCE)
+      : this.isFarSide(name)
+        ? nearConfidence + (farSideConfidence - nearConfidence) * hiding
+        : nearConfidence;
+    const confidence = Math.min(
+      Math.max(baseConfidence + this.gaussian() * confidenceNoise, 0),
+      1
+    );
+
+    const isMissed = this.random() < this.config.keypointDropoutRate;
+    const isOutOfFrame = x < 0 || y < 0 || x > frameWidth || y > frameHeight;
+    if (isMissed || isOutOfFrame) {
+      return { ...EMPTY_KEYPOINT };
+    }
+
+    return { x, y, confidence, visibility: this.getVisibility(confidence) };
+  }
+
+  /**
+   * Stretch posture with sway and active faults applied
+   */
+  private getPosture(elapsedMs: number): Posture {
+    const { side, swayDeg, faults } = this.config;
+    const posture = this.getBasePosture();
+    posture.torso +=
+      swayDeg * Math.sin((2 * Math.PI * elapsedMs) / SWAY_PERIOD_MS);
+
+    faults.forEach(fault => {
+      const degrees = fault.magnitude * faultLevel(fault, elapsedMs);
+      if (degrees === 0) {
+        return;
+      }
+
+      if (BODY_FAULTS.includes(fault.type)) {
+        this.applyBodyFault(posture, fault.type, degrees);
+        return;
+      }
+
+      const faultSide = fault.side ?? side;
+      const sides: Side[] =
+        faultSide === 'both' ? ['left', 'right'] : [faultSide];
+      sides.forEach(limbSide =>
+        this.applyLimbFault(posture, limbSide, fault.type, degrees)
+      );
+    });
+
+    return posture;
+  }
+
+  /**
+   * Faults that bend the whole body at the hips
+   */
+  private applyBodyFault(
+    posture: Posture,
+    type: SyntheticFaultType,
+    degrees: number
+  ): void {
+    if (type === 'torso_lean') {
+      posture.torso += degrees;
+      posture.head += degrees;
+      return;
+    }
+
+    // Torso and legs each rotate half the angle so the hip leaves the line
+    const half = (type === 'hip_sag' ? degrees : -degrees) / 2;
+    posture.torso -= half;
+    posture.head -= half;
+    (['left', 'right'] as const).forEach(limbSide => {
+      posture.limbs[limbSide].thigh -= half;
+      posture.limbs[limbSide].shin -= half;
+      posture.limbs[limbSide].foot -= half;
+    });
+  }
+
+  /**
+   * Faults on a single arm or leg
+   */
+  private applyLimbFault(
+    posture: Posture,
+    side: Side,
+    type: SyntheticFaultType,
+    degrees: number
+  ): void {
+    const limb = posture.limbs[side];
+
+    switch (type) {
+      case 'knee_bend':
+        limb.thigh += degrees / 2;
+        limb.shin -= degrees / 2;
+        break;
+      case 'knee_forward':
+        limb.thigh += degrees;
+        limb.shin += degrees;
+        limb.foot += degrees;
+        break;
+      case 'heel_lift':
+        posture.heelLift[side] += degrees;
+        break;
+      case 'shoulder_shrug':
+        posture.shrug[side] += degrees;
+        break;
+    }
+  }
+
+  /**
+   * Forward kinematics from the hips, seen from the camera view, then rest
+   * the lowest contact on the floor
+   */
+  private placeSkeleton(posture: Posture): Record<KeypointName, Point> {
+    const height = this.config.bodyHeight;
+    const facing = this.config.cameraSide === 'right' ? 1 : -1;
+    const dir = (degrees: number, length: number): BodyPoint => {
+      const radians = (degrees * Math.PI) / 180;
+      return {
+        x: facing * Math.sin(radians) * length * height,
+        y: Math.cos(radians) * length * height,
+        z: 0,
+      };
+    };
+    const add = (...points: BodyPoint[]): BodyPoint =>
+      points.reduce(
+        (sum, p) => ({ x: sum.x + p.x, y: sum.y + p.y, z: sum.z + p.z }),
+        { x: 0, y: 0, z: 0 }
+      );
+    const across = (side: Side, halfWidth: number): BodyPoint => ({
+      x: 0,
+      y: 0,
+      z: (side === 'left' ? 1 : -1) * halfWidth * height,
+    });
+
+    const points = {} as Record<KeypointName, BodyPoint>;
+    const shoulderCenter = dir(180 - posture.torso, SEGMENT.torso);
+
+    (['left', 'right'] as const).forEach(side => {
+      const limb = posture.limbs[side];
+      const hip = across(side, HALF_WIDTH.hip);
+      const shrugRise =
+        Math.sin((posture.shrug[side] * Math.PI) / 180) * SEGMENT.shoulderRise;
+      const shoulder = add(
+        shoulderCenter,
+        across(side, HALF_WIDTH.shoulder),
+        dir(180 - posture.torso, shrugRise)
+      );
+      // An arm across the chest swings about the vertical through its shoulder
+      const arm = (degrees: number, length: number): BodyPoint => {
+        const segment = dir(degrees, length);
+        const swing = ((limb.across ?? 0) * Math.PI) / 180;
+        return {
+          x: segment.x * Math.cos(swing),
+          y: segment.y,
+          z: (side === 'left' ? -1 : 1) * facing * segment.x * Math.sin(swing),
+        };
+      };
+      const elbow = add(shoulder, arm(limb.upperArm, SEGMENT.upperArm));
+      const toeOffset = (foot: number) =>
+        add(dir(foot, SEGMENT.toe), dir(foot - 90, SEGMENT.sole));
+      const foot = limb.foot - posture.heelLift[side];
+      let knee = add(hip, dir(limb.thigh, SEGMENT.thigh));
+      let ankle = add(knee, dir(limb.shin, SEGMENT.shin));
+
+      // A lifted heel pivots the foot about the planted toe and bends the knee
+      if (foot !== limb.foot) {
+        const toe = add(ankle, toeOffset(limb.foot));
+        const lifted = toeOffset(foot);
+        ({ knee, ankle } = this.solveLeg(
+          hip,
+          { x: toe.x - lifted.x, y: toe.y - lifted.y },
+          facing
+        ));
+      }
+
+      points[`${side}_shoulder`] = shoulder;
+      points[`${side}_elbow`] = elbow;
+      points[`${side}_wrist`] = add(elbow, arm(limb.forearm, SEGMENT.forearm));
+      points[`${side}_hip`] = hip;
+      points[`${side}_knee`] = knee;
+      points[`${side}_ankle`] = ankle;
+      points[`${side}_heel`] = add(
+        ankle,
+        dir(foot + 180, SEGMENT.heel),
+        dir(foot - 90, SEGMENT.sole)
+      );
+      points[`${side}_toe`] = add(ankle, toeOffset(foot));
+    });
+
+    const ear = add(shoulderCenter, dir(180 - posture.head, SEGMENT.ear));
+    const forward = (length: number) => dir(90 - posture.head, length);
+    const up = (length: number) => dir(180 - posture.head, length);
+    const eye = add(ear, forward(SEGMENT.eyeForward), up(SEGMENT.eyeUp));
+    (['left', 'right'] as const).forEach(side => {
+      points[`${side}_ear`] = add(ear, across(side, HALF_WIDTH.ear));
+      points[`${side}_eye`] = add(eye, across(side, HALF_WIDTH.eye));
+    });
+    points.nose = add(ear, forward(SEGMENT.noseForward));
+
+    const contacts = STRETCH_POSTURES[this.config.stretchType].contacts;
+    const lowest = Math.max(
+      ...(['left', 'right'] as const).flatMap(side =>
+        contacts.map(contact => points[`${side}_${contact}`].y)
+      )
+    );
+    const floorY = this.config.frameHeight * FLOOR_LINE;
+
+    // Facing the camera, the body's left is on the right of the picture
+    const projection = VIEW_PROJECTION[this.getView()];
+    const placed = {} as Record<KeypointName, Point>;
+    KEYPOINT_NAMES.forEach(name => {
+      const { x, y, z } = points[name];
+      placed[name] = {
+        x: x * projection.forward + z * projection.across + this.offsetX,
+        y: y + floorY - lowest,
+      };
+    });
+
+    return placed;
+  }
+
+  /**
+   * Two-link IK placing the ankle as close to target as the leg reaches,
+   * with the knee bending towards the facing direction
+   */
+  private solveLeg(
+    hip: BodyPoint,
+    target: Point,
+    facing: number
+  ): { knee: BodyPoint; ankle: BodyPoint } {
+    const thigh = SEGMENT.thigh * this.config.bodyHeight;
+    const shin = SEGMENT.shin * this.config.bodyHeight;
+    const heading = Math.atan2(target.y - hip.y, target.x - hip.x);
+    const reach = Math.min(
+      Math.hypot(target.x - hip.x, target.y - hip.y),
+      thigh + shin
+    );
+
+    const cosSpread =
+      (thigh * thigh + reach * reach - shin * shin) / (2 * thigh * reach);
+    const spread = Math.acos(Math.min(Math.max(cosSpread, -1), 1));
+    const knee = [heading + spread, heading - spread]
+      .map(angle => ({
+        x: hip.x + thigh * Math.cos(angle),
+        y: hip.y + thigh * Math.sin(angle),
+        z: hip.z,
+      }))
+      .reduce((best, candidate) =>
+        (candidate.x - best.x) * facing > 0 ? candidate : best
+      );
+
+    return {
+      knee,
+      ankle: {
+        x: hip.x + reach * Math.cos(heading),
+        y: hip.y + reach * Math.sin(heading),
+        z: hip.z,
+      },
+    };
+  }
+
+  /**
+   * Centre the fault-free posture horizontally in the frame
+   */
+  private calculateOffsetX(): number {
+    this.offsetX = 0;
+    const points = this.placeSkeleton(this.getBasePosture());
+    const xs = KEYPOINT_NAMES.map(name => points[name].x);
+    return this.config.frameWidth / 2 - (Math.min(...xs) + Math.max(...xs)) / 2;
+  }
+
+  /**
+   * Stretch posture without sway or faults
+   */
+  private getBasePosture(): Posture {
+    const { stretchType, side } = this.config;
+    const base = STRETCH_POSTURES[stretchType];
+    const other: Side = side === 'left' ? 'right' : 'left';
+
+    return {
+      torso: base.torso,
+      head: base.head,
+      shrug: { left: 0, right: 0 },
+      heelLift: { left: 0, right: 0 },
+      limbs: {
+        [side]: { ...base.working },
+        [other]: { ...base.support },
+      } as Record<Side, LimbAngles>,
+    };
+  }
+
+  /**
+   * Camera view the stream is drawn from
+   */
+  private getView(): CameraView {
+    const { view, stretchType } = this.config;
+    return view ?? STRETCH_CONFIGS[stretchType].supportedViews[0] ?? 'side';
+  }
+
+  /**
+   * Keypoints on the side away from the camera are detected less reliably
+   */
+  private isFarSide(name: KeypointName): boolean {
+    const farSide = this.config.cameraSide === 'left' ? 'right' : 'left';
+    return name.startsWith(`${farSide}_`);
+  }
+
+  /**
+   * Same visibility rule as PoseService
+   */
+  private getVisibility(
+    confidence: number
+  ): 'visible' | 'occluded' | 'not_visible' {
+    if (confidence >= this.config.visibilityThreshold) {
+      return 'visible';
+    } else if (confidence >= this.config.confidenceThreshold) {
+      return 'occluded';
+    } else {
+      return 'not_visible';
+    }
+  }
+
+  /**
+   * Standard normal sample (Box-Muller)
+   */
+  private gaussian(): number {
+    const u = 1 - this.random();
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Update configuration; the stream restarts from the first frame
+   */
+  updateConfig(newConfig: Partial<SyntheticPoseConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.reset();
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): SyntheticPoseConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Restart the stream with the original seed
+   */
+  reset(): void {
+    this.frameIndex = 0;
+    this.random = createRandom(this.config.seed);
+    this.offsetX = this.calculateOffsetX();
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * TraceRunner - Runs a recorded pose trace through the coaching pipeline
+ * Headless (no camera, TF.js or React Native) and deterministic for golden files
+ */
+
+import {
+  CoachingCue,
+  FSMTransitionEvent,
+  StretchType,
+  WorkingSideChange,
+} from '../types';
+import { CoachService } from '../coach/CoachService';
+import { FeatureEngine } from '../features/FeatureEngine';
+import { CoachingPipeline } from '../session/CoachingPipeline';
+import { PoseTrace } from './PoseTrace';
+import { PoseTraceReplaySource } from './PoseTraceReplaySource';
+
+export type TranscriptEntry =
+  | { kind: 'transition'; time: number; transition: FSMTransitionEvent }
+  | { kind: 'cue'; time: number; cue: CoachingCue }
+  | { kind: 'side'; time: number; change: WorkingSideChange };
+
+export interface TraceRunResult {
+  stretchType: StretchType;
+  poseCount: number;
+  durationMs: number;
+  entries: TranscriptEntry[];
+}
+
+/**
+ * Replay a trace as fast as possible through the app's coaching pipeline
+ * and collect transitions and cues
+ * Times are milliseconds since the first pose
+ */
+export async function runTrace(
+  trace: PoseTrace,
+  stretchType: StretchType
+): Promise<TraceRunResult> {
+  const { metadata } = trace.header;
+  const startTime = trace.poses[0]?.timestamp ?? 0;
+  const lastTime = trace.poses[trace.poses.length - 1]?.timestamp ?? startTime;
+  const frameSize = {
+    width: metadata.frameWidth,
+    height: metadata.frameHeight,
+  };
+  const entries: TranscriptEntry[] = [];
+
+  // A recorded calibration is only the starting point; READY poses refine it
+  const featureEngine = new FeatureEngine({
+    cameraTiltDeg: metadata.cameraTiltDeg ?? 0,
+  });
+  const coach = new CoachService();
+  const pipeline = new CoachingPipeline(featureEngine, coach);
+
+  coach.addCueCallback(cue => {
+    entries.push({ kind: 'cue', time: (cue.lastUsed ?? 0) - startTime, cue });
+  });
+  pipeline.addTransitionCallback(transition => {
+    const time = transition.timestamp - startTime;
+    entries.push({ kind: 'transition', time, transition });
+  });
+  pipeline.addSideChangeCallback(change => {
+    entries.push({ kind: 'side', time: change.timestamp - startTime, change });
+  });
+  pipeline.startStretch(stretchType, startTime);
+
+  const source = new PoseTraceReplaySource(trace);
+  source.addPoseCallback(pose => {
+    pipeline.processPose(pose, frameSize);
+  });
+  await source.play({ timing: 'fast' });
+  pipeline.stopStretch();
+
+  return {
+    stretchType,
+    poseCount: trace.poses.length,
+    durationMs: lastTime - startTime,
+    entries,
+  };
+}
+
+/**
+ * Render a run as a stable, diffable text transcript
+ */
+export function formatTranscript(result: TraceRunResult): string {
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(3)}s`;
+
+  const lines = [
+    `# stretch=${result.stretchType} poses=${result.poseCount} duration=${seconds(result.durationMs)}`,
+    ...result.entries.map(entry => {
+      const time = `+${seconds(entry.time)}`.padStart(10);
+
+      if (entry.kind === 'cue') {
+        const { cue } = entry;
+        const side = cue.side ? ` side=${cue.side}` : '';
+        return `${time}  CUE  ${cue.type}/${cue.severity}${side}  "${cue.message}"`;
+      }
+
+      if (entry.kind === 'side') {
+        const { from, to, confidence } = entry.change;
+        const change = from ? `${from} -> ${to}` : to;
+        return `${time}  SIDE ${change}  confidence=${confidence.toFixed(2)}`;
+      }
+
+      const { transition } = entry;
+      const issue = transition.issue
+        ? `  ${transition.issue.type} ${transition.issue.direction} ${transition.issue.severity} value=${transition.issue.value.toFixed(1)}`
+        : '';
+      return `${time}  FSM  ${transition.from} -> ${transition.to}  ${transition.event}${issue}`;
+    }),
+  ];
+
+  return lines.join('\n') + '\n';
+}
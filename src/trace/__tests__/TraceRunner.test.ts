@@ -0,0 +1,283 @@
+/**
+ * TraceRunner tests
+ * Synthetic traces with injected faults run through the whole pipeline
+ */
+
+import { describe, expect, it } from 'vitest';
+import { KEYPOINT_NAMES } from '../../config/constants';
+import { SyntheticPoseGenerator } from '../SyntheticPoseGenerator';
+import { formatTranscript, runTrace, TranscriptEntry } from '../TraceRunner';
+
+function findTransition(
+  entries: TranscriptEntry[],
+  matches: (entry: TranscriptEntry & { kind: 'transition' }) => boolean
+): number {
+  return entries.findIndex(
+    entry => entry.kind === 'transition' && matches(entry)
+  );
+}
+
+describe('runTrace', () => {
+  it('coaches sagging plank hips rather than suggesting rest', async () => {
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      faults: [{ type: 'hip_sag', magnitude: 20, startMs: 4000 }],
+      seed: 2,
+    });
+
+    // Long enough for drift to count: a sudden sag is form, not fatigue
+    const { entries } = await runTrace(generator.generateTrace(20000), 'plank');
+
+    const issue = findTransition(
+      entries,
+      ({ transition }) =>
+        transition.event === 'ISSUE_DETECTED' &&
+        transition.issue?.type === 'hip_line'
+    );
+    const fatigue = findTransition(
+      entries,
+      ({ transition }) => transition.event === 'FATIGUE_DETECTED'
+    );
+    expect(issue).toBeGreaterThanOrEqual(0);
+    expect(fatigue).toBe(-1);
+    expect(entries[issue + 1]).toMatchObject({
+      kind: 'cue',
+      cue: { message: 'Lift your hips in line with your shoulders' },
+    });
+  });
+
+  it('does not count getting into a plank as tiring', async () => {
+    const standing = new SyntheticPoseGenerator({
+      stretchType: 'calf',
+      seed: 2,
+    }).generateTrace(3000);
+    const plank = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      seed: 2,
+      startTime: 3000,
+    }).generateTrace(20000);
+
+    const { entries } = await runTrace(
+      { header: plank.header, poses: [...standing.poses, ...plank.poses] },
+      'plank'
+    );
+
+    expect(
+      findTransition(
+        entries,
+        ({ transition }) => transition.event === 'STABLE_HOLD'
+      )
+    ).toBeGreaterThanOrEqual(0);
+    expect(
+      findTransition(
+        entries,
+        ({ transition }) => transition.event === 'FATIGUE_DETECTED'
+      )
+    ).toBe(-1);
+  });
+
+  it('coaches a 12 degree hip sag', async () => {
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      faults: [{ type: 'hip_sag', magnitude: 12, startMs: 5000 }],
+      seed: 2,
+    });
+
+    const { entries } = await runTrace(generator.generateTrace(10000), 'plank');
+
+    const issue = findTransition(
+      entries,
+      ({ transition }) =>
+        transition.event === 'ISSUE_DETECTED' &&
+        transition.issue?.type === 'hip_line' &&
+        transition.issue.direction === 'low'
+    );
+    expect(issue).toBeGreaterThanOrEqual(0);
+    expect(entries[issue]!.time).toBeGreaterThan(5000);
+  });
+
+  it('leaves a clean plank uncoached', async () => {
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      seed: 2,
+    });
+
+    const { entries } = await runTrace(generator.generateTrace(10000), 'plank');
+
+    expect(
+      findTransition(
+        entries,
+        ({ transition }) => transition.event === 'ISSUE_DETECTED'
+      )
+    ).toBe(-1);
+  });
+
+  it('holds a plank seen through keypoint jitter at a phone frame rate', async () => {
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      fps: 10,
+      noisePx: 3,
+      seed: 2,
+    });
+
+    const { entries } = await runTrace(generator.generateTrace(10000), 'plank');
+
+    expect(
+      findTransition(
+        entries,
+        ({ transition }) => transition.event === 'STABLE_HOLD'
+      )
+    ).toBeGreaterThanOrEqual(0);
+    expect(
+      findTransition(
+        entries,
+        ({ transition }) => transition.event === 'ISSUE_DETECTED'
+      )
+    ).toBe(-1);
+  });
+
+  it('coaches a 12 degree hip sag through keypoint jitter', async () => {
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'plank',
+      fps: 12,
+      noisePx: 2,
+      faults: [{ type: 'hip_sag', magnitude: 12, startMs: 5000 }],
+      seed: 2,
+    });
+
+    const { entries } = await runTrace(generator.generateTrace(10000), 'plank');
+
+    const hold = findTransition(
+      entries,
+      ({ transition }) => transition.event === 'STABLE_HOLD'
+    );
+    const issue = findTransition(
+      entries,
+      ({ transition }) =>
+        transition.event === 'ISSUE_DETECTED' &&
+        transition.issue?.type === 'hip_line'
+    );
+    expect(hold).toBeGreaterThanOrEqual(0);
+    expect(issue).toBeGreaterThan(hold);
+  });
+
+  it('levels a plank filmed by a rolled camera', async () => {
+    const run = async (cameraTiltDeg: number) =>
+      formatTranscript(
+        await runTrace(
+          new SyntheticPoseGenerator({
+            stretchType: 'plank',
+            cameraTiltDeg,
+            seed: 2,
+          }).generateTrace(10000),
+          'plank'
+        )
+      );
+
+    const level = await run(0);
+
+    expect(await run(8)).toBe(level);
+    expect(await run(-8)).toBe(level);
+  });
+
+  it.each(['side', 'three_quarter'] as const)(
+    'holds a clean %s plank seen without foot keypoints',
+    async view => {
+      const generator = new SyntheticPoseGenerator({
+        stretchType: 'plank',
+        view,
+        keypoints: KEYPOINT_NAMES.filter(
+          name => !name.endsWith('_heel') && !name.endsWith('_toe')
+        ),
+        noisePx: 1,
+        seed: 5,
+      });
+
+      const { entries } = await runTrace(
+        generator.generateTrace(10000),
+        'plank'
+      );
+
+      expect(
+        findTransition(
+          entries,
+          ({ transition }) => transition.event === 'STABLE_HOLD'
+        )
+      ).toBeGreaterThanOrEqual(0);
+      expect(
+        findTransition(
+          entries,
+          ({ transition }) => transition.event === 'ISSUE_DETECTED'
+        )
+      ).toBe(-1);
+    }
+  );
+
+  it('holds a clean quad stretch without straightening the lifted leg', async () => {
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'quad',
+      side: 'right',
+      seed: 2,
+    });
+
+    const { entries } = await runTrace(generator.generateTrace(20000), 'quad');
+
+    expect(
+      findTransition(
+        entries,
+        ({ transition }) => transition.event === 'STABLE_HOLD'
+      )
+    ).toBeGreaterThanOrEqual(0);
+    expect(
+      findTransition(
+        entries,
+        ({ transition }) => transition.event === 'ISSUE_DETECTED'
+      )
+    ).toBe(-1);
+  });
+
+  it('asks the user to turn when the stretch is filmed from the wrong side', async () => {
+    // The shoulder stretch wants the front
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'shoulder_cross',
+      view: 'side',
+      seed: 2,
+    });
+
+    const { entries } = await runTrace(
+      generator.generateTrace(10000),
+      'shoulder_cross'
+    );
+
+    expect(entries[0]).toMatchObject({
+      kind: 'cue',
+      cue: { message: 'Turn to face the camera' },
+    });
+  });
+
+  it('coaches the shoulder stretch from its preferred front view', async () => {
+    const generator = new SyntheticPoseGenerator({
+      stretchType: 'shoulder_cross',
+      seed: 2,
+    });
+
+    const { entries } = await runTrace(
+      generator.generateTrace(10000),
+      'shoulder_cross'
+    );
+
+    expect(
+      findTransition(
+        entries,
+        ({ transition }) => transition.event === 'STABLE_HOLD'
+      )
+    ).toBeGreaterThanOrEqual(0);
+    expect(
+      entries.some(
+        entry =>
+          entry.kind === 'cue' &&
+          entry.cue.message === 'Turn to face the camera'
+      )
+    ).toBe(false);
+  });
+});
@@ -57,6 +57,34 @@ export interface Pose {
   timestamp: number;
   frameId: string;
   visibilityScore: number; // Overall pose visibility (0-1)
+  trackId?: number; // Stable ID of the tracked person across frames
+}
+
+/**
+ * Axis-aligned box in frame pixel coordinates
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Crop of the full camera frame, in full-frame pixel coordinates
+ */
+export interface RegionOfInterest extends BoundingBox {
+  frameWidth: number;
+  frameHeight: number;
+}
+
+/**
+ * Adaptive keypoint smoothing (One Euro filter) parameters
+ */
+export interface KeypointSmoothingConfig {
+  minCutoff: number; // Hz; lower = smoother when still
+  beta: number; // Cutoff gain per pixel/second of speed; higher = less lag
+  derivativeCutoff: number; // Hz; cutoff for the speed estimate
 }
 
 /**
@@ -73,41 +101,126 @@ export interface PoseConfig {
 // FEATURE EXTRACTION TYPES
 // ============================================================================
 
+/**
+ * Joint angles in degrees; null when the joint can't be measured
+ */
+export interface JointAngles {
+  leftHip: number | null;
+  rightHip: number | null;
+  leftKnee: number | null;
+  rightKnee: number | null;
+  leftShoulder: number | null;
+  rightShoulder: number | null;
+  leftElbow: number | null;
+  rightElbow: number | null;
+  neck: number | null;
+}
+
+/**
+ * Heights above the lower ankle, upwards along gravity, in torso lengths;
+ * null when the part, the ankles or the body scale aren't visible
+ */
+export interface BodyPositions {
+  hipHeight: number | null;
+  shoulderHeight: number | null;
+  headHeight: number | null;
+  leftAnkleHeight: number | null;
+  rightAnkleHeight: number | null;
+}
+
+/**
+ * Stretch-specific measures; null when the keypoints behind them aren't visible
+ */
+export interface PostureMetrics {
+  leftDorsiflexion: number | null; // Degrees the toes are drawn up from a right angle to the shin
+  rightDorsiflexion: number | null;
+  leftShoulderElevation: number | null; // Torso lengths above the ear line (negative = below)
+  rightShoulderElevation: number | null;
+  pelvisTilt: number | null; // Degrees the thighs sit in front of the torso line (negative = tucked)
+  hipSquareness: number | null; // Degrees the pelvis is turned from the shoulders (0 = square)
+  leftElbowHeight: number | null; // Torso lengths above the shoulder
+  rightElbowHeight: number | null;
+  hipLineOffset: number | null; // Torso lengths the hips sit above the shoulder-ankle line (negative = sagging)
+}
+
+/**
+ * Left minus right differences; null when either side isn't visible
+ */
+export interface SymmetryMetrics {
+  shoulderHeightDifference: number | null; // Torso lengths (positive = left shoulder higher)
+  hipHeightDifference: number | null; // Torso lengths (negative = left hip dropped)
+  hipAngleDifference: number | null; // Degrees
+  kneeAngleDifference: number | null;
+  shoulderAngleDifference: number | null;
+  elbowAngleDifference: number | null;
+}
+
+/**
+ * Limb being stretched in a one-sided stretch, from the pose
+ */
+export interface WorkingSideEstimate {
+  side: 'left' | 'right' | null; // null until the pose makes it clear
+  confidence: number; // 0-1
+  switched: boolean; // The user changed sides mid-hold on this frame
+  timestamp: number;
+}
+
+/**
+ * Working side detected for the first time (from null) or switched
+ */
+export interface WorkingSideChange {
+  from: 'left' | 'right' | null;
+  to: 'left' | 'right';
+  confidence: number;
+  timestamp: number;
+}
+
+/**
+ * Confidence (0-1) behind each value of a feature group; 0 when unknown
+ */
+export type FeatureConfidence<T> = Record<keyof T, number>;
+
+/**
+ * Which way the body faces the camera
+ */
+export type CameraView = 'side' | 'front' | 'three_quarter';
+
 /**
  * Calculated pose features for coaching analysis
  */
 export interface Features {
-  // Body line straightness (degrees from vertical/horizontal)
-  bodyLineAngle: number;
+  // Body line straightness (degrees from vertical/horizontal), null if unknown
+  bodyLineAngle: number | null;
   bodyLineConfidence: number;
 
+  // Camera view of the body, null if unknown
+  view: CameraView | null;
+  viewConfidence: number;
+
   // Joint angles (degrees)
-  angles: {
-    leftHip: number;
-    rightHip: number;
-    leftKnee: number;
-    rightKnee: number;
-    leftShoulder: number;
-    rightShoulder: number;
-    leftElbow: number;
-    rightElbow: number;
-    neck: number;
-  };
+  angles: JointAngles;
+  angleConfidence: FeatureConfidence<JointAngles>;
 
-  // Body part positions (relative to reference points)
-  positions: {
-    hipHeight: number;
-    shoulderHeight: number;
-    headHeight: number;
-    leftAnkleHeight: number;
-    rightAnkleHeight: number;
-  };
+  // Torso length in pixels; the unit of positions and linear velocities
+  bodyScale: number;
+
+  // Body part heights (torso lengths)
+  positions: BodyPositions;
+  positionConfidence: FeatureConfidence<BodyPositions>;
+
+  // Stretch-specific measures (degrees or torso lengths)
+  posture: PostureMetrics;
+  postureConfidence: FeatureConfidence<PostureMetrics>;
 
-  // Movement indicators
+  // Left/right asymmetry (torso lengths or degrees)
+  symmetry: SymmetryMetrics;
+  symmetryConfidence: FeatureConfidence<SymmetryMetrics>;
+
+  // Movement indicators, 0 unless two recent valid samples exist
   velocity: {
     bodyLineAngle: number; // degrees per second
-    hipHeight: number; // pixels per second
-    shoulderHeight: number; // pixels per second
+    hipHeight: number; // torso lengths per second
+    shoulderHeight: number; // torso lengths per second
   };
 
   // Stability metrics
@@ -134,9 +247,12 @@ export interface Features {
  */
 export interface FeatureConfig {
   smoothingFactor: number; // EMA smoothing factor (0-1)
-  stabilityWindowMs: number; // Window for stability calculation
-  motionThreshold: number; // Threshold for motion gating
+  stabilityWindowMs: number; // Window the motion trends are fitted over
+  angularMotionThreshold: number; // Degrees per second that count as motion
+  linearMotionThreshold: number; // Torso lengths per second that count as motion
+  maxSampleGapMs: number; // Older valid samples aren't smoothed or differenced
   angleCalculationMethod: 'atan2' | 'acos' | 'asin';
+  cameraTiltDeg: number; // Camera roll; orientation angles are levelled by it
 }
 
 // ============================================================================
@@ -176,6 +292,19 @@ export interface MotionBufferConfig {
   medianFilterSize: number; // Size for median filtering
 }
 
+/**
+ * Signs of a tiring hold from the motion buffer
+ */
+export interface FatigueEstimate {
+  level: number; // 0-1, the larger of tremor and drift
+  tremor: number; // 0-1, shaking in the tremor band
+  tremorHz: number | null; // Apparent shaking frequency, null while steady
+  hipDrift: number | null; // Torso lengths per second (negative = sagging)
+  bodyLineDrift: number | null; // Degrees per second
+  shouldEndHold: boolean; // Level has stayed high; suggest ending the hold
+  timestamp: number;
+}
+
 // ============================================================================
 // FSM TYPES
 // ============================================================================
@@ -203,7 +332,39 @@ export type FSMEvent =
   | 'ISSUE_RESOLVED' // Form issue resolved
   | 'COOLDOWN_COMPLETE' // Cooldown period finished
   | 'MOTION_DETECTED' // User is moving (suppress coaching)
-  | 'MOTION_STOPPED'; // User stopped moving
+  | 'MOTION_STOPPED' // User stopped moving
+  | 'FATIGUE_DETECTED'; // Shaking or sagging; time to end the hold
+
+/**
+ * Form issues the FSM checks for
+ */
+export type FormIssueType =
+  | 'body_line'
+  | 'hip_height'
+  | 'hip_line'
+  | 'knee_extension';
+
+/**
+ * Detected form issue with the measured value
+ */
+export interface FormIssue {
+  type: FormIssueType;
+  severity: CueSeverity; // 'critical' means out of position entirely
+  direction: 'high' | 'low'; // Above or below the good range
+  value: number;
+  side?: BodySide;
+}
+
+/**
+ * Record of an FSM event and the transition it caused
+ */
+export interface FSMTransitionEvent {
+  event: FSMEvent;
+  from: FSMState;
+  to: FSMState;
+  timestamp: number;
+  issue?: FormIssue;
+}
 
 /**
  * FSM state transition
@@ -227,12 +388,18 @@ export interface StretchConfig {
   // Thresholds for form detection
   thresholds: {
     bodyLineAngle: {
+      target?: number; // Expected |angle| from vertical; omit to skip the check
       good: number; // ±degrees for good form
       warning: number; // ±degrees for warning
       critical: number; // ±degrees for critical issue
+      alongSupportLeg?: boolean; // Measure to the standing leg's ankle
     };
     hipHeight?: {
-      min: number;
+      min: number; // Torso lengths above the feet
+      max: number;
+    };
+    hipLine?: {
+      min: number; // Torso lengths above the shoulder-ankle line
       max: number;
     };
     kneeExtension?: {
@@ -240,7 +407,7 @@ export interface StretchConfig {
       max: number; // maximum knee angle
     };
     shoulderRelaxation?: {
-      max: number; // maximum shoulder elevation
+      max: number; // maximum shoulder elevation (torso lengths above the ear line)
     };
   };
 
@@ -252,15 +419,27 @@ export interface StretchConfig {
     motionGateMs: number; // How long to suppress after motion
   };
 
+  // Views the checks work in; other views prompt the user to turn
+  supportedViews: CameraView[]; // Preferred view first
+
   // Required keypoints for this stretch
   requiredKeypoints: KeypointName[];
   minimumVisibility: number; // Minimum visibility score (0-1)
 
+  // Keypoints resting on the floor in position, for the camera tilt; omit
+  // for the heels and toes
+  floorContacts?: KeypointName[];
+
   // Hysteresis settings to prevent ping-ponging
   hysteresis: {
     bodyLineAngle: number; // Hysteresis band in degrees
-    hipHeight?: number; // Hysteresis band in pixels
+    hipHeight?: number; // Hysteresis band in torso lengths
+    hipLine?: number; // Hysteresis band in torso lengths
+    kneeExtension?: number; // Hysteresis band in degrees
   };
+
+  // Keypoint smoothing overrides (e.g. more lag is fine for static holds)
+  smoothing?: Partial<KeypointSmoothingConfig>;
 }
 
 /**
@@ -279,6 +458,79 @@ export interface FSMStateData {
   totalIssues: number;
 }
 
+// ============================================================================
+// FRAMING TYPES
+// ============================================================================
+
+/**
+ * Camera framing problems, most important first
+ */
+export type FramingIssueType =
+  | 'no_subject' // Nobody in frame
+  | 'cut_off' // Required keypoints outside the frame
+  | 'too_close' // Subject fills the frame
+  | 'too_far' // Subject too small to track reliably
+  | 'off_center' // Subject too far towards one side
+  | 'camera_tilted'; // Camera rolled away from level
+
+/**
+ * Frame edge in image coordinates
+ */
+export type FrameEdge = 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * One framing problem and what would fix it
+ */
+export interface FramingIssue {
+  type: FramingIssueType;
+  severity: CueSeverity;
+  value: number; // Fill ratio, centre offset (-1..1) or tilt in degrees
+  edge?: FrameEdge; // Where keypoints are cut off / subject is drifting
+  direction?: 'left' | 'right'; // Way to move, from the user's point of view
+  keypoints?: KeypointName[]; // Required keypoints that are cut off
+}
+
+/**
+ * Framing analysis of one pose
+ */
+export interface FramingGuidance {
+  isWellFramed: boolean;
+  issues: FramingIssue[]; // Sorted by importance
+  subjectBox: BoundingBox | null; // Visible keypoints, frame coordinates
+  fill: number; // Share of the frame the subject spans (0-1)
+  timestamp: number;
+}
+
+// ============================================================================
+// FRAME QUALITY TYPES
+// ============================================================================
+
+/**
+ * Lighting and sharpness verdict for camera frames
+ */
+export type FrameQuality = 'good' | 'too_dark' | 'backlit' | 'blurry';
+
+/**
+ * Image statistics of one (downsampled) frame
+ */
+export interface FrameQualityReport {
+  quality: FrameQuality;
+  brightness: number; // Mean luma (0-255)
+  contrast: number; // Luma standard deviation
+  sharpness: number; // Laplacian variance; low means blurry
+  backlight: number; // Centre / border brightness ratio; low means backlit
+  timestamp: number;
+}
+
+/**
+ * Frame quality that has persisted long enough to tell the user about
+ */
+export interface FrameQualityCondition {
+  quality: FrameQuality; // 'good' when a previous problem has cleared
+  since: number; // When this quality started
+  report: FrameQualityReport; // Latest frame
+}
+
 // ============================================================================
 // COACHING TYPES
 // ============================================================================
@@ -431,6 +683,28 @@ export interface StretchSession {
   totalIssues: number;
   averageStability: number; // Average stability score
   completionRate: number; // Percentage of time in good form
+  rangeReached?: number; // Furthest stretch-specific range held (degrees)
+}
+
+/**
+ * One measure of a stretch done on each side
+ */
+export interface SideMeasure {
+  left: number;
+  right: number;
+  difference: number; // Left minus right
+}
+
+/**
+ * Left vs right sessions of the same stretch
+ */
+export interface SideComparison {
+  stretchType: StretchType;
+  holdQuality: SideMeasure; // Average stability
+  timeInGoodForm: SideMeasure; // Completion rate
+  rangeReached: SideMeasure | null; // null unless both sides have a range
+  tighterSide: 'left' | 'right' | null; // Less range by a meaningful margin
+  summary: string | null; // e.g. "Your right hamstring is tighter than your left"
 }
 
 /**
@@ -441,13 +715,26 @@ export interface CoachingSession {
   startTime: number;
   endTime?: number;
   state: SessionState;
+  cameraTilt?: CameraTiltCalibration; // Camera roll measured for this session
   stretches: StretchSession[];
   currentStretch?: StretchSession;
+  sideComparisons?: SideComparison[]; // Filled in when the session ends
   totalDuration: number;
   totalIssues: number;
   overallScore: number; // Overall session quality score
 }
 
+/**
+ * Estimated camera roll, positive when the floor line runs clockwise in the
+ * image (down to the right)
+ */
+export interface CameraTiltCalibration {
+  tiltDeg: number;
+  source: 'floor_line' | 'device';
+  samples: number; // Reference poses behind a floor line estimate
+  timestamp: number;
+}
+
 /**
  * Session configuration
  */
@@ -476,6 +763,8 @@ export type TelemetryEvent =
   | 'cue_played'
   | 'pose_lost'
   | 'pose_regained'
+  | 'subject_locked'
+  | 'subject_lost'
   | 'error_occurred';
 
 /**
@@ -524,6 +813,7 @@ export type AppErrorType =
   | 'camera_permission_denied'
   | 'camera_unavailable'
   | 'pose_estimation_failed'
+  | 'poor_frame_quality' // Too dark, backlit or blurry to estimate poses
   | 'tts_unavailable'
   | 'network_error'
   | 'storage_error'
@@ -3,13 +3,33 @@
  * Displays keypoint visualization and frame rate indicator
  */
 
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import { View, StyleSheet } from 'react-native';
+import { CameraView } from 'expo-camera';
+import { CameraService } from '../../camera/CameraService';
+
+interface CameraPreviewProps {
+  camera: CameraService;
+}
+
+export const CameraPreview: React.FC<CameraPreviewProps> = ({ camera }) => {
+  // Small pictures keep the per-frame JPEG decode cheap
+  const [pictureSize, setPictureSize] = useState<string | undefined>();
+
+  const handleCameraReady = useCallback(() => {
+    camera.loadPictureSize().then(setPictureSize);
+  }, [camera]);
 
-export const CameraPreview: React.FC = () => {
   return (
     <View style={styles.container}>
-      {/* TODO: Implement camera preview with overlay */}
+      <CameraView
+        ref={view => camera.setCameraRef(view)}
+        style={styles.camera}
+        facing="front"
+        pictureSize={pictureSize}
+        onCameraReady={handleCameraReady}
+      />
+      {/* TODO: Implement keypoint overlay */}
     </View>
   );
 };
@@ -18,4 +38,7 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  camera: {
+    flex: 1,
+  },
 });